@@ -7,6 +7,13 @@ let socket;
 let fitAddon;
 let webLinksAddon;
 let containerId;
+let viewOnly = false; // Opened from a viewer link: watch without controlling the session
+const blockedHosts = new Map(); // Host -> number of requests refused by the network policy
+let lastUsage = null; // Latest resource usage sample from the server
+let sessionDeadline = null; // { at, reason } when the session has a time limit
+let countdownTimer = null;
+const DEADLINE_WARNING_SECONDS = 5 * 60; // Matches the server's warning
+let deadlineWarned = false;
 
 // Input detection state
 let isWaitingForInput = false;
@@ -328,7 +335,7 @@ function initTerminal() {
 	// Handle window resize
 	window.addEventListener('resize', () => {
 		fitAddon.fit();
-		if (socket && socket.connected) {
+		if (socket && socket.connected && !viewOnly) {
 			socket.emit('resize', {
 				cols: term.cols,
 				rows: term.rows,
@@ -338,7 +345,7 @@ function initTerminal() {
 
 	// Handle terminal input
 	term.onData((data) => {
-		if (socket && socket.connected) {
+		if (socket && socket.connected && !viewOnly) {
 			socket.emit('input', data);
 
 			// Cancel idle timer when user provides input
@@ -386,6 +393,12 @@ function initTerminal() {
 	term.focus();
 }
 
+// Send the browser to the login page, coming back here afterwards
+function redirectToLogin() {
+	const next = window.location.pathname + window.location.search;
+	window.location.href = `/login.html?next=${encodeURIComponent(next)}`;
+}
+
 // Initialize Socket.IO connection
 function initSocket() {
 	socket = io();
@@ -419,9 +432,15 @@ function initSocket() {
 	socket.on('attached', (data) => {
 		console.log('Attached to container:', data.containerId);
 		containerId = data.containerId;
+		viewOnly = data.role === 'viewer';
+		if (viewOnly) {
+			term.options.disableStdin = true;
+		}
 		updateStatus(
 			'connected',
-			`Connected to ${data.containerId.substring(0, 12)}`,
+			viewOnly
+				? t('status.viewOnly', `Watching ${data.containerId.substring(0, 12)} (read-only)`, { containerId: data.containerId.substring(0, 12) })
+				: `Connected to ${data.containerId.substring(0, 12)}`,
 		);
 
 		// Check if this was initialized from a non-git directory
@@ -431,11 +450,13 @@ function initSocket() {
 
 		// Don't clear terminal on attach - preserve existing content
 
-		// Send initial resize
-		socket.emit('resize', {
-			cols: term.cols,
-			rows: term.rows,
-		});
+		// Send initial resize; viewers follow the operator's terminal size
+		if (!viewOnly) {
+			socket.emit('resize', {
+				cols: term.cols,
+				rows: term.rows,
+			});
+		}
 
 		// Start idle detection
 		resetIdleTimer();
@@ -535,7 +556,7 @@ function initSocket() {
 		console.log('[SYNC] Summary:', data.summary);
 		console.log('[SYNC] Diff data:', data.diffData);
 
-		if (data.hasChanges) {
+		if (data.hasChanges || data.commits?.length) {
 			// Keep showing container ID in status
 			updateStatus('connected', `Connected to ${containerId.substring(0, 12)}`);
 			updateChangesTab(data);
@@ -551,12 +572,83 @@ function initSocket() {
 		}
 	});
 
+	// A stage, unstage or discard from the Changes tab failed
+	socket.on('changes-error', (error) => {
+		console.error('[CHANGES] Action failed:', error);
+		updateStatus('error', t('changes.actionFailed', `Could not update changes: ${error.message}`, { message: error.message }));
+	});
+
 	socket.on('sync-error', (error) => {
 		console.error('[SYNC] Sync error:', error);
 		updateStatus('error', `Sync failed: ${error.message}`);
 	});
 
 	// Add general error handler
+	// The server rejected an action because this is a viewer link
+	socket.on('permission-denied', (data) => {
+		console.warn('[SOCKET] Permission denied:', data.event);
+		updateStatus('connected', t('status.viewOnlyDenied', 'Read-only session: changes are not allowed'));
+	});
+
+	// The session will be stopped at this time unless there is activity first
+	socket.on('session-limits', (data) => {
+		const at = Date.parse(data.deadline);
+		if (!sessionDeadline || sessionDeadline.at !== at) {
+			deadlineWarned = false;
+		}
+		sessionDeadline = { at, reason: data.reason };
+		if (!countdownTimer) {
+			countdownTimer = setInterval(updateCountdown, 1000);
+		}
+		updateCountdown();
+	});
+
+	socket.on('session-expired', (expiry) => {
+		clearInterval(countdownTimer);
+		countdownTimer = null;
+		sessionDeadline = null;
+		updateCountdown();
+		const message = expiry.reason === 'idle'
+			? t('limits.expiredIdle', 'Session stopped: it was idle for too long')
+			: t('limits.expiredDuration', 'Session stopped: it reached its maximum duration');
+		updateStatus('error', message);
+		term.writeln(`\r\n\x1B[1;33m⚠ ${message}\x1B[0m`);
+		if (expiry.finalSync === 'ok') {
+			term.writeln(`\x1B[1;33m  ${t('limits.changesKept', 'Its changes were synced and can be reviewed in the Changes tab.')}\x1B[0m`);
+		}
+	});
+
+	// Live CPU, memory and process counts of the container
+	socket.on('resource-usage', (usage) => {
+		const hadWarnings = lastUsage && lastUsage.warnings.length > 0;
+		lastUsage = usage;
+		updateResourceUsage();
+		if (usage.warnings.length > 0 && !hadWarnings) {
+			updateStatus('connected', t('status.resourceWarning', `Nearing resource limits: ${usage.warnings.join(', ')}`, { details: usage.warnings.join(', ') }));
+		}
+	});
+
+	// The runner committed inside the container
+	socket.on('commit', (commit) => {
+		const subject = commit.message.split('\n')[0];
+		const message = t('status.newCommit', `New commit ${commit.hash.substring(0, 8)}: ${subject}`, { hash: commit.hash.substring(0, 8), subject });
+		updateStatus('connected', message);
+		term.writeln(`\r\n\x1B[1;32m✓ ${message}\x1B[0m`);
+	});
+
+	// The egress proxy refused requests that are not on the network allowlist
+	socket.on('egress-blocked', (requests) => {
+		for (const request of requests) {
+			const host = `${request.host}:${request.port}`;
+			blockedHosts.set(host, (blockedHosts.get(host) || 0) + 1);
+		}
+		const last = requests[requests.length - 1];
+		if (last) {
+			updateStatus('connected', t('status.egressBlocked', `Blocked request to ${last.host}`, { host: last.host }));
+		}
+		updateEgressBadge();
+	});
+
 	socket.on('error', (error) => {
 		console.error('[SOCKET] Socket error:', error);
 
@@ -579,6 +671,14 @@ function initSocket() {
 		console.log('[SOCKET] Disconnected:', reason);
 	});
 
+	// The access token cookie is missing or belongs to an older server
+	socket.on('connect_error', (error) => {
+		if (error.message === 'unauthorized') {
+			socket.disconnect();
+			redirectToLogin();
+		}
+	});
+
 	// Container error handler (keeping this for backward compatibility)
 	socket.on('container-error', (error) => {
 		console.error('[CONTAINER] Container error:', error);
@@ -626,6 +726,84 @@ async function fetchContainerList() {
 	}
 }
 
+// Show the time left before the session is stopped, warning in the last minutes
+function updateCountdown() {
+	const element = document.getElementById('session-countdown');
+	if (!sessionDeadline) {
+		element.style.display = 'none';
+		return;
+	}
+	const remaining = Math.max(0, Math.ceil((sessionDeadline.at - Date.now()) / 1000));
+	const hours = Math.floor(remaining / 3600);
+	const minutes = Math.floor((remaining % 3600) / 60);
+	const seconds = String(remaining % 60).padStart(2, '0');
+	const time = hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+
+	const warning = remaining <= DEADLINE_WARNING_SECONDS;
+	element.textContent = `⏱ ${time}`;
+	element.title = sessionDeadline.reason === 'idle'
+		? t('limits.idleTitle', 'The session is stopped when idle this long')
+		: t('limits.durationTitle', 'The session is stopped when this runs out');
+	element.classList.toggle('warning', warning);
+	element.style.display = 'inline';
+
+	if (warning && !deadlineWarned) {
+		deadlineWarned = true;
+		const minutesLeft = Math.max(1, Math.ceil(remaining / 60));
+		updateStatus('connected', sessionDeadline.reason === 'idle'
+			? t('limits.idleWarning', `Idle session will be stopped in ${minutesLeft} min`, { minutes: minutesLeft })
+			: t('limits.durationWarning', `Session will be stopped in ${minutesLeft} min`, { minutes: minutesLeft }));
+	}
+}
+
+function formatBytes(bytes) {
+	if (bytes <= 0) {
+		return '0 B';
+	}
+	const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+	const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+	return `${(bytes / 1024 ** i).toFixed(i === 0 ? 0 : 1)} ${units[i]}`;
+}
+
+// Show the container's resource usage next to the connection status
+function updateResourceUsage() {
+	const element = document.getElementById('resource-usage');
+	if (!lastUsage) {
+		element.style.display = 'none';
+		return;
+	}
+	const usage = lastUsage;
+	const parts = [
+		`${t('resources.cpu', 'CPU')} ${Math.round(usage.cpuPercent)}%${usage.cpuLimit ? ` / ${usage.cpuLimit * 100}%` : ''}`,
+		`${t('resources.memory', 'Mem')} ${formatBytes(usage.memory)}${usage.memoryLimit ? ` / ${formatBytes(usage.memoryLimit)}` : ''}`,
+		`${t('resources.pids', 'PIDs')} ${usage.pids}${usage.pidsLimit ? ` / ${usage.pidsLimit}` : ''}`,
+	];
+	if (usage.disk !== undefined) {
+		parts.push(`${t('resources.disk', 'Disk')} ${formatBytes(usage.disk)} / ${formatBytes(usage.diskLimit || 0)}`);
+	}
+	element.textContent = parts.join(' · ');
+	element.classList.toggle('warning', usage.warnings.length > 0);
+	element.title = usage.warnings.join('\n');
+	element.style.display = 'inline';
+}
+
+// Show how many requests the network policy blocked, with the hosts on hover
+function updateEgressBadge() {
+	const badge = document.getElementById('egress-badge');
+	if (blockedHosts.size === 0) {
+		badge.style.display = 'none';
+		return;
+	}
+	let total = 0;
+	for (const count of blockedHosts.values()) {
+		total += count;
+	}
+	badge.textContent = t('egress.blockedCount', `${total} blocked`, { count: total });
+	badge.title = `${t('egress.blockedHosts', 'Blocked by the network policy:')}\n${
+		Array.from(blockedHosts, ([host, count]) => `${host} (${count})`).join('\n')}`;
+	badge.style.display = 'inline';
+}
+
 // Update connection status
 function updateStatus(status, text) {
 	const indicator = document.getElementById('status-indicator');
@@ -636,9 +814,9 @@ function updateStatus(status, text) {
 }
 
 // Translate helper - returns translated text if I18n is ready, otherwise returns original
-function t(key, fallback) {
+function t(key, fallback, params) {
 	if (typeof I18n !== 'undefined' && I18n.ready()) {
-		return I18n.t(key);
+		return I18n.t(key, params);
 	}
 	return fallback || key;
 }
@@ -801,6 +979,8 @@ document.addEventListener('DOMContentLoaded', () => {
 		if (document.body.classList.contains('input-needed')) {
 			document.title = `⚠️ ${t('messages.inputNeeded', 'Need Input')} - ${originalPageTitle}`;
 		}
+		updateEgressBadge();
+		updateResourceUsage();
 	});
 
 	initTerminal();
@@ -941,6 +1121,11 @@ function updateChangesTab(syncData) {
 		return;
 	}
 
+	// Keep an edited commit message and the scroll position across updates
+	const messageInput = document.getElementById('commit-message');
+	const editedMessage = messageInput && messageInput.value !== messageInput.defaultValue ? messageInput.value : null;
+	const scrollTop = container.querySelector('.diff-viewer')?.scrollTop || 0;
+
 	// Clear existing content
 	container.innerHTML = '';
 
@@ -959,16 +1144,10 @@ function updateChangesTab(syncData) {
 				})
 			: I18n.t('changes.noChangesTitle');
 
-	container.innerHTML = `
-        <div class="changes-summary">
-            <strong>${I18n.t('changes.changesSummary')}</strong> ${syncData.summary}
-            <div class="diff-stats">📊 ${statsText}</div>
-        </div>
-        
-        <div class="diff-viewer">
-            ${formatDiffForDisplay(syncData.diffData)}
-        </div>
-        
+	// Viewers can look at the changes but not commit or push them
+	const gitActions = viewOnly
+		? `<div class="git-actions"><p>${I18n.t('changes.viewOnly')}</p></div>`
+		: `
         <div class="git-actions">
             <h3>${I18n.t('changes.commitChanges')}</h3>
             <textarea 
@@ -981,12 +1160,12 @@ ${syncData.summary}</textarea>
             
             <div style="margin-bottom: 15px;">
                 <button onclick="commitChanges('${syncData.containerId}')" class="btn btn-primary" id="commit-btn">
-                    ${I18n.t('changes.commitButton')}
+                    ${I18n.t(syncData.diffData?.files?.staged.length ? 'changes.commitStagedButton' : 'changes.commitButton')}
                 </button>
             </div>
         </div>
         
-        <div class="git-actions" id="push-section" style="display: none;">
+        <div class="git-actions" id="push-section" style="display: ${syncData.commits?.length ? 'block' : 'none'};">
             <h3>${I18n.t('changes.pushToRemote')}</h3>
             <div class="branch-input">
                 <label for="push-branch-name">${I18n.t('changes.branchName')}</label>
@@ -997,9 +1176,28 @@ ${syncData.summary}</textarea>
                     ${I18n.t('changes.pushButton')}
                 </button>
             </div>
+        </div>`;
+
+	container.innerHTML = `
+        <div class="changes-summary">
+            <strong>${I18n.t('changes.changesSummary')}</strong> ${syncData.summary}
+            <div class="diff-stats">📊 ${statsText}</div>
         </div>
+        
+        ${formatCommitList(syncData.commits)}
+
+        <div class="diff-viewer">
+            ${formatDiffForDisplay(syncData.diffData)}
+        </div>
+        
+        ${gitActions}
     `;
 
+	if (editedMessage !== null) {
+		document.getElementById('commit-message').value = editedMessage;
+	}
+	container.querySelector('.diff-viewer').scrollTop = scrollTop;
+
 	// Store sync data for later use
 	window.currentSyncData = syncData;
 }
@@ -1023,10 +1221,31 @@ function clearChangesTab() {
 	updateChangesTabBadge(0);
 }
 
+// Commits the runner made in the container, newest first
+function formatCommitList(commits) {
+	if (!commits || commits.length === 0)
+		return '';
+
+	const items = commits.map(commit => `
+            <div class="commit-item">
+                <code>${commit.hash.substring(0, 7)}</code>
+                <span class="commit-subject">${escapeHtml(commit.subject)}</span>
+                <span class="commit-meta">${escapeHtml(commit.author)} · ${new Date(commit.date).toLocaleString()}</span>
+            </div>`);
+	return `
+        <div class="commit-list">
+            <strong>${I18n.t('changes.commits', { count: commits.length })}</strong>
+            ${items.join('')}
+        </div>`;
+}
+
 function formatDiffForDisplay(diffData) {
 	if (!diffData)
 		return '<div class="diff-line context">No changes to display</div>';
 
+	if (diffData.files)
+		return formatFileDiffs(diffData.files);
+
 	const lines = [];
 
 	// Show file status
@@ -1037,7 +1256,7 @@ function formatDiffForDisplay(diffData) {
 				const status = line.substring(0, 2);
 				const filename = line.substring(3);
 				let statusText = '';
-				if (status === '??')
+				if (status === '??' || status === ' A')
 					statusText = I18n.t('changes.fileStatusNew');
 				else if (status === ' M' || status === 'M ' || status === 'MM')
 					statusText = I18n.t('changes.fileStatusModified');
@@ -1085,6 +1304,84 @@ function formatDiffForDisplay(diffData) {
 	return lines.join('');
 }
 
+// Staged and unstaged changes, with controls for each file and hunk
+function formatFileDiffs(files) {
+	const statusLabels = {
+		added: I18n.t('changes.fileStatusNew'),
+		deleted: I18n.t('changes.fileStatusDeleted'),
+		modified: I18n.t('changes.fileStatusModified'),
+	};
+	const button = (label, dataset, className = '') => viewOnly
+		? ''
+		: `<button class="diff-action ${className}" onclick="applyChangeAction(this)" ${dataset}>${label}</button>`;
+
+	const lines = [];
+	const sections = [
+		{ key: 'staged', title: I18n.t('changes.stagedChanges') },
+		{ key: 'unstaged', title: I18n.t('changes.unstagedChanges') },
+	];
+	for (const { key, title } of sections) {
+		const sectionFiles = files[key];
+		if (sectionFiles.length === 0)
+			continue;
+		lines.push(`<div class="diff-line header">${title}</div>`);
+
+		sectionFiles.forEach((file, fileIndex) => {
+			const target = `data-section="${key}" data-file="${fileIndex}"`;
+			const fileActions = key === 'staged'
+				? button(I18n.t('changes.unstage'), `${target} data-action="unstage"`)
+				: button(I18n.t('changes.stage'), `${target} data-action="stage"`)
+					+ button(I18n.t('changes.discard'), `${target} data-action="discard"`, 'danger');
+			lines.push(
+				`<div class="diff-file"><span>${statusLabels[file.status]}: ${escapeHtml(file.path)}</span><span class="diff-actions">${fileActions}</span></div>`,
+			);
+			if (file.binary) {
+				lines.push(`<div class="diff-line context">${I18n.t('changes.binaryFile')}</div>`);
+				return;
+			}
+
+			file.hunks.forEach((hunk, hunkIndex) => {
+				const hunkTarget = `${target} data-hunk="${hunkIndex}"`;
+				const hunkActions = key === 'staged'
+					? button(I18n.t('changes.unstageHunk'), `${hunkTarget} data-action="unstage"`)
+					: button(I18n.t('changes.stageHunk'), `${hunkTarget} data-action="stage"`)
+						+ button(I18n.t('changes.discardHunk'), `${hunkTarget} data-action="discard"`, 'danger');
+				lines.push(
+					`<div class="diff-line header diff-hunk"><span>${escapeHtml(hunk.header)}</span><span class="diff-actions">${hunkActions}</span></div>`,
+				);
+				for (const line of hunk.lines) {
+					let className = 'context';
+					if (line.startsWith('+'))
+						className = 'added';
+					else if (line.startsWith('-'))
+						className = 'removed';
+					lines.push(`<div class="diff-line ${className}">${escapeHtml(line)}</div>`);
+				}
+			});
+		});
+		lines.push('<div class="diff-line context"></div>');
+	}
+	return lines.join('');
+}
+
+// Stage, unstage or discard the file or hunk a button belongs to
+function applyChangeAction(element) {
+	const syncData = window.currentSyncData;
+	const { action, section, file: fileIndex, hunk: hunkIndex } = element.dataset;
+	const file = syncData?.diffData?.files?.[section]?.[fileIndex];
+	if (!file)
+		return;
+
+	const hunk = hunkIndex === undefined
+		? undefined
+		: { index: Number(hunkIndex), header: file.hunks[hunkIndex].header };
+	if (action === 'discard' && !confirm(I18n.t(hunk ? 'changes.confirmDiscardHunk' : 'changes.confirmDiscard', { path: file.path })))
+		return;
+
+	element.disabled = true;
+	socket.emit(`${action}-changes`, { containerId: syncData.containerId, path: file.path, hunk });
+}
+
 function escapeHtml(text) {
 	const div = document.createElement('div');
 	div.textContent = text;
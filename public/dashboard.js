@@ -0,0 +1,264 @@
+/* global I18n */
+
+const REFRESH_INTERVAL = 3000;
+const MAX_SPLIT_PANES = 4;
+
+let sessions = [];
+const openPanes = [];
+
+// Translation helper with fallback while i18n is loading
+function t(key, fallback, params) {
+	if (typeof I18n !== 'undefined' && I18n.ready()) {
+		return I18n.t(key, params);
+	}
+	return fallback || key;
+}
+
+function escapeHtml(text) {
+	const div = document.createElement('div');
+	div.textContent = text == null ? '' : String(text);
+	return div.innerHTML;
+}
+
+function formatUptime(startedAt) {
+	if (!startedAt) {
+		return '-';
+	}
+	const seconds = Math.max(0, Math.floor((Date.now() - new Date(startedAt).getTime()) / 1000));
+	const days = Math.floor(seconds / 86400);
+	const hours = Math.floor((seconds % 86400) / 3600);
+	const minutes = Math.floor((seconds % 3600) / 60);
+	if (days > 0) {
+		return `${days}d ${hours}h`;
+	}
+	if (hours > 0) {
+		return `${hours}h ${minutes}m`;
+	}
+	return `${minutes}m`;
+}
+
+function renderActivity(session) {
+	if (session.state !== 'running') {
+		return `<span class="badge stopped">${escapeHtml(session.state)}</span>`;
+	}
+	if (session.activity === 'working') {
+		return `<span class="badge working">${t('dashboard.activityWorking', 'Working')}</span>`;
+	}
+	if (session.activity === 'waiting') {
+		return `<span class="badge waiting">${t('dashboard.activityWaiting', 'Waiting for input')}</span>`;
+	}
+	return `<span class="badge">${t('dashboard.activityInactive', 'Not attached')}</span>`;
+}
+
+function renderChanges(session) {
+	if (!session.changes) {
+		return '<span class="muted">-</span>';
+	}
+	if (session.changes.files === 0) {
+		return `<span class="muted">${t('dashboard.noChanges', 'None')}</span>`;
+	}
+	return `${t('dashboard.fileCount', `${session.changes.files} file(s)`, { files: session.changes.files })} `
+		+ `<span class="additions">+${session.changes.additions}</span> `
+		+ `<span class="deletions">-${session.changes.deletions}</span>`;
+}
+
+function renderSessions() {
+	const table = document.getElementById('sessions-table');
+	const body = document.getElementById('sessions-body');
+	const empty = document.getElementById('no-sessions');
+	const running = sessions.filter(session => session.state === 'running').length;
+
+	document.getElementById('session-count').textContent = t(
+		'dashboard.runningCount',
+		`${running} running`,
+		{ count: running },
+	);
+
+	if (sessions.length === 0) {
+		table.style.display = 'none';
+		empty.style.display = 'block';
+		return;
+	}
+	table.style.display = '';
+	empty.style.display = 'none';
+
+	body.innerHTML = sessions.map((session) => {
+		const id = session.containerId;
+		const isRunning = session.state === 'running';
+		const inSplit = openPanes.includes(id);
+		return `
+			<tr>
+				<td>
+					<div>${escapeHtml(session.name)}</div>
+					<div class="muted">${escapeHtml(id.substring(0, 12))}</div>
+				</td>
+				<td class="repo">
+					<div>${escapeHtml(session.repo || '-')}</div>
+					<div class="muted">${escapeHtml(session.repoPath || '')}</div>
+				</td>
+				<td>${escapeHtml(session.branch || '-')}</td>
+				<td>${escapeHtml(session.runnerName || session.runner || '-')}</td>
+				<td>${isRunning ? formatUptime(session.startedAt) : '-'}</td>
+				<td>${renderActivity(session)}</td>
+				<td>${renderChanges(session)}</td>
+				<td class="actions">
+					<button onclick="openSession('${id}')" ${isRunning ? '' : 'disabled'}>${t('dashboard.open', 'Open')}</button>
+					<button onclick="toggleSplit('${id}')" ${isRunning ? '' : 'disabled'}>${inSplit ? t('dashboard.closeSplit', 'Close split') : t('dashboard.split', 'Split view')}</button>
+					<button onclick="stopSession('${id}')" ${isRunning ? '' : 'disabled'}>${t('dashboard.stop', 'Stop')}</button>
+					<button class="danger" onclick="removeSession('${id}')">${t('dashboard.remove', 'Remove')}</button>
+				</td>
+			</tr>`;
+	}).join('');
+}
+
+async function refreshSessions() {
+	try {
+		const response = await fetch('/api/sessions');
+		if (response.status === 401) {
+			window.location.href = `/login.html?next=${encodeURIComponent('/dashboard')}`;
+			return;
+		}
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status}`);
+		}
+		sessions = await response.json();
+
+		// Drop split panes whose containers are gone or stopped
+		for (const id of [...openPanes]) {
+			if (!sessions.some(session => session.containerId === id && session.state === 'running')) {
+				closePane(id);
+			}
+		}
+
+		renderSessions();
+	}
+	catch (error) {
+		console.error('Failed to fetch sessions:', error);
+	}
+}
+
+function sessionUrl(containerId) {
+	return `/?container=${encodeURIComponent(containerId)}`;
+}
+
+function openSession(containerId) {
+	window.open(sessionUrl(containerId), '_blank');
+}
+
+function renderSplitView() {
+	const splitView = document.getElementById('split-view');
+	const sessionsPanel = document.getElementById('sessions');
+
+	if (openPanes.length === 0) {
+		splitView.style.display = 'none';
+		splitView.innerHTML = '';
+		sessionsPanel.classList.add('full');
+		return;
+	}
+	splitView.style.display = 'flex';
+	sessionsPanel.classList.remove('full');
+
+	// Keep existing iframes so their terminals stay connected
+	for (const pane of [...splitView.children]) {
+		if (!openPanes.includes(pane.dataset.containerId)) {
+			pane.remove();
+		}
+	}
+	for (const id of openPanes) {
+		if (splitView.querySelector(`[data-container-id="${id}"]`)) {
+			continue;
+		}
+		const session = sessions.find(s => s.containerId === id);
+		const pane = document.createElement('div');
+		pane.className = 'split-pane';
+		pane.dataset.containerId = id;
+		pane.innerHTML = `
+			<div class="split-pane-header">
+				<span>${escapeHtml(session ? session.name : id.substring(0, 12))}</span>
+				<button onclick="toggleSplit('${id}')" title="${t('dashboard.closeSplit', 'Close split')}">×</button>
+			</div>
+			<iframe src="${sessionUrl(id)}"></iframe>`;
+		splitView.appendChild(pane);
+	}
+}
+
+function closePane(containerId) {
+	const index = openPanes.indexOf(containerId);
+	if (index !== -1) {
+		openPanes.splice(index, 1);
+		renderSplitView();
+	}
+}
+
+function toggleSplit(containerId) {
+	if (openPanes.includes(containerId)) {
+		closePane(containerId);
+	}
+	else {
+		if (openPanes.length >= MAX_SPLIT_PANES) {
+			alert(t('dashboard.tooManyPanes', `At most ${MAX_SPLIT_PANES} sessions can be shown side by side`, { max: MAX_SPLIT_PANES }));
+			return;
+		}
+		openPanes.push(containerId);
+		renderSplitView();
+	}
+	renderSessions();
+}
+
+// Copy a read-only link that lets someone watch the session
+async function shareSession(containerId) {
+	let link;
+	try {
+		const response = await fetch(`/api/sessions/${encodeURIComponent(containerId)}/viewer-link`);
+		const data = await response.json().catch(() => ({}));
+		if (!response.ok) {
+			throw new Error(data.error || `HTTP ${response.status}`);
+		}
+		link = new URL(data.path, window.location.origin).toString();
+	}
+	catch (error) {
+		alert(t('dashboard.actionFailed', `Action failed: ${error.message}`, { message: error.message }));
+		return;
+	}
+
+	try {
+		await navigator.clipboard.writeText(link);
+		alert(t('dashboard.shareCopied', 'Read-only link copied to the clipboard'));
+	}
+	catch {
+		// Clipboard access needs HTTPS or localhost
+		prompt(t('dashboard.sharePrompt', 'Read-only link for this session:'), link);
+	}
+}
+
+async function stopSession(containerId) {
+	if (!confirm(t('dashboard.confirmStop', 'Stop this container?'))) {
+		return;
+	}
+	await sessionAction(`/api/sessions/${encodeURIComponent(containerId)}/stop`, 'POST');
+}
+
+async function removeSession(containerId) {
+	if (!confirm(t('dashboard.confirmRemove', 'Remove this container? Uncommitted changes in it will be lost.'))) {
+		return;
+	}
+	closePane(containerId);
+	await sessionAction(`/api/sessions/${encodeURIComponent(containerId)}`, 'DELETE');
+}
+
+async function sessionAction(url, method) {
+	try {
+		const response = await fetch(url, { method });
+		if (!response.ok) {
+			const data = await response.json().catch(() => ({}));
+			throw new Error(data.error || `HTTP ${response.status}`);
+		}
+	}
+	catch (error) {
+		alert(t('dashboard.actionFailed', `Action failed: ${error.message}`, { message: error.message }));
+	}
+	await refreshSessions();
+}
+
+setInterval(refreshSessions, REFRESH_INTERVAL);
+window.addEventListener('languagechange', renderSessions);
@@ -157,8 +157,8 @@ const I18n = (function () {
 			}
 		});
 
-		// Update document title
-		document.title = t('app.title');
+		// Update document title (pages can pick their own key)
+		document.title = t(document.documentElement.getAttribute('data-i18n-page-title') || 'app.title');
 
 		// Update language selector current value
 		const langSelector = document.getElementById('language-selector');
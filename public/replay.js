@@ -0,0 +1,194 @@
+/* global Terminal, I18n */
+
+const MAX_IDLE = 2; // Seconds; longer pauses are shortened during playback
+
+let term;
+let header;
+let events = [];
+let index = 0;
+let position = 0; // Recording time of the last applied event
+let playing = false;
+let timer = null;
+let speed = 1;
+
+// Translation helper with fallback while i18n is loading
+function t(key, fallback, params) {
+	if (typeof I18n !== 'undefined' && I18n.ready()) {
+		return I18n.t(key, params);
+	}
+	return fallback || key;
+}
+
+function escapeHtml(text) {
+	const div = document.createElement('div');
+	div.textContent = text == null ? '' : String(text);
+	return div.innerHTML;
+}
+
+function formatTime(seconds) {
+	const total = Math.floor(seconds);
+	const minutes = Math.floor(total / 60);
+	return `${minutes}:${String(total % 60).padStart(2, '0')}`;
+}
+
+async function fetchOrLogin(url) {
+	const response = await fetch(url);
+	if (response.status === 401) {
+		const next = window.location.pathname + window.location.search;
+		window.location.href = `/login.html?next=${encodeURIComponent(next)}`;
+		throw new Error('Unauthorized');
+	}
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status}`);
+	}
+	return response;
+}
+
+async function loadRecordingList() {
+	const list = document.getElementById('recordings');
+	try {
+		const recordings = await (await fetchOrLogin('/api/recordings')).json();
+		if (recordings.length === 0) {
+			list.innerHTML = `<div class="muted">${t('replay.noRecordings', 'No recordings yet.')}</div>`;
+			return;
+		}
+		const current = new URLSearchParams(window.location.search).get('file');
+		list.innerHTML = recordings.map(recording => `
+			<a class="recording ${recording.name === current ? 'active' : ''}" href="/replay?file=${encodeURIComponent(recording.name)}">
+				<div>${escapeHtml(recording.containerId)}</div>
+				<div class="muted">${escapeHtml(new Date(recording.startedAt).toLocaleString())} · ${Math.ceil(recording.size / 1024)} KB</div>
+			</a>`).join('');
+	}
+	catch (error) {
+		console.error('Failed to fetch recordings:', error);
+	}
+}
+
+async function loadRecording(name) {
+	const text = await (await fetchOrLogin(`/api/recordings/${encodeURIComponent(name)}`)).text();
+	const lines = text.split('\n').filter(line => line.trim());
+	header = JSON.parse(lines[0]);
+	events = [];
+	for (const line of lines.slice(1)) {
+		try {
+			events.push(JSON.parse(line));
+		}
+		catch {
+			// The last line may be cut off if the recorder was killed
+		}
+	}
+
+	document.getElementById('recording-title').textContent = header.title || name;
+	document.getElementById('player').style.display = 'flex';
+	document.getElementById('empty').style.display = 'none';
+
+	term = new Terminal({
+		cols: header.width,
+		rows: header.height,
+		disableStdin: true,
+		convertEol: false,
+		theme: { background: '#1e1e1e' },
+	});
+	term.open(document.getElementById('terminal'));
+	restart();
+}
+
+function duration() {
+	return events.length > 0 ? events[events.length - 1][0] : 0;
+}
+
+function updateProgress() {
+	document.getElementById('progress').textContent = `${formatTime(position)} / ${formatTime(duration())}`;
+	document.getElementById('play-btn').textContent = playing ? t('replay.pause', 'Pause') : t('replay.play', 'Play');
+}
+
+function applyEvent([time, type, data]) {
+	if (type === 'o') {
+		term.write(data);
+	}
+	else if (type === 'r') {
+		const [cols, rows] = data.split('x').map(Number);
+		if (cols && rows) {
+			term.resize(cols, rows);
+		}
+	}
+	position = time;
+	index++;
+}
+
+function scheduleNext() {
+	if (index >= events.length) {
+		playing = false;
+		updateProgress();
+		return;
+	}
+	const delay = Math.max(0, Math.min(events[index][0] - position, MAX_IDLE)) / speed;
+	timer = setTimeout(() => {
+		applyEvent(events[index]);
+		updateProgress();
+		scheduleNext();
+	}, delay * 1000);
+}
+
+function togglePlay() {
+	if (playing) {
+		clearTimeout(timer);
+		playing = false;
+	}
+	else {
+		if (index >= events.length) {
+			restart();
+		}
+		playing = true;
+		scheduleNext();
+	}
+	updateProgress();
+}
+
+function restart() {
+	clearTimeout(timer);
+	playing = false;
+	term.reset();
+	term.resize(header.width, header.height);
+	index = 0;
+	position = 0;
+	updateProgress();
+}
+
+// Show the final state of the terminal straight away
+function skipToEnd() {
+	clearTimeout(timer);
+	playing = false;
+	while (index < events.length) {
+		applyEvent(events[index]);
+	}
+	updateProgress();
+}
+
+function setSpeed(value) {
+	speed = Number(value) || 1;
+	if (playing) {
+		clearTimeout(timer);
+		scheduleNext();
+	}
+}
+
+async function initReplay() {
+	await loadRecordingList();
+	const name = new URLSearchParams(window.location.search).get('file');
+	if (name) {
+		try {
+			await loadRecording(name);
+		}
+		catch (error) {
+			document.getElementById('empty').textContent = t('replay.loadFailed', `Could not load recording: ${error.message}`, { message: error.message });
+		}
+	}
+}
+
+window.addEventListener('languagechange', () => {
+	loadRecordingList();
+	if (term) {
+		updateProgress();
+	}
+});
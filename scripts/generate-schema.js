@@ -0,0 +1,166 @@
+#!/usr/bin/env node
+
+/**
+ * Generate schema/config.schema.json from the SandboxConfig interface
+ * Property descriptions come from the trailing comments in src/types.ts,
+ * and "Default: x" at the start of a comment becomes the default value.
+ */
+
+const fs = require('node:fs');
+const path = require('node:path');
+const process = require('node:process');
+const ts = require('typescript');
+
+const typesPath = path.join(__dirname, '..', 'src', 'types.ts');
+const schemaPath = path.join(__dirname, '..', 'schema', 'config.schema.json');
+const schemaUrl = 'https://raw.githubusercontent.com/yanranxiaoxi/claude-code-runner/main/schema/config.schema.json';
+
+const program = ts.createProgram([typesPath], { strict: true });
+const checker = program.getTypeChecker();
+const sourceFile = program.getSourceFile(typesPath);
+const definitions = {};
+
+// Trailing `// ...` comment of a property declaration
+function getComment(symbol) {
+	const declaration = symbol.declarations && symbol.declarations[0];
+	if (!declaration) {
+		return undefined;
+	}
+	const text = declaration.getSourceFile().getFullText();
+	const ranges = ts.getTrailingCommentRanges(text, declaration.end) || [];
+	const range = ranges.find(r => r.kind === ts.SyntaxKind.SingleLineCommentTrivia);
+	return range ? text.slice(range.pos + 2, range.end).trim() : undefined;
+}
+
+function getDefault(comment) {
+	const match = comment && comment.match(/^Default: (.+?)(?: - |$)/);
+	if (!match) {
+		return undefined;
+	}
+	try {
+		return JSON.parse(match[1].replace(/^'(.*)'$/, '"$1"'));
+	}
+	catch {
+		// Described in words, e.g. "on for non-loopback hosts"
+		return undefined;
+	}
+}
+
+function primitiveName(type) {
+	if (type.flags & ts.TypeFlags.StringLike) {
+		return 'string';
+	}
+	if (type.flags & ts.TypeFlags.NumberLike) {
+		return 'number';
+	}
+	if (type.flags & ts.TypeFlags.BooleanLike) {
+		return 'boolean';
+	}
+	return undefined;
+}
+
+function objectSchema(type) {
+	const properties = {};
+	const required = [];
+	for (const property of checker.getPropertiesOfType(type)) {
+		const propertyType = checker.getTypeOfSymbolAtLocation(property, sourceFile);
+		const schema = { ...typeToSchema(propertyType) };
+		const comment = getComment(property);
+		if (comment) {
+			schema.description = comment;
+			const value = getDefault(comment);
+			if (value !== undefined) {
+				schema.default = value;
+			}
+		}
+		properties[property.name] = schema;
+		if (!(property.flags & ts.SymbolFlags.Optional)) {
+			required.push(property.name);
+		}
+	}
+	return {
+		type: 'object',
+		properties,
+		...(required.length > 0 ? { required } : {}),
+		additionalProperties: false,
+	};
+}
+
+function typeToSchema(type) {
+	if (type.isUnion()) {
+		const members = type.types.filter(member => !(member.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Null)));
+		if (members.length === 1) {
+			return typeToSchema(members[0]);
+		}
+		if (members.every(member => member.isStringLiteral())) {
+			return { type: 'string', enum: members.map(member => member.value) };
+		}
+		const names = [...new Set(members.map(primitiveName))];
+		if (!names.includes(undefined)) {
+			return { type: names.length === 1 ? names[0] : names };
+		}
+		return { anyOf: members.map(typeToSchema) };
+	}
+	if (type.isStringLiteral()) {
+		return { type: 'string', enum: [type.value] };
+	}
+	if (primitiveName(type)) {
+		return { type: primitiveName(type) };
+	}
+	if (checker.isArrayType(type)) {
+		return { type: 'array', items: typeToSchema(checker.getTypeArguments(type)[0]) };
+	}
+
+	const indexInfo = checker.getIndexInfoOfType(type, ts.IndexKind.String);
+	if (indexInfo && checker.getPropertiesOfType(type).length === 0) {
+		return { type: 'object', additionalProperties: typeToSchema(indexInfo.type) };
+	}
+
+	// Named interfaces and aliases become shared definitions
+	const name = (type.aliasSymbol || type.symbol || {}).name;
+	if (name && name !== '__type' && name !== '__object') {
+		if (!definitions[name]) {
+			// Placeholder first, in case the type refers to itself
+			definitions[name] = {};
+			definitions[name] = objectSchema(type);
+		}
+		return { $ref: `#/definitions/${name}` };
+	}
+	return objectSchema(type);
+}
+
+const sandboxConfig = sourceFile.statements.find(statement => ts.isInterfaceDeclaration(statement) && statement.name.text === 'SandboxConfig');
+if (!sandboxConfig) {
+	console.error('SandboxConfig not found in src/types.ts');
+	process.exit(1);
+}
+
+const root = objectSchema(checker.getTypeAtLocation(sandboxConfig));
+const schema = {
+	$schema: 'http://json-schema.org/draft-07/schema#',
+	$id: schemaUrl,
+	title: 'claude-run configuration',
+	description: 'claude-run.config, claude-run.config.local and ~/.config/claude-run/config, as JSON, JSONC, YAML or TOML',
+	type: 'object',
+	properties: {
+		$schema: { type: 'string', description: 'JSON Schema used by editors to check this file' },
+		...root.properties,
+	},
+	additionalProperties: false,
+	definitions: Object.fromEntries(Object.entries(definitions).sort(([a], [b]) => a.localeCompare(b))),
+};
+
+const output = `${JSON.stringify(schema, null, '\t')}\n`;
+if (process.argv.includes('--check')) {
+	const current = fs.existsSync(schemaPath) ? fs.readFileSync(schemaPath, 'utf-8') : '';
+	if (current !== output) {
+		console.error('schema/config.schema.json is out of date, run: npm run schema');
+		process.exit(1);
+	}
+	console.log('schema/config.schema.json is up to date');
+}
+else {
+	fs.mkdirSync(path.dirname(schemaPath), { recursive: true });
+	fs.writeFileSync(schemaPath, output);
+	console.log(`Wrote ${path.relative(process.cwd(), schemaPath)}`);
+}
@@ -0,0 +1,204 @@
+import type {
+	BatchFile,
+	BatchReport,
+	BatchTask,
+	BatchTaskResult,
+	CodeRunner,
+	SandboxConfig,
+} from './types';
+import fs from 'node:fs';
+import path from 'node:path';
+import chalk from 'chalk';
+import YAML from 'yaml';
+import { ClaudeSandbox } from './index';
+import { getRunner, isRunner } from './runners';
+
+export interface BatchOptions {
+	concurrency?: number;
+	outputDir: string;
+	keepContainers?: boolean;
+}
+
+interface ResolvedTask {
+	id: string;
+	prompt: string;
+	branch?: string;
+	runner: CodeRunner;
+}
+
+/**
+ * Load a batch task file. Both JSON and YAML are accepted, either as a plain
+ * list of tasks or as an object with a `tasks` list.
+ */
+export async function loadBatchFile(filePath: string): Promise<BatchFile> {
+	const fullPath = path.resolve(filePath);
+	const content = await fs.promises.readFile(fullPath, 'utf-8');
+	const ext = path.extname(fullPath).toLowerCase();
+
+	let data: any;
+	try {
+		data = ext === '.json' ? JSON.parse(content) : YAML.parse(content);
+	}
+	catch (error: any) {
+		throw new Error(`Failed to parse task file ${filePath}: ${error.message}`);
+	}
+
+	const batch: BatchFile = Array.isArray(data) ? { tasks: data } : data;
+	if (!batch || !Array.isArray(batch.tasks) || batch.tasks.length === 0) {
+		throw new Error(`Task file ${filePath} does not contain any tasks`);
+	}
+
+	// Resolve prompt files relative to the task file
+	const baseDir = path.dirname(fullPath);
+	for (const task of batch.tasks) {
+		if (task.promptFile) {
+			task.promptFile = path.resolve(baseDir, task.promptFile);
+		}
+	}
+
+	return batch;
+}
+
+export class BatchRunner {
+	private config: SandboxConfig;
+	private options: BatchOptions;
+
+	constructor(config: SandboxConfig, options: BatchOptions) {
+		this.config = config;
+		this.options = options;
+	}
+
+	async run(taskFile: string, batch: BatchFile): Promise<BatchReport> {
+		const tasks = this.resolveTasks(batch);
+		const concurrency = Math.max(
+			1,
+			Math.min(this.options.concurrency || batch.concurrency || 1, tasks.length),
+		);
+
+		await fs.promises.mkdir(this.options.outputDir, { recursive: true });
+
+		const report: BatchReport = {
+			taskFile: path.resolve(taskFile),
+			startedAt: new Date().toISOString(),
+			finishedAt: '',
+			concurrency,
+			tasks: [],
+		};
+
+		// Build or pull the image once up front instead of once per task
+		await new ClaudeSandbox(this.config).prepareImage();
+
+		console.log(chalk.blue(`• Running ${tasks.length} task(s) with concurrency ${concurrency}`));
+
+		const results: BatchTaskResult[] = Array.from({ length: tasks.length });
+		let next = 0;
+		const worker = async (): Promise<void> => {
+			while (next < tasks.length) {
+				const index = next++;
+				results[index] = await this.runTask(tasks[index]!);
+			}
+		};
+		await Promise.all(Array.from({ length: concurrency }, () => worker()));
+
+		report.tasks = results;
+		report.finishedAt = new Date().toISOString();
+		await fs.promises.writeFile(
+			path.join(this.options.outputDir, 'report.json'),
+			JSON.stringify(report, null, 2),
+		);
+
+		return report;
+	}
+
+	private resolveTasks(batch: BatchFile): ResolvedTask[] {
+		const seen = new Set<string>();
+
+		return batch.tasks.map((task: BatchTask, index) => {
+			const id = task.id || `task-${index + 1}`;
+			if (seen.has(id)) {
+				throw new Error(`Duplicate task id: ${id}`);
+			}
+			seen.add(id);
+
+			const prompt = task.promptFile
+				? fs.readFileSync(task.promptFile, 'utf-8')
+				: task.prompt;
+			if (!prompt || !prompt.trim()) {
+				throw new Error(`Task ${id} has no prompt`);
+			}
+
+			const runner = task.runner || batch.runner || this.config.codeRunner || 'claude';
+			if (!isRunner(runner)) {
+				throw new Error(`Task ${id} uses an invalid code runner: ${runner}`);
+			}
+
+			return { id, prompt, branch: task.branch, runner };
+		});
+	}
+
+	private async runTask(task: ResolvedTask): Promise<BatchTaskResult> {
+		const logFile = path.join(this.options.outputDir, `${task.id.replace(/[^\w.-]/g, '-')}.log`);
+		const log = fs.createWriteStream(logFile);
+		// A log that cannot be written must not take the other tasks down
+		log.on('error', (error) => {
+			console.error(chalk.yellow(`⚠ [${task.id}] Could not write ${logFile}: ${error.message}`));
+		});
+		const startTime = Date.now();
+		const result: BatchTaskResult = {
+			id: task.id,
+			status: 'failed',
+			runner: task.runner,
+			branchName: task.branch,
+			commits: 0,
+			logFile,
+			durationMs: 0,
+		};
+
+		console.log(chalk.blue(`• [${task.id}] Starting (${getRunner(task.runner).displayName})`));
+
+		try {
+			const sandbox = new ClaudeSandbox({
+				...this.config,
+				codeRunner: task.runner,
+				defaultShell: task.runner,
+				targetBranch: task.branch,
+				taskId: task.id,
+				skipReconnectCheck: true,
+			});
+			const execResult = await sandbox.exec(task.prompt, {
+				output: log,
+				keepContainer: this.options.keepContainers,
+			});
+
+			result.branchName = execResult.branchName;
+			result.containerId = execResult.containerId;
+			result.exitCode = execResult.exitCode;
+			result.summary = execResult.summary;
+			result.commits = execResult.commits;
+			result.shadowPath = execResult.shadowPath;
+
+			if (execResult.exitCode !== 0) {
+				result.error = execResult.syncError || `Runner exited with code ${execResult.exitCode}`;
+			}
+			else {
+				result.status = execResult.hasChanges || execResult.commits > 0 ? 'changes' : 'no-changes';
+			}
+		}
+		catch (error: any) {
+			result.error = error.message;
+		}
+		finally {
+			result.durationMs = Date.now() - startTime;
+			await new Promise<void>(resolve => log.end(() => resolve()));
+		}
+
+		if (result.status === 'failed') {
+			console.log(chalk.red(`✗ [${task.id}] Failed: ${result.error}`));
+		}
+		else {
+			console.log(chalk.green(`✓ [${task.id}] Finished: ${result.status === 'changes' ? 'changes' : 'no changes'}`));
+		}
+
+		return result;
+	}
+}
@@ -1,6 +1,11 @@
 #!/usr/bin/env node
-import type { CodeRunner } from './types';
+import type { Ora } from 'ora';
+import type { ResolvedConfig } from './config';
+import type { ConfigIssue } from './config-schema';
+import type { ResourceUsage } from './resources';
+import type { CodeRunner, SandboxConfig } from './types';
 import { execSync } from 'node:child_process';
+import fs from 'node:fs';
 import https from 'node:https';
 import path from 'node:path';
 import process from 'node:process';
@@ -9,11 +14,25 @@ import { Command } from 'commander';
 import Docker from 'dockerode';
 import inquirer from 'inquirer';
 import ora from 'ora';
-import { loadConfig } from './config';
+import { BatchRunner, loadBatchFile } from './batch';
+import { checkConfigFile, getConfigFiles, loadConfig, resolveConfig } from './config';
+import { serializeConfig } from './config-format';
+import { ConfigError, formatConfigIssue } from './config-schema';
+import { removeSyncManifest, syncConfigBack } from './config-sync';
+import { PROFILE_LABEL } from './container';
+import { Daemon, DAEMON_LOG, DAEMON_WEB_UI_ENV, isDaemonRunning, sendDaemonRequest } from './daemon';
 import { getContainerRuntimeCmd, getDockerConfig, isPodman } from './docker-config';
+import { printDoctorReport, runDoctor } from './doctor';
+import { publishSession } from './git/publish';
 import { ClaudeSandbox } from './index';
-import { CODE_RUNNERS } from './types';
-import { WebUIServer } from './web-server';
+import { runInitWizard } from './init';
+import { EGRESS_LABEL, pruneEgressGateways, removeEgressGateway } from './network';
+import { findRecording, listRecordings, readRecording, replayRecording } from './recording';
+import { formatResourceUsage, getResourceUsage } from './resources';
+import { findRunnerByAlias, getRunner, isRunner, listRunners } from './runners';
+import { findExpiredSessions, reapSession } from './session-limits';
+import { SessionStore } from './session-store';
+import { openInBrowser, WebUIServer } from './web-server';
 
 // Package info - injected at build time
 const currentVersion = '__PACKAGE_VERSION__';
@@ -105,10 +124,37 @@ function reinitializeDocker(socketPath?: string) {
 	}
 }
 
+// Print each config value with the layers that set it, for `config --explain`
+function printConfigExplanation({ config, layers, origins }: ResolvedConfig): void {
+	console.log(chalk.blue('Configuration layers (lowest to highest precedence):'));
+	for (const layer of layers) {
+		console.log(`  ${layer.name.padEnd(8)} ${chalk.gray(layer.source || '')}`);
+	}
+	console.log('');
+
+	const keys = Object.keys(origins);
+	const width = Math.max(...keys.map(key => key.length));
+	for (const key of keys) {
+		const value = key.split('.').reduce<any>((object, part) => object?.[part], config);
+		let text = JSON.stringify(value) ?? 'undefined';
+		if (text.length > 60) {
+			text = `${text.substring(0, 57)}...`;
+		}
+		console.log(`  ${key.padEnd(width)}  ${text}  ${chalk.gray(origins[key].join(' + '))}`);
+	}
+}
+
+function printConfigIssues(filePath: string, issues: ConfigIssue[]): void {
+	for (const issue of issues) {
+		const text = formatConfigIssue(filePath, issue);
+		console.error(issue.severity === 'error' ? chalk.red(`  ✗ ${text}`) : chalk.yellow(`  ⚠ ${text}`));
+	}
+}
+
 // Helper to ensure Docker is initialized with config
 async function ensureDockerConfig() {
 	try {
-		const config = await loadConfig('./claude-run.config.json');
+		const config = await loadConfig();
 		reinitializeDocker(config.dockerSocketPath);
 	}
 	catch (error) {
@@ -135,6 +181,42 @@ async function getClaudeSandboxContainers(containerPrefixes?: Set<string>) {
 	);
 }
 
+// Helper to stop running containers whose session is past maxSessionDuration
+// or maxIdleDuration. Their changes are synced into the shadow repository first.
+async function reapExpiredSessions(containers: Docker.ContainerInfo[], spinner: Ora): Promise<Set<string>> {
+	const store = new SessionStore();
+	const daemonRunning = await isDaemonRunning();
+	const reaped = new Set<string>();
+
+	for (const session of await findExpiredSessions(containers, store)) {
+		const { containerId, record } = session;
+		spinner.text = `Syncing expired session ${containerId.substring(0, 12)}...`;
+		const expiry = await reapSession(docker, session, {
+			containerRuntime: getContainerRuntimeCmd(),
+			store,
+			beforeStop: async () => {
+				if (record?.detached && daemonRunning) {
+					// Let the daemon end its session without discarding the shadow repo
+					await sendDaemonRequest('stop', { containerId }).catch(() => {});
+				}
+				spinner.stop();
+			},
+		});
+		if (expiry.finalSync === 'ok') {
+			console.log(chalk.gray(`  Changes kept in ${record!.shadowPath}`));
+		}
+		spinner.start();
+		reaped.add(containerId);
+	}
+	return reaped;
+}
+
+// Helper to drop session records (and shadow repos) of removed containers
+async function pruneSessions(): Promise<number> {
+	const containers = await docker.listContainers({ all: true });
+	return new SessionStore().prune(containers.map(c => c.Id));
+}
+
 // Helper function to select a container interactively
 async function selectContainer(containers: any[]): Promise<string | null> {
 	if (containers.length === 0) {
@@ -163,89 +245,90 @@ async function selectContainer(containers: any[]): Promise<string | null> {
 program
 	.name('claude-run')
 	.description('Run Claude Code, OpenCode, Codex, Kimi Code, or Qwen Code in isolated Docker containers')
-	.version(currentVersion, '-v, --version', 'Display version number');
+	.version(currentVersion, '-v, --version', 'Display version number')
+	// Options after a subcommand belong to it, e.g. `start --profile ci` is not the default command's --profile
+	.enablePositionalOptions();
 
 // Check for updates before running any command
 program.hook('preAction', async () => {
 	await checkForUpdates();
 });
 
-// Helper to detect runner from command name
+// Helper to detect runner from command name, e.g. `cxrun` or a plugin runner's alias
 function getRunnerFromCommandName(): CodeRunner | undefined {
-	const commandName = path.basename(process.argv[1] || '');
-	// OpenCode aliases
-	if (commandName === 'ocrun' || commandName === 'opencoderun' || commandName === 'opencode-run') {
-		return 'opencode';
-	}
-	// Codex aliases
-	if (commandName === 'cxrun' || commandName === 'codexrun' || commandName === 'codex-run') {
-		return 'codex';
-	}
-	// Kimi Code aliases
-	if (commandName === 'kmrun' || commandName === 'kimirun' || commandName === 'kimi-run') {
-		return 'kimi';
-	}
-	// Qwen Code aliases
-	if (commandName === 'qwrun' || commandName === 'qwenrun' || commandName === 'qwen-run') {
-		return 'qwen';
-	}
-	// Claude aliases (claude-run, ccrun, clauderun) - return undefined to use config default
-	return undefined;
+	return findRunnerByAlias(path.basename(process.argv[1] || ''));
 }
 
-// All valid code runner names
-const VALID_RUNNERS = ['claude', 'opencode', 'codex', 'kimi', 'qwen'] as const;
-
-// Helper to validate and get code runner
-function validateCodeRunner(runner: string | undefined): CodeRunner | undefined {
+// Helper to validate a --runner (or, with allowBash, --shell) value. Call it
+// after loadConfig so that runners defined in the config file are known.
+function validateCodeRunner(runner: string | undefined, allowBash = false): CodeRunner | undefined {
 	if (!runner)
 		return undefined;
 	const lowerRunner = runner.toLowerCase();
-	if (VALID_RUNNERS.includes(lowerRunner as any)) {
-		return lowerRunner as CodeRunner;
+	if (isRunner(lowerRunner) || (allowBash && lowerRunner === 'bash')) {
+		return lowerRunner;
 	}
-	console.error(chalk.red(`Invalid code runner: ${runner}. Valid options are: ${VALID_RUNNERS.join(', ')}`));
+	const validOptions = listRunners().map(r => r.name).concat(allowBash ? ['bash'] : []);
+	console.error(chalk.red(`Invalid ${allowBash ? 'shell' : 'code runner'}: ${runner}. Valid options are: ${validOptions.join(', ')}`));
 	process.exit(1);
 }
 
+// Config overrides for --host/--tls-cert/--tls-key, merged into the webUI section
+function getWebUIOverrides(options: any): SandboxConfig {
+	return {
+		webUI: {
+			host: options.host,
+			tlsCert: options.tlsCert && path.resolve(options.tlsCert),
+			tlsKey: options.tlsKey && path.resolve(options.tlsKey),
+		},
+	};
+}
+
 // Default command (always web UI)
 program
 	.option(
 		'--shell <shell>',
-		'Start with \'claude\', \'opencode\', \'codex\', \'kimi\', \'qwen\', or \'bash\' shell',
-		/^(claude|opencode|codex|kimi|qwen|bash)$/i,
+		'Start with a code runner\'s shell (e.g. \'claude\' or \'codex\') or \'bash\'',
 	)
 	.option(
 		'--runner <runner>',
-		'Code runner to use: \'claude\', \'opencode\', \'codex\', \'kimi\', or \'qwen\' (overrides config)',
+		'Code runner to use: \'claude\', \'opencode\', \'codex\', \'kimi\', \'qwen\', or a plugin runner (overrides config)',
 	)
+	.option('--profile <name>', 'Apply a profile from the config (overrides defaultProfile)')
 	.option(
 		'--skip-reconnect-check',
 		'Skip checking for existing containers and always create a new one',
 		false,
 	)
+	.option('--host <host>', 'Interface the web UI listens on (e.g. 0.0.0.0 for LAN access, served over HTTPS)')
+	.option('--tls-cert <path>', 'TLS certificate (PEM) for the web UI')
+	.option('--tls-key <path>', 'TLS private key (PEM) for the web UI')
 	.action(async (options) => {
+		const config = await loadConfig(undefined, {
+			...getWebUIOverrides(options),
+			skipReconnectCheck: options.skipReconnectCheck || undefined,
+			profile: options.profile,
+		});
+		config.includeUntracked = false;
+
 		// Priority: CLI flag > config file > command name default
 		const cliRunner = validateCodeRunner(options.runner);
 		const commandRunner = getRunnerFromCommandName();
 
-		const config = await loadConfig('./claude-run.config.json');
-		config.includeUntracked = false;
-
 		// Apply runner priority: CLI > command name > config file
 		const finalRunner = cliRunner || commandRunner || config.codeRunner || 'claude';
 		config.codeRunner = finalRunner;
-		config.defaultShell = options.shell?.toLowerCase() || finalRunner;
+		config.defaultShell = validateCodeRunner(options.shell, true) || finalRunner;
 
-		if (options.skipReconnectCheck) {
-			config.skipReconnectCheck = true;
-		}
-
-		const runnerConfig = CODE_RUNNERS[finalRunner];
+		const runnerConfig = getRunner(finalRunner);
 		console.log(chalk.blue(`🚀 Starting ${runnerConfig.displayName} Runner...`));
 
 		const sandbox = new ClaudeSandbox(config);
 		await sandbox.run();
+
+		if (config.detached) {
+			process.exit(0);
+		}
 	});
 
 // Start command - explicitly start a new container
@@ -254,11 +337,12 @@ program
 	.description('Start a new Claude/OpenCode Runner container')
 	.option(
 		'-c, --config <path>',
-		'Configuration file',
-		'./claude-run.config.json',
+		'Project configuration file (default: claude-run.config.json, .yaml or .toml at the repository root)',
 	)
 	.option('-n, --name <name>', 'Container name prefix')
+	.option('--push', 'Push the branch automatically (overrides autoPush)')
 	.option('--no-push', 'Disable automatic branch pushing')
+	.option('--create-pr', 'Open a pull request automatically (overrides autoCreatePR)')
 	.option('--no-create-pr', 'Disable automatic PR creation')
 	.option(
 		'--include-untracked',
@@ -272,56 +356,237 @@ program
 		'--remote-branch <branch>',
 		'Checkout a remote branch (e.g., origin/feature-branch)',
 	)
-	.option('--pr <number>', 'Checkout a specific PR by number')
+	.option('--pr <number>', 'Checkout a specific pull or merge request by number')
 	.option(
 		'--shell <shell>',
-		'Start with \'claude\', \'opencode\', \'codex\', \'kimi\', \'qwen\', or \'bash\' shell',
-		/^(claude|opencode|codex|kimi|qwen|bash)$/i,
+		'Start with a code runner\'s shell (e.g. \'claude\' or \'codex\') or \'bash\'',
 	)
 	.option(
 		'--runner <runner>',
-		'Code runner to use: \'claude\', \'opencode\', \'codex\', \'kimi\', or \'qwen\' (overrides config)',
+		'Code runner to use: \'claude\', \'opencode\', \'codex\', \'kimi\', \'qwen\', or a plugin runner (overrides config)',
 	)
+	.option('--profile <name>', 'Apply a profile from the config (overrides defaultProfile)')
 	.option(
 		'--skip-reconnect-check',
 		'Skip checking for existing containers and always create a new one',
 		false,
 	)
+	.option('-d, --detach', 'Hand the session to the background daemon and return immediately')
+	.option('--host <host>', 'Interface the web UI listens on (e.g. 0.0.0.0 for LAN access, served over HTTPS)')
+	.option('--tls-cert <path>', 'TLS certificate (PEM) for the web UI')
+	.option('--tls-key <path>', 'TLS private key (PEM) for the web UI')
 	.action(async (options) => {
+		const config = await loadConfig(options.config, {
+			...getWebUIOverrides(options),
+			profile: options.profile,
+			detached: options.detach,
+			containerPrefix: options.name,
+			autoPush: options.push,
+			autoCreatePR: options.createPr,
+			includeUntracked: options.includeUntracked,
+			targetBranch: options.branch,
+			remoteBranch: options.remoteBranch,
+			prNumber: options.pr,
+			skipReconnectCheck: options.skipReconnectCheck || undefined,
+		});
+
 		// Priority: CLI flag > config file > command name default
 		const cliRunner = validateCodeRunner(options.runner);
 		const commandRunner = getRunnerFromCommandName();
 
-		const config = await loadConfig(options.config);
-		config.containerPrefix = options.name || config.containerPrefix;
-		config.autoPush = options.push !== false;
-		config.autoCreatePR = options.createPr !== false;
-		config.includeUntracked = options.includeUntracked || false;
-		config.targetBranch = options.branch;
-		config.remoteBranch = options.remoteBranch;
-		config.prNumber = options.pr;
-
 		// Apply runner priority: CLI > command name > config file
 		const finalRunner = cliRunner || commandRunner || config.codeRunner || 'claude';
 		config.codeRunner = finalRunner;
-		config.defaultShell = options.shell?.toLowerCase() || finalRunner;
-
-		if (options.skipReconnectCheck) {
-			config.skipReconnectCheck = true;
-		}
+		config.defaultShell = validateCodeRunner(options.shell, true) || finalRunner;
 
-		const runnerConfig = CODE_RUNNERS[finalRunner];
+		const runnerConfig = getRunner(finalRunner);
 		console.log(chalk.blue(`🚀 Starting new ${runnerConfig.displayName} Runner container...`));
 
 		const sandbox = new ClaudeSandbox(config);
 		await sandbox.run();
+
+		if (config.detached) {
+			process.exit(0);
+		}
+	});
+
+// Exec command - run a single prompt headlessly and exit
+program
+	.command('exec')
+	.description('Run a prompt non-interactively in a new container and exit with the runner\'s status code')
+	.option('-p, --prompt <text>', 'Prompt to send to the code runner')
+	.option('-f, --prompt-file <path>', 'Read the prompt from a file (use \'-\' for stdin)')
+	.option(
+		'-c, --config <path>',
+		'Project configuration file (default: claude-run.config.json, .yaml or .toml at the repository root)',
+	)
+	.option(
+		'--runner <runner>',
+		'Code runner to use: \'claude\', \'opencode\', \'codex\', \'kimi\', \'qwen\', or a plugin runner (overrides config)',
+	)
+	.option(
+		'-b, --branch <branch>',
+		'Branch to create in the container',
+	)
+	.option(
+		'--include-untracked',
+		'Include untracked files when copying to container',
+	)
+	.option('--patch <path>', 'Write the resulting changes to a patch file')
+	.option('--profile <name>', 'Apply a profile from the config (overrides defaultProfile)')
+	.option('--keep', 'Keep the container after the run finishes')
+	.action(async (options) => {
+		let prompt: string | undefined = options.prompt;
+		if (options.promptFile) {
+			prompt = options.promptFile === '-'
+				? fs.readFileSync(0, 'utf-8')
+				: fs.readFileSync(path.resolve(options.promptFile), 'utf-8');
+		}
+		if (!prompt || !prompt.trim()) {
+			console.error(chalk.red('A prompt is required: use --prompt or --prompt-file'));
+			process.exit(2);
+		}
+
+		const config = await loadConfig(options.config, {
+			includeUntracked: options.includeUntracked,
+			targetBranch: options.branch,
+			skipReconnectCheck: true,
+			profile: options.profile,
+		});
+		const cliRunner = validateCodeRunner(options.runner);
+		const commandRunner = getRunnerFromCommandName();
+		config.codeRunner = cliRunner || commandRunner || config.codeRunner || 'claude';
+		config.defaultShell = config.codeRunner;
+
+		try {
+			const sandbox = new ClaudeSandbox(config);
+			const result = await sandbox.exec(prompt, {
+				keepContainer: options.keep,
+				patchFile: options.patch,
+			});
+
+			console.log('');
+			console.log(chalk.blue(`Branch: ${result.branchName}`));
+			console.log(chalk.blue(`Changes: ${result.hasChanges ? result.summary : 'none'}`));
+			if (result.hasChanges) {
+				console.log(chalk.blue(`Shadow repository: ${result.shadowPath}`));
+			}
+			if (options.keep) {
+				console.log(chalk.blue(`Container kept: ${result.containerId.substring(0, 12)}`));
+			}
+
+			process.exit(result.exitCode);
+		}
+		catch (error: any) {
+			console.error(chalk.red(`Exec failed: ${error.message}`));
+			process.exit(1);
+		}
+	});
+
+// Batch command - run a list of prompts across several containers
+program
+	.command('batch <task-file>')
+	.description('Run every task in a JSON/YAML task file in its own container')
+	.option(
+		'-c, --config <path>',
+		'Project configuration file (default: claude-run.config.json, .yaml or .toml at the repository root)',
+	)
+	.option('-j, --concurrency <n>', 'Number of tasks to run at the same time (overrides task file)')
+	.option('-o, --output <dir>', 'Directory for task logs and the summary report')
+	.option(
+		'--include-untracked',
+		'Include untracked files when copying to containers',
+	)
+	.option('--profile <name>', 'Apply a profile from the config (overrides defaultProfile)')
+	.option('--keep', 'Keep containers after their tasks finish')
+	.action(async (taskFile, options) => {
+		const concurrency = options.concurrency ? Number.parseInt(options.concurrency, 10) : undefined;
+		if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+			console.error(chalk.red(`Invalid concurrency: ${options.concurrency}`));
+			process.exit(2);
+		}
+
+		const config = await loadConfig(options.config, {
+			includeUntracked: options.includeUntracked,
+			profile: options.profile,
+		});
+		const commandRunner = getRunnerFromCommandName();
+		config.codeRunner = commandRunner || config.codeRunner || 'claude';
+
+		const outputDir = path.resolve(
+			options.output || `claude-run-batch-${new Date().toISOString().replace(/[:.]/g, '-')}`,
+		);
+
+		try {
+			const batch = await loadBatchFile(taskFile);
+			const runner = new BatchRunner(config, {
+				concurrency,
+				outputDir,
+				keepContainers: options.keep,
+			});
+			const report = await runner.run(taskFile, batch);
+
+			console.log('');
+			console.log(chalk.blue('Batch summary:'));
+			for (const task of report.tasks) {
+				const status = task.status === 'failed'
+					? chalk.red('failed')
+					: task.status === 'changes'
+						? chalk.green('changes')
+						: chalk.gray('no changes');
+				console.log(`  ${chalk.cyan(task.id)} ${status}${task.branchName ? chalk.gray(` (${task.branchName})`) : ''}`);
+				if (task.status === 'failed') {
+					console.log(chalk.red(`    ${task.error}`));
+				}
+				else if (task.status === 'changes') {
+					if (task.commits > 0) {
+						console.log(chalk.gray(`    ${task.commits} commit(s)`));
+					}
+					if (task.summary) {
+						console.log(chalk.gray(`    ${task.summary}`));
+					}
+				}
+			}
+			console.log('');
+			console.log(chalk.blue(`Report: ${path.join(outputDir, 'report.json')}`));
+
+			process.exit(report.tasks.some(task => task.status === 'failed') ? 1 : 0);
+		}
+		catch (error: any) {
+			console.error(chalk.red(`Batch failed: ${error.message}`));
+			process.exit(1);
+		}
+	});
+
+// Daemon command - background process used by `start --detach`
+program
+	.command('daemon', { hidden: true })
+	.description('Run the background daemon that owns detached sessions')
+	.option('--docker-socket <path>', 'Docker/Podman socket to use')
+	.action(async (options) => {
+		reinitializeDocker(options.dockerSocket);
+
+		try {
+			const webUI = JSON.parse(process.env[DAEMON_WEB_UI_ENV] || '{}');
+			delete process.env[DAEMON_WEB_UI_ENV];
+			const daemon = new Daemon(docker, containerRuntime, webUI);
+			await daemon.start();
+		}
+		catch (error: any) {
+			console.error(chalk.red(`Daemon failed: ${error.message}`));
+			console.error(chalk.gray(`See ${DAEMON_LOG}`));
+			process.exit(1);
+		}
 	});
 
 // Attach command - attach to existing container
 program
 	.command('attach [container-id]')
 	.description('Attach to an existing Claude Runner container')
-	.action(async (containerId) => {
+	.option('--host <host>', 'Interface the web UI listens on (e.g. 0.0.0.0 for LAN access, served over HTTPS)')
+	.option('--tls-cert <path>', 'TLS certificate (PEM) for the web UI')
+	.option('--tls-key <path>', 'TLS private key (PEM) for the web UI')
+	.action(async (containerId, options) => {
 		await ensureDockerConfig();
 		const spinner = ora('Looking for containers...').start();
 
@@ -340,14 +605,37 @@ program
 				}
 			}
 
+			// Let the daemon own the session when it is running
+			if (await isDaemonRunning()) {
+				const { url, viewerUrl } = await sendDaemonRequest<{ url: string; viewerUrl?: string }>('attach', { containerId: targetContainerId });
+				spinner.succeed(chalk.green(`Web UI available at: ${url}`));
+				if (viewerUrl) {
+					console.log(chalk.gray(`  Read-only viewer link: ${viewerUrl}`));
+				}
+				await openInBrowser(url);
+				process.exit(0);
+			}
+
+			// Show the recorded session; the web UI restores its shadow repo
+			const session = await new SessionStore().get(targetContainerId);
+			if (session) {
+				spinner.info(`Restoring session: ${session.repoPath} (${session.branch})`);
+				spinner.start();
+			}
+
 			spinner.text = 'Launching web UI...';
 
 			// Always launch web UI
-			const webServer = new WebUIServer(docker, containerRuntime);
-			const url = await webServer.start();
-			const fullUrl = `${url}?container=${targetContainerId}`;
+			const config = await loadConfig(undefined, getWebUIOverrides(options));
+			const webServer = new WebUIServer(docker, containerRuntime, config.webUI);
+			await webServer.start();
+			const fullUrl = webServer.getUrl('/', { container: targetContainerId });
 
 			spinner.succeed(chalk.green(`Web UI available at: ${fullUrl}`));
+			const viewerUrl = webServer.getViewerUrl(targetContainerId);
+			if (viewerUrl) {
+				console.log(chalk.gray(`  Read-only viewer link: ${viewerUrl}`));
+			}
 			await webServer.openInBrowser(fullUrl);
 
 			console.log(
@@ -369,6 +657,7 @@ program
 	.alias('ls')
 	.description('List all Claude Runner containers')
 	.option('-a, --all', 'Show all containers (including stopped)')
+	.option('--no-stats', 'Skip live resource usage')
 	.action(async (options) => {
 		await ensureDockerConfig();
 		const spinner = ora('Fetching containers...').start();
@@ -379,6 +668,33 @@ program
 				c.Names.some(name => name.includes('claude-code-runner')),
 			);
 
+			// Sessions owned by the background daemon
+			let daemonUrl = '';
+			const daemonSessions = new Set<string>();
+			if (await isDaemonRunning()) {
+				const daemonList = await sendDaemonRequest<{ url: string; sessions: { containerId: string }[] }>('list');
+				daemonUrl = daemonList.url;
+				for (const session of daemonList.sessions) {
+					daemonSessions.add(session.containerId);
+				}
+			}
+
+			// Sampling takes about a second per container, so do them together
+			const usage = new Map<string, ResourceUsage>();
+			if (options.stats) {
+				spinner.text = 'Sampling resource usage...';
+				await Promise.all(claudeContainers
+					.filter(c => c.State === 'running')
+					.map(async (c) => {
+						try {
+							usage.set(c.Id, await getResourceUsage(docker, c.Id));
+						}
+						catch {
+							// Stats are best effort
+						}
+					}));
+			}
+
 			spinner.stop();
 
 			if (claudeContainers.length === 0) {
@@ -398,9 +714,23 @@ program
 				const state
 					= c.State === 'running' ? chalk.green(c.State) : chalk.gray(c.State);
 				const status = c.Status;
+				const daemon = daemonSessions.has(c.Id) ? chalk.magenta(' [daemon]') : '';
+				const profile = c.Labels?.[PROFILE_LABEL] ? chalk.blue(` [profile: ${c.Labels[PROFILE_LABEL]}]`) : '';
+
+				console.log(`${chalk.cyan(id)} - ${name} - ${state} - ${status}${profile}${daemon}`);
 
-				console.log(`${chalk.cyan(id)} - ${name} - ${state} - ${status}`);
+				const containerUsage = usage.get(c.Id);
+				if (containerUsage) {
+					console.log(chalk.gray(`  ${formatResourceUsage(containerUsage)}`));
+					for (const warning of containerUsage.warnings) {
+						console.log(chalk.yellow(`  ⚠ ${warning}`));
+					}
+				}
 			});
+
+			if (daemonUrl) {
+				console.log(chalk.gray(`\nDaemon web UI: ${daemonUrl}`));
+			}
 		}
 		catch (error: any) {
 			spinner.fail(chalk.red(`Failed: ${error.message}`));
@@ -408,16 +738,76 @@ program
 		}
 	});
 
+// Dashboard command - overview of all sessions in the web UI
+program
+	.command('dashboard')
+	.description('Open the web dashboard showing all Claude Runner sessions')
+	.option('--host <host>', 'Interface the web UI listens on (e.g. 0.0.0.0 for LAN access, served over HTTPS)')
+	.option('--tls-cert <path>', 'TLS certificate (PEM) for the web UI')
+	.option('--tls-key <path>', 'TLS private key (PEM) for the web UI')
+	.action(async (options) => {
+		await ensureDockerConfig();
+
+		try {
+			// Reuse the daemon's web UI when it is running
+			if (await isDaemonRunning()) {
+				const { url } = await sendDaemonRequest<{ url: string }>('ping');
+				console.log(chalk.green(`✓ Dashboard available at: ${url}`));
+				await openInBrowser(url);
+				process.exit(0);
+			}
+
+			const config = await loadConfig(undefined, getWebUIOverrides(options));
+			const webServer = new WebUIServer(docker, containerRuntime, config.webUI);
+			await webServer.start();
+			const dashboardUrl = webServer.getUrl('/dashboard');
+			console.log(chalk.green(`✓ Dashboard available at: ${dashboardUrl}`));
+			await webServer.openInBrowser(dashboardUrl);
+			console.log(chalk.yellow('Keep this terminal open to maintain the sessions opened from the dashboard'));
+
+			// Keep process running
+			await new Promise(() => {});
+		}
+		catch (error: any) {
+			console.error(chalk.red(`Failed: ${error.message}`));
+			process.exit(1);
+		}
+	});
+
 // Stop command - stop Claude Runner containers
 program
 	.command('stop [container-id]')
 	.description('Stop Claude Runner container(s)')
 	.option('-a, --all', 'Stop all Claude Runner containers')
+	.option('--daemon', 'Shut down the background daemon (containers keep running)')
 	.action(async (containerId, options) => {
 		await ensureDockerConfig();
 		const spinner = ora('Stopping containers...').start();
 
 		try {
+			const daemonRunning = await isDaemonRunning();
+
+			// Stop through the daemon so it releases the session first
+			const stopContainer = async (id: string) => {
+				if (daemonRunning) {
+					await sendDaemonRequest('stop', { containerId: id });
+				}
+				else {
+					await publishSession(containerRuntime, await new SessionStore().get(id), 'session-end');
+					await docker.getContainer(id).stop();
+				}
+			};
+
+			if (options.daemon) {
+				if (!daemonRunning) {
+					spinner.info('The daemon is not running.');
+					return;
+				}
+				const { pid } = await sendDaemonRequest<{ pid: number }>('shutdown');
+				spinner.succeed(`Stopped daemon (pid ${pid})`);
+				return;
+			}
+
 			if (options.all) {
 				// Stop all Claude Runner containers
 				const containers = await getClaudeSandboxContainers();
@@ -431,8 +821,7 @@ program
 				}
 
 				for (const c of runningContainers) {
-					const container = docker.getContainer(c.Id);
-					await container.stop();
+					await stopContainer(c.Id);
 					spinner.text = `Stopped ${c.Id.substring(0, 12)}`;
 				}
 
@@ -457,8 +846,7 @@ program
 					spinner.start();
 				}
 
-				const container = docker.getContainer(targetContainerId);
-				await container.stop();
+				await stopContainer(targetContainerId);
 				spinner.succeed(
 					`Stopped container ${targetContainerId.substring(0, 12)}`,
 				);
@@ -491,6 +879,24 @@ program
 				}
 			}
 
+			// Sessions owned by the daemon: show the terminal output it captured
+			if (await isDaemonRunning()) {
+				try {
+					await sendDaemonRequest(
+						'logs',
+						{ containerId: targetContainerId, tail: options.tail, follow: options.follow },
+						message => process.stdout.write(message.data || ''),
+					);
+					process.stdout.write('\n');
+					return;
+				}
+				catch (error: any) {
+					if (!error.message.includes('not managed by the daemon')) {
+						throw error;
+					}
+				}
+			}
+
 			const container = docker.getContainer(targetContainerId);
 			const logStream = await container.logs({
 				stdout: true,
@@ -512,18 +918,87 @@ program
 		}
 	});
 
+// Replay command - play back a recorded terminal session
+program
+	.command('replay [session]')
+	.description('Replay a recorded session (container ID, recording name or .cast file)')
+	.option('-s, --speed <factor>', 'Playback speed', '1')
+	.option('--max-idle <seconds>', 'Shorten pauses longer than this', '2')
+	.option('-l, --list', 'List recordings instead of playing one')
+	.action(async (session, options) => {
+		try {
+			const recordings = await listRecordings();
+
+			if (options.list) {
+				if (recordings.length === 0) {
+					console.log(chalk.yellow('No recordings found.'));
+					return;
+				}
+				for (const recording of recordings) {
+					const size = `${Math.ceil(recording.size / 1024)} KB`;
+					console.log(`${chalk.cyan(recording.name)}  ${chalk.gray(`${new Date(recording.startedAt).toLocaleString()}, ${size}`)}`);
+				}
+				return;
+			}
+
+			let file: string | undefined;
+			if (session) {
+				file = await findRecording(session);
+				if (!file) {
+					console.error(chalk.red(`No recording found for ${session}`));
+					process.exit(1);
+				}
+			}
+			else {
+				if (recordings.length === 0) {
+					console.log(chalk.yellow('No recordings found.'));
+					return;
+				}
+				const { selected } = await inquirer.prompt([
+					{
+						type: 'list',
+						name: 'selected',
+						message: 'Select a recording:',
+						choices: recordings.map(r => ({
+							name: `${r.name} - ${new Date(r.startedAt).toLocaleString()}`,
+							value: r.path,
+						})),
+					},
+				]);
+				file = selected as string;
+			}
+
+			const { header } = await readRecording(file);
+			const columns = process.stdout.columns || 0;
+			if (columns && columns < header.width) {
+				console.log(chalk.yellow(`⚠ Recorded at ${header.width} columns, your terminal has ${columns}`));
+			}
+			console.log(chalk.gray(`Replaying ${path.basename(file)}${header.title ? ` (${header.title})` : ''}... Press Ctrl+C to stop`));
+
+			await replayRecording(file, process.stdout, {
+				speed: Number.parseFloat(options.speed),
+				maxIdle: Number.parseFloat(options.maxIdle),
+			});
+		}
+		catch (error: any) {
+			console.error(chalk.red(`Failed: ${error.message}`));
+			process.exit(1);
+		}
+	});
+
 // Clean command - remove stopped containers
 program
 	.command('clean')
 	.description('Remove all stopped Claude Runner containers')
 	.option('-f, --force', 'Remove all containers (including running)')
+	.option('--expired', 'Also stop and remove running containers whose session has expired')
 	.action(async (options) => {
 		await ensureDockerConfig();
 		const spinner = ora('Cleaning up containers...').start();
 
 		try {
 			// Load config to get custom container prefix
-			const config = await loadConfig('./claude-run.config.json');
+			const config = await loadConfig();
 
 			// Collect all container prefixes to clean
 			const containerPrefixes = new Set<string>();
@@ -536,11 +1011,16 @@ program
 			spinner.text = `Looking for containers with prefixes: ${Array.from(containerPrefixes).join(', ')}`;
 
 			const containers = await getClaudeSandboxContainers(containerPrefixes);
+			const expired = options.expired && !options.force
+				? await reapExpiredSessions(containers, spinner)
+				: new Set<string>();
 			const targetContainers = options.force
 				? containers
-				: containers.filter(c => c.State !== 'running');
+				: containers.filter(c => c.State !== 'running' || expired.has(c.Id));
 
 			if (targetContainers.length === 0) {
+				await pruneEgressGateways(docker);
+				await pruneSessions();
 				spinner.info('No containers to clean up.');
 				return;
 			}
@@ -550,11 +1030,19 @@ program
 				if (c.State === 'running' && options.force) {
 					await container.stop();
 				}
+				await syncConfigBack(docker, c.Id).catch(() => 0);
 				await container.remove();
+				if (c.Labels[EGRESS_LABEL]) {
+					await removeEgressGateway(docker, c.Labels[EGRESS_LABEL]);
+				}
 				spinner.text = `Removed ${c.Id.substring(0, 12)}`;
 			}
 
-			spinner.succeed(`Cleaned up ${targetContainers.length} container(s)`);
+			await pruneEgressGateways(docker);
+			const prunedSessions = await pruneSessions();
+			spinner.succeed(
+				`Cleaned up ${targetContainers.length} container(s)${prunedSessions > 0 ? ` and ${prunedSessions} session record(s)` : ''}`,
+			);
 		}
 		catch (error: any) {
 			spinner.fail(chalk.red(`Failed: ${error.message}`));
@@ -572,7 +1060,7 @@ program
 			await ensureDockerConfig();
 
 			// Load config
-			const config = await loadConfig('./claude-run.config.json');
+			const config = await loadConfig();
 
 			// Collect all container prefixes and image names to clean
 			const containerPrefixes = new Set<string>();
@@ -710,6 +1198,10 @@ program
 
 					purgeSpinner.text = `Removing ${c.Id.substring(0, 12)}...`;
 					await container.remove();
+					removeSyncManifest(c.Id);
+					if (c.Labels[EGRESS_LABEL]) {
+						await removeEgressGateway(docker, c.Labels[EGRESS_LABEL]);
+					}
 					removedContainers++;
 				}
 				catch (error: any) {
@@ -723,6 +1215,15 @@ program
 				purgeSpinner.succeed(chalk.green(`✓ Removed ${removedContainers} container(s)`));
 			}
 
+			// Drop session records, shadow repos and egress proxies of the removed containers
+			try {
+				await pruneEgressGateways(docker);
+				await pruneSessions();
+			}
+			catch (error: any) {
+				purgeSpinner.warn(`Failed to prune session records: ${error.message}`);
+			}
+
 			// Remove images only if there are images to remove
 			if (imagesToRemove.size > 0) {
 				purgeSpinner.start('Removing images...');
@@ -760,23 +1261,121 @@ program
 		}
 	});
 
+// Doctor command - check the environment
+program
+	.command('doctor')
+	.description('Check Docker/Podman, credentials, tools and configuration')
+	.option(
+		'-c, --config <path>',
+		'Project configuration file (default: claude-run.config.json, .yaml or .toml at the repository root)',
+	)
+	.option('--json', 'Output the report as JSON')
+	.action(async (options) => {
+		const checks = await runDoctor(options.config);
+		const ok = !checks.some(check => check.status === 'fail');
+		if (options.json) {
+			console.log(JSON.stringify({ ok, checks }, null, 2));
+		}
+		else {
+			printDoctorReport(checks);
+		}
+		if (!ok) {
+			process.exit(1);
+		}
+	});
+
+// Init command - write a project config
+program
+	.command('init')
+	.description('Create claude-run.config.json for this project')
+	.option(
+		'-p, --path <path>',
+		'Where to write the configuration (default: claude-run.config.json at the repository root)',
+	)
+	.option('-y, --yes', 'Accept the detected values without asking')
+	.option('-f, --force', 'Overwrite an existing configuration')
+	.action(async (options) => {
+		try {
+			await runInitWizard(options);
+		}
+		catch (error: any) {
+			console.error(chalk.red(`Init failed: ${error.message}`));
+			if (error instanceof ConfigError) {
+				printConfigIssues(error.filePath, error.issues);
+			}
+			process.exit(1);
+		}
+	});
+
 // Config command - show configuration
 program
 	.command('config')
 	.description('Show current configuration')
 	.option(
 		'-p, --path <path>',
-		'Configuration file path',
-		'./claude-run.config.json',
+		'Project configuration file (default: claude-run.config.json, .yaml or .toml at the repository root)',
 	)
+	.option('--profile <name>', 'Apply a profile from the config (overrides defaultProfile)')
+	.option('--explain', 'Show which layer set each value')
+	.option('--format <format>', 'Print the configuration as json, yaml or toml, without the heading')
 	.action(async (options) => {
 		try {
-			const config = await loadConfig(options.path);
+			if (options.format && !['json', 'yaml', 'toml'].includes(options.format)) {
+				throw new Error(`Unknown format "${options.format}"; use json, yaml or toml`);
+			}
+			const resolved = await resolveConfig(options.path, { profile: options.profile });
+			if (options.explain) {
+				printConfigExplanation(resolved);
+				return;
+			}
+			if (options.format) {
+				process.stdout.write(serializeConfig(resolved.config, options.format));
+				return;
+			}
 			console.log(chalk.blue('Current configuration:'));
-			console.log(JSON.stringify(config, null, 2));
+			console.log(JSON.stringify(resolved.config, null, 2));
 		}
 		catch (error: any) {
 			console.error(chalk.red(`Failed to load config: ${error.message}`));
+			if (error instanceof ConfigError) {
+				printConfigIssues(error.filePath, error.issues);
+			}
+			process.exit(1);
+		}
+	})
+	.command('validate [files...]')
+	.description('Check config files against the schema (default: the user, project and local files)')
+	.action(async (files: string[], _options, command: Command) => {
+		const targets = files.length > 0
+			? files.map(file => path.resolve(file))
+			: (await getConfigFiles(command.parent?.opts().path)).map(file => file.filePath);
+
+		let errors = 0;
+		let checked = 0;
+		for (const filePath of targets) {
+			const result = await checkConfigFile(filePath);
+			if (!result) {
+				if (files.length > 0) {
+					console.error(chalk.red(`✗ ${filePath} not found`));
+					errors++;
+				}
+				continue;
+			}
+			checked++;
+			if (result.issues.length === 0) {
+				console.log(chalk.green(`✓ ${filePath}`));
+				continue;
+			}
+			const fileErrors = result.issues.filter(issue => issue.severity === 'error').length;
+			errors += fileErrors;
+			console.log(fileErrors > 0 ? chalk.red(`✗ ${filePath}`) : chalk.yellow(`⚠ ${filePath}`));
+			printConfigIssues(filePath, result.issues);
+		}
+
+		if (checked === 0 && errors === 0) {
+			console.log(chalk.yellow('No config files found'));
+		}
+		if (errors > 0) {
 			process.exit(1);
 		}
 	});
@@ -829,4 +1428,13 @@ program
 		}
 	});
 
-program.parse();
+program.parseAsync().catch((error) => {
+	if (error instanceof ConfigError) {
+		console.error(chalk.red(`✗ ${error.message}:`));
+		printConfigIssues(error.filePath, error.issues);
+	}
+	else {
+		console.error(chalk.red(`✗ ${error.message}`));
+	}
+	process.exit(1);
+});
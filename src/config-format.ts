@@ -0,0 +1,314 @@
+import path from 'node:path';
+import * as TOML from 'smol-toml';
+import YAML, { isMap, isPair, isScalar, isSeq, LineCounter } from 'yaml';
+
+export type ConfigFormat = 'json' | 'yaml' | 'toml';
+
+// Extensions a config file may have, in the order they are looked for
+export const CONFIG_EXTENSIONS: Record<string, ConfigFormat> = {
+	'.json': 'json',
+	'.jsonc': 'json',
+	'.yaml': 'yaml',
+	'.yml': 'yaml',
+	'.toml': 'toml',
+};
+
+export interface Position {
+	line: number;
+	column: number;
+}
+
+export interface ParsedConfig {
+	value: unknown;
+	values: Map<string, Position>; // Where each value starts, by path
+	keys: Map<string, Position>; // Where the key of each object member starts, by path
+}
+
+export class ConfigSyntaxError extends Error {
+	constructor(message: string, readonly position: Position) {
+		super(message);
+	}
+}
+
+export function childPath(parent: string, key: string | number): string {
+	if (typeof key === 'number') {
+		return `${parent}[${key}]`;
+	}
+	return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * The format of a config file, from its extension or else its content
+ */
+export function detectConfigFormat(filePath: string, content = ''): ConfigFormat {
+	const format = CONFIG_EXTENSIONS[path.extname(filePath).toLowerCase()];
+	if (format) {
+		return format;
+	}
+	const text = content.replace(/^\uFEFF/, '').replace(/^\s*(?:(?:#|\/\/)[^\n]*\n\s*)*/, '');
+	if (!text || text.startsWith('{')) {
+		return 'json';
+	}
+	return /^\[[^\]]+\]\s*$|^[\w"'.-]+\s*=/m.test(text) ? 'toml' : 'yaml';
+}
+
+/**
+ * Parse JSON, remembering where each value is so problems can point at a
+ * line and column. JSON.parse only reports an offset, and only for syntax
+ * errors. Comments are allowed, so JSONC files parse too.
+ */
+function parseJson(text: string): ParsedConfig {
+	const values = new Map<string, Position>();
+	const keys = new Map<string, Position>();
+	let index = text.charCodeAt(0) === 0xFEFF ? 1 : 0;
+	let comma = 0; // Offset of the last comma, for pointing at trailing ones
+
+	const positionAt = (offset: number): Position => {
+		const before = text.slice(0, offset).split('\n');
+		return { line: before.length, column: before[before.length - 1].length + 1 };
+	};
+	const fail = (message: string, offset = index): never => {
+		throw new ConfigSyntaxError(message, positionAt(offset));
+	};
+	const describe = (offset: number) => offset >= text.length ? 'end of file' : `'${text[offset]}'`;
+
+	// Whitespace and, as in JSONC, // and /* */ comments
+	const skipWhitespace = () => {
+		while (index < text.length) {
+			if (/\s/.test(text[index])) {
+				index++;
+			}
+			else if (text.startsWith('//', index)) {
+				const end = text.indexOf('\n', index);
+				index = end === -1 ? text.length : end;
+			}
+			else if (text.startsWith('/*', index)) {
+				const end = text.indexOf('*/', index + 2);
+				if (end === -1) {
+					fail('Unterminated comment');
+				}
+				index = end + 2;
+			}
+			else {
+				return;
+			}
+		}
+	};
+	const expect = (char: string) => {
+		skipWhitespace();
+		if (text[index] !== char) {
+			fail(`Expected '${char}' but found ${describe(index)}`);
+		}
+		index++;
+	};
+
+	const parseString = (): string => {
+		const start = index;
+		const match = /^"(?:[^"\\\n]|\\(?:["\\/bfnrt]|u[0-9a-f]{4}))*"/i.exec(text.slice(index));
+		if (!match) {
+			fail('Unterminated string or invalid escape sequence', start);
+		}
+		index += match![0].length;
+		return JSON.parse(match![0]);
+	};
+
+	const parseValue = (valuePath: string): unknown => {
+		skipWhitespace();
+		values.set(valuePath, positionAt(index));
+		const char = text[index];
+
+		if (char === '{') {
+			index++;
+			const object: Record<string, unknown> = {};
+			skipWhitespace();
+			if (text[index] === '}') {
+				index++;
+				return object;
+			}
+			while (true) {
+				skipWhitespace();
+				if (text[index] !== '"') {
+					fail(text[index] === '}' ? 'Trailing comma before \'}\'' : `Expected a property name in double quotes but found ${describe(index)}`, text[index] === '}' ? comma : index);
+				}
+				const keyOffset = index;
+				const key = parseString();
+				keys.set(childPath(valuePath, key), positionAt(keyOffset));
+				expect(':');
+				object[key] = parseValue(childPath(valuePath, key));
+				skipWhitespace();
+				if (text[index] === ',') {
+					comma = index++;
+					continue;
+				}
+				expect('}');
+				return object;
+			}
+		}
+
+		if (char === '[') {
+			index++;
+			const array: unknown[] = [];
+			skipWhitespace();
+			if (text[index] === ']') {
+				index++;
+				return array;
+			}
+			while (true) {
+				skipWhitespace();
+				if (text[index] === ']') {
+					fail('Trailing comma before \']\'', comma);
+				}
+				array.push(parseValue(childPath(valuePath, array.length)));
+				skipWhitespace();
+				if (text[index] === ',') {
+					comma = index++;
+					continue;
+				}
+				expect(']');
+				return array;
+			}
+		}
+
+		if (char === '"') {
+			return parseString();
+		}
+
+		const literal = /^(?:true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:e[+-]?\d+)?)(?![\w.])/i.exec(text.slice(index));
+		if (!literal || /^(?:True|False|Null)/.test(literal[0])) {
+			fail(`Unexpected ${describe(index)}`);
+		}
+		index += literal![0].length;
+		return JSON.parse(literal![0]);
+	};
+
+	const value = parseValue('');
+	skipWhitespace();
+	if (index < text.length) {
+		fail(`Unexpected ${describe(index)} after the end of the configuration`);
+	}
+	return { value, values, keys };
+}
+
+function parseYaml(text: string): ParsedConfig {
+	const values = new Map<string, Position>();
+	const keys = new Map<string, Position>();
+	const lineCounter = new LineCounter();
+	const document = YAML.parseDocument(text, { lineCounter, uniqueKeys: true });
+	const positionAt = (offset: number): Position => {
+		const { line, col } = lineCounter.linePos(offset);
+		return { line, column: col };
+	};
+
+	const error = document.errors[0];
+	if (error) {
+		const message = error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+		throw new ConfigSyntaxError(message, positionAt(error.pos[0]));
+	}
+
+	const walk = (node: unknown, nodePath: string) => {
+		if (isMap(node)) {
+			for (const item of node.items) {
+				if (!isPair(item) || !isScalar(item.key)) {
+					continue;
+				}
+				const itemPath = childPath(nodePath, String(item.key.value));
+				if (item.key.range) {
+					keys.set(itemPath, positionAt(item.key.range[0]));
+				}
+				walk(item.value, itemPath);
+			}
+		}
+		else if (isSeq(node)) {
+			node.items.forEach((item, i) => walk(item, childPath(nodePath, i)));
+		}
+		const range = (node as { range?: [number, number, number] } | null)?.range;
+		if (range) {
+			values.set(nodePath, positionAt(range[0]));
+		}
+	};
+	walk(document.contents, '');
+
+	// A file with nothing but comments is an empty config
+	return { value: document.contents === null ? {} : document.toJS(), values, keys };
+}
+
+// Split a dotted TOML key such as `a."b.c"` into its parts
+function splitTomlKey(key: string): string[] {
+	return (key.match(/"(?:[^"\\]|\\.)*"|'[^']*'|[^.\s]+/g) || [])
+		.map(part => /^["']/.test(part) ? part.slice(1, -1) : part);
+}
+
+/**
+ * Parse TOML. The parser does not report where values are, so keys and
+ * table headers are found line by line; values inside multi-line arrays are
+ * reported at their key.
+ */
+function parseToml(text: string): ParsedConfig {
+	let value: unknown;
+	try {
+		value = TOML.parse(text);
+	}
+	catch (error) {
+		if (error instanceof TOML.TomlError) {
+			const message = error.message.split('\n')[0].replace(/^Invalid TOML document: /, '');
+			throw new ConfigSyntaxError(message, { line: error.line, column: error.column });
+		}
+		throw error;
+	}
+
+	const values = new Map<string, Position>([['', { line: 1, column: 1 }]]);
+	const keys = new Map<string, Position>();
+	const tableCounts = new Map<string, number>();
+	let table = '';
+	text.split('\n').forEach((line, i) => {
+		const header = /^(\s*)(\[\[?)([^[\]]+)\]/.exec(line);
+		if (header) {
+			const name = splitTomlKey(header[3].trim()).reduce(childPath, '');
+			table = name;
+			if (header[2] === '[[') {
+				const index = (tableCounts.get(name) ?? -1) + 1;
+				tableCounts.set(name, index);
+				table = childPath(name, index);
+			}
+			const position = { line: i + 1, column: header[1].length + 1 };
+			keys.set(table, position);
+			values.set(table, position);
+			return;
+		}
+		const assignment = /^(\s*)((?:"(?:[^"\\]|\\.)*"|'[^']*'|[\w-]+)(?:\s*\.\s*(?:"(?:[^"\\]|\\.)*"|'[^']*'|[\w-]+))*)\s*=\s*/.exec(line);
+		if (assignment) {
+			const keyPath = splitTomlKey(assignment[2]).reduce(childPath, table);
+			keys.set(keyPath, { line: i + 1, column: assignment[1].length + 1 });
+			values.set(keyPath, { line: i + 1, column: assignment[0].length + 1 });
+		}
+	});
+	return { value, values, keys };
+}
+
+export function parseConfigText(text: string, format: ConfigFormat = 'json'): ParsedConfig {
+	if (format === 'yaml') {
+		return parseYaml(text);
+	}
+	if (format === 'toml') {
+		return parseToml(text);
+	}
+	return parseJson(text);
+}
+
+/**
+ * Write a config in the given format, with the comment or key that points
+ * editors at the schema
+ */
+export function serializeConfig(config: Record<string, any>, format: ConfigFormat, schemaUrl?: string): string {
+	const { $schema, ...rest } = config;
+	const url = schemaUrl || $schema;
+	if (format === 'yaml') {
+		const header = url ? `# yaml-language-server: $schema=${url}\n` : '';
+		return `${header}${YAML.stringify(rest)}`;
+	}
+	if (format === 'toml') {
+		const header = url ? `#:schema ${url}\n\n` : '';
+		return `${header}${TOML.stringify(rest)}`;
+	}
+	return `${JSON.stringify(url ? { $schema: url, ...rest } : rest, null, '\t')}\n`;
+}
@@ -0,0 +1,207 @@
+import type { ConfigFormat, ParsedConfig, Position } from './config-format';
+import fs from 'node:fs';
+import path from 'node:path';
+import { childPath, ConfigSyntaxError, parseConfigText } from './config-format';
+
+// Generated from SandboxConfig by scripts/generate-schema.js
+export const CONFIG_SCHEMA_PATH = path.join(__dirname, '..', 'schema', 'config.schema.json');
+export const CONFIG_SCHEMA_URL = 'https://raw.githubusercontent.com/yanranxiaoxi/claude-code-runner/main/schema/config.schema.json';
+
+export interface ConfigIssue {
+	severity: 'error' | 'warning';
+	path: string; // Dotted path of the value, e.g. 'mounts[0].target'; empty for the whole file
+	message: string;
+	line: number;
+	column: number;
+}
+
+/**
+ * A config file that could not be parsed or does not match the schema
+ */
+export class ConfigError extends Error {
+	constructor(readonly filePath: string, readonly issues: ConfigIssue[]) {
+		super(`Invalid configuration in ${filePath}`);
+	}
+}
+
+// The subset of JSON Schema the generator emits
+interface Schema {
+	$ref?: string;
+	type?: string | string[];
+	enum?: unknown[];
+	properties?: Record<string, Schema>;
+	required?: string[];
+	additionalProperties?: boolean | Schema;
+	items?: Schema;
+	anyOf?: Schema[];
+	definitions?: Record<string, Schema>;
+}
+
+let schema: Schema | undefined;
+
+function loadSchema(): Schema {
+	schema = schema || JSON.parse(fs.readFileSync(CONFIG_SCHEMA_PATH, 'utf-8'));
+	return schema!;
+}
+
+function typeOf(value: unknown): string {
+	if (value === null) {
+		return 'null';
+	}
+	return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function withArticle(type: string): string {
+	return `${/^[aeiou]/.test(type) ? 'an' : 'a'} ${type}`;
+}
+
+// Levenshtein distance, for suggesting the key that was probably meant
+function distance(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+function suggest(key: string, candidates: string[]): string {
+	const best = candidates
+		.map(candidate => ({ candidate, score: distance(key.toLowerCase(), candidate.toLowerCase()) }))
+		.sort((a, b) => a.score - b.score)[0];
+	return best && best.score <= Math.max(2, Math.floor(key.length / 4)) ? ` (did you mean "${best.candidate}"?)` : '';
+}
+
+// Where a value is, or else the closest enclosing value whose position is known
+function nearestPosition(parsed: ParsedConfig, valuePath: string): Position {
+	let current = valuePath;
+	while (current && !parsed.values.has(current)) {
+		const parent = current.replace(/(?:^|\.)[^.[\]]*$|\[\d+\]$/, '');
+		if (parent === current) {
+			break;
+		}
+		current = parent;
+	}
+	return parsed.values.get(current) || { line: 1, column: 1 };
+}
+
+// Options set to null count as unset, as in earlier example configs
+function removeNulls(value: unknown): void {
+	if (Array.isArray(value)) {
+		value.forEach(removeNulls);
+		return;
+	}
+	if (typeOf(value) !== 'object') {
+		return;
+	}
+	const object = value as Record<string, unknown>;
+	for (const [key, item] of Object.entries(object)) {
+		if (item === null) {
+			delete object[key];
+		}
+		else {
+			removeNulls(item);
+		}
+	}
+}
+
+function validateValue(value: unknown, valueSchema: Schema, valuePath: string, parsed: ParsedConfig, issues: ConfigIssue[]): void {
+	const root = loadSchema();
+	const at = (map: Map<string, Position>, key: string) => map.get(key) || nearestPosition(parsed, valuePath);
+	const label = valuePath || 'The configuration';
+	const report = (severity: ConfigIssue['severity'], message: string, position: Position, issuePath = valuePath) => {
+		issues.push({ severity, path: issuePath, message, ...position });
+	};
+
+	if (valueSchema.$ref) {
+		const name = valueSchema.$ref.replace('#/definitions/', '');
+		validateValue(value, root.definitions![name], valuePath, parsed, issues);
+		return;
+	}
+
+	if (valueSchema.anyOf) {
+		const matches = valueSchema.anyOf.some((option) => {
+			const optionIssues: ConfigIssue[] = [];
+			validateValue(value, option, valuePath, parsed, optionIssues);
+			return !optionIssues.some(issue => issue.severity === 'error');
+		});
+		if (!matches) {
+			report('error', `${label} has an unexpected value`, at(parsed.values, valuePath));
+		}
+		return;
+	}
+
+	const actual = typeOf(value);
+	const expected = ([] as string[]).concat(valueSchema.type || []);
+	if (expected.length > 0 && !expected.includes(actual)) {
+		report('error', `${label} must be ${expected.map(withArticle).join(' or ')}, not ${actual === 'null' ? 'null' : withArticle(actual)}`, at(parsed.values, valuePath));
+		return;
+	}
+
+	if (valueSchema.enum && !valueSchema.enum.includes(value)) {
+		report('error', `${label} must be one of ${valueSchema.enum.map(option => JSON.stringify(option)).join(', ')}`, at(parsed.values, valuePath));
+		return;
+	}
+
+	if (actual === 'array' && valueSchema.items) {
+		(value as unknown[]).forEach((item, i) => validateValue(item, valueSchema.items!, childPath(valuePath, i), parsed, issues));
+		return;
+	}
+
+	if (actual !== 'object') {
+		return;
+	}
+	const object = value as Record<string, unknown>;
+	const properties = valueSchema.properties || {};
+	for (const key of valueSchema.required || []) {
+		if (!(key in object)) {
+			report('error', `${label} is missing "${key}"`, at(parsed.values, valuePath));
+		}
+	}
+	for (const [key, item] of Object.entries(object)) {
+		const itemPath = childPath(valuePath, key);
+		if (properties[key]) {
+			validateValue(item, properties[key], itemPath, parsed, issues);
+		}
+		else if (typeof valueSchema.additionalProperties === 'object') {
+			validateValue(item, valueSchema.additionalProperties, itemPath, parsed, issues);
+		}
+		else if (valueSchema.additionalProperties === false) {
+			report('warning', `Unknown option "${itemPath}"${suggest(key, Object.keys(properties))}`, at(parsed.keys, itemPath), itemPath);
+		}
+	}
+}
+
+/**
+ * Parse and validate the text of a config file. Syntax errors and values of
+ * the wrong type are errors; unknown options are only warnings, so files
+ * written for newer versions keep working. Options set to null are dropped.
+ */
+export function checkConfigText(text: string, format: ConfigFormat = 'json'): { config?: Record<string, any>; issues: ConfigIssue[] } {
+	let parsed: ParsedConfig;
+	try {
+		parsed = parseConfigText(text, format);
+	}
+	catch (error) {
+		if (error instanceof ConfigSyntaxError) {
+			return { issues: [{ severity: 'error', path: '', message: error.message, ...error.position }] };
+		}
+		throw error;
+	}
+
+	const issues: ConfigIssue[] = [];
+	removeNulls(parsed.value);
+	validateValue(parsed.value, loadSchema(), '', parsed, issues);
+	issues.sort((a, b) => a.line - b.line || a.column - b.column);
+	return {
+		config: issues.some(issue => issue.severity === 'error') ? undefined : parsed.value as Record<string, any>,
+		issues,
+	};
+}
+
+export function formatConfigIssue(filePath: string, issue: ConfigIssue): string {
+	return `${filePath}:${issue.line}:${issue.column} ${issue.message}`;
+}
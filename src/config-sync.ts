@@ -0,0 +1,398 @@
+import type Docker from 'dockerode';
+import type { ConfigSyncRule } from './types';
+import { Buffer } from 'node:buffer';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import chalk from 'chalk';
+import tarStream from 'tar-stream';
+
+// Home directory of the claude user in the container
+export const CONTAINER_HOME = '/home/claude';
+// What was copied into each container, for copying changes back afterwards
+export const CONFIG_SYNC_DIR = path.join(os.homedir(), '.claude-run', 'config-sync');
+
+export interface SyncFile {
+	hostPath: string;
+	target: string; // Relative to CONTAINER_HOME
+	mode: number;
+	content?: Buffer; // What to copy instead of the host file, e.g. a redacted version
+}
+
+// A rule resolved against the host, as stored in the sync manifest
+export interface SyncRoot {
+	hostPath: string; // The source, or the directory a glob starts from
+	target: string;
+	pattern?: string; // Glob the remaining path has to match
+	exclude: string[];
+	redacted: string[]; // Files changed on the way in; never copied back
+	hashes: Record<string, string>; // SHA-256 of each copied file by path relative to hostPath
+	syncBackNew?: boolean; // Also copy back files created in the container
+}
+
+export interface SyncManifest {
+	containerId: string;
+	roots: SyncRoot[];
+	createdAt: string;
+}
+
+export function expandHome(filePath: string): string {
+	return filePath.replace(/^~(?=$|[/\\])/, os.homedir());
+}
+
+/**
+ * Convert a glob to a regular expression. `*` and `?` stay within one path
+ * segment, `**` matches any number of them.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let pattern = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*' && glob[i + 1] === '*') {
+			i++;
+			if (glob[i + 1] === '/') {
+				i++;
+				pattern += '(?:.*/)?';
+			}
+			else {
+				pattern += '.*';
+			}
+		}
+		else if (char === '*') {
+			pattern += '[^/]*';
+		}
+		else if (char === '?') {
+			pattern += '[^/]';
+		}
+		else {
+			pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${pattern}$`);
+}
+
+function hasGlob(segment: string): boolean {
+	return /[*?]/.test(segment);
+}
+
+// Like .gitignore: a pattern without a slash matches any path segment
+function isExcluded(relative: string, exclude: string[]): boolean {
+	return exclude.some((glob) => {
+		const regExp = globToRegExp(glob);
+		return glob.includes('/')
+			? regExp.test(relative)
+			: relative.split('/').some(segment => regExp.test(segment));
+	});
+}
+
+function matchesPattern(relative: string, pattern?: string): boolean {
+	if (!pattern) {
+		return true;
+	}
+	// A matching directory brings everything below it
+	const regExp = globToRegExp(pattern);
+	const segments = relative.split('/');
+	return segments.some((_, i) => regExp.test(segments.slice(0, i + 1).join('/')));
+}
+
+function hash(content: Buffer): string {
+	return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+// Hash a file in chunks, as directories like ~/.claude hold large transcripts
+function hashFile(filePath: string): string {
+	const digest = crypto.createHash('sha256');
+	const buffer = Buffer.alloc(64 * 1024);
+	const fd = fs.openSync(filePath, 'r');
+	try {
+		for (let bytesRead = fs.readSync(fd, buffer); bytesRead > 0; bytesRead = fs.readSync(fd, buffer)) {
+			digest.update(buffer.subarray(0, bytesRead));
+		}
+	}
+	finally {
+		fs.closeSync(fd);
+	}
+	return digest.digest('hex');
+}
+
+/**
+ * Split a rule's source into the path it starts from and the glob below it
+ */
+function splitSource(source: string): { base: string; pattern?: string } {
+	const segments = expandHome(source).split(/[/\\]/);
+	const index = segments.findIndex(hasGlob);
+	if (index === -1) {
+		return { base: segments.join(path.sep) };
+	}
+	return {
+		base: segments.slice(0, index).join(path.sep) || path.sep,
+		pattern: segments.slice(index).join('/'),
+	};
+}
+
+/**
+ * Whether anything a rule would copy exists on the host
+ */
+export function syncSourceExists(rule: ConfigSyncRule): boolean {
+	return fs.existsSync(splitSource(rule.source).base);
+}
+
+function defaultTarget(base: string): string {
+	const relative = path.relative(os.homedir(), base);
+	return relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+		? relative.split(path.sep).join('/')
+		: path.basename(base);
+}
+
+function parseMode(mode: ConfigSyncRule['mode']): number | undefined {
+	if (mode === undefined) {
+		return undefined;
+	}
+	// JSON has no octal literals, so modes are usually given as strings like '600'
+	return typeof mode === 'string' ? Number.parseInt(mode, 8) : mode;
+}
+
+// Files below a directory, by path relative to it. Symlinked directories are not followed.
+function walk(dir: string, prefix = ''): string[] {
+	const files: string[] = [];
+	for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+		const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+		if (entry.isDirectory()) {
+			files.push(...walk(path.join(dir, entry.name), relative));
+		}
+		else if (entry.isFile() || (entry.isSymbolicLink() && fs.statSync(path.join(dir, entry.name), { throwIfNoEntry: false })?.isFile())) {
+			files.push(relative);
+		}
+	}
+	return files;
+}
+
+/**
+ * Remove secrets from a file. JSON files lose the matching keys at any depth;
+ * in other files (TOML, YAML, .env) lines assigning a matching key are dropped.
+ */
+export function redactContent(content: Buffer, keys: string[]): Buffer {
+	if (keys.length === 0) {
+		return content;
+	}
+	const patterns = keys.map(key => new RegExp(globToRegExp(key).source, 'i'));
+	const isSecret = (key: string) => patterns.some(pattern => pattern.test(key));
+	const text = content.toString('utf-8');
+	let removed = false;
+
+	try {
+		const strip = (value: any): any => {
+			if (Array.isArray(value)) {
+				return value.map(strip);
+			}
+			if (value && typeof value === 'object') {
+				const entries = Object.entries(value).filter(([key]) => !isSecret(key) || !(removed = true));
+				return Object.fromEntries(entries.map(([key, item]) => [key, strip(item)]));
+			}
+			return value;
+		};
+		const stripped = strip(JSON.parse(text));
+		return removed ? Buffer.from(`${JSON.stringify(stripped, null, 2)}\n`) : content;
+	}
+	catch {
+		// Not JSON
+	}
+
+	const lines = text.split('\n');
+	const kept = lines.filter((line) => {
+		const match = line.match(/^\s*(?:export\s+)?["']?([\w.-]+)["']?\s*[=:]/);
+		return !match || !isSecret(match[1]);
+	});
+	return kept.length < lines.length ? Buffer.from(kept.join('\n')) : content;
+}
+
+/**
+ * Find the files a rule copies into the container. Only redacted files are
+ * kept in memory; the others are read while the archive is written.
+ */
+export function resolveSyncRule(rule: ConfigSyncRule): { files: SyncFile[]; root: SyncRoot } {
+	const { base, pattern } = splitSource(rule.source);
+	const target = (rule.target || defaultTarget(base)).replace(/^\/+|\/+$/g, '');
+	const root: SyncRoot = {
+		hostPath: base,
+		target,
+		pattern,
+		exclude: rule.exclude || [],
+		redacted: [],
+		hashes: {},
+		syncBackNew: rule.syncBackNew || undefined,
+	};
+	const files: SyncFile[] = [];
+
+	const stat = fs.statSync(base, { throwIfNoEntry: false });
+	if (!stat) {
+		return { files, root };
+	}
+
+	const relatives = stat.isDirectory()
+		? walk(base).filter(relative => matchesPattern(relative, pattern) && !isExcluded(relative, root.exclude))
+		: [''];
+	for (const relative of relatives) {
+		const hostPath = relative ? path.join(base, ...relative.split('/')) : base;
+		let content: Buffer | undefined;
+		if (rule.redact?.length) {
+			const original = fs.readFileSync(hostPath);
+			const redacted = redactContent(original, rule.redact);
+			if (!redacted.equals(original)) {
+				root.redacted.push(relative);
+				content = redacted;
+			}
+		}
+		root.hashes[relative] = hashFile(hostPath);
+		files.push({
+			hostPath,
+			target: relative ? `${target}/${relative}` : target,
+			mode: parseMode(rule.mode) ?? (fs.statSync(hostPath).mode & 0o777),
+			content,
+		});
+	}
+	return { files, root };
+}
+
+/**
+ * Write files to a tar archive to extract in CONTAINER_HOME. Host files are
+ * streamed into it one at a time.
+ */
+export async function createSyncArchive(files: SyncFile[], tarFile: string): Promise<void> {
+	const pack = tarStream.pack();
+	const written = pipeline(pack, fs.createWriteStream(tarFile, { mode: 0o600 }));
+
+	try {
+		for (const file of files) {
+			if (file.content) {
+				await new Promise<void>((resolve, reject) => {
+					pack.entry({ name: file.target, mode: file.mode }, file.content, error => error ? reject(error) : resolve());
+				});
+				continue;
+			}
+			const { size } = fs.statSync(file.hostPath);
+			// Stop at the size in the header, should the file grow meanwhile
+			const source = size > 0 ? fs.createReadStream(file.hostPath, { end: size - 1 }) : Readable.from([]);
+			await pipeline(source, pack.entry({ name: file.target, mode: file.mode, size }));
+		}
+		pack.finalize();
+	}
+	catch (error) {
+		pack.destroy(error as Error);
+	}
+	await written;
+}
+
+function manifestPath(containerId: string): string {
+	return path.join(CONFIG_SYNC_DIR, `${containerId}.json`);
+}
+
+export function saveSyncManifest(containerId: string, roots: SyncRoot[]): void {
+	fs.mkdirSync(CONFIG_SYNC_DIR, { recursive: true, mode: 0o700 });
+	const manifest: SyncManifest = { containerId, roots, createdAt: new Date().toISOString() };
+	fs.writeFileSync(manifestPath(containerId), JSON.stringify(manifest, null, 2), { mode: 0o600 });
+}
+
+export function loadSyncManifest(containerId: string): SyncManifest | undefined {
+	try {
+		return JSON.parse(fs.readFileSync(manifestPath(containerId), 'utf-8'));
+	}
+	catch {
+		return undefined;
+	}
+}
+
+export function removeSyncManifest(containerId: string): void {
+	fs.rmSync(manifestPath(containerId), { force: true });
+}
+
+// Regular files in a container archive that `keep` accepts, by path below
+// the archived directory. `keep` is asked once by path, to skip reading
+// files it never wants, and again with the SHA-256 of the content.
+async function readArchive(
+	stream: NodeJS.ReadableStream,
+	keep: (relative: string, digest?: string) => boolean,
+): Promise<Map<string, Buffer>> {
+	const files = new Map<string, Buffer>();
+	const extract = tarStream.extract();
+
+	extract.on('entry', (header, entry, next) => {
+		// Drop the archived directory's own name
+		const relative = header.name.split('/').slice(1).join('/');
+		if (header.type !== 'file' || !keep(relative)) {
+			entry.on('end', next);
+			entry.resume();
+			return;
+		}
+		const chunks: Buffer[] = [];
+		entry.on('data', (chunk: Buffer) => chunks.push(chunk));
+		entry.on('end', () => {
+			const content = Buffer.concat(chunks);
+			if (keep(relative, hash(content))) {
+				files.set(relative, content);
+			}
+			next();
+		});
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		extract.on('finish', resolve);
+		extract.on('error', reject);
+		(stream as Readable).pipe(extract);
+	});
+	return files;
+}
+
+/**
+ * Copy runner config files the session changed back to the host. Files that
+ * were redacted on the way in, or that also changed on the host, are left
+ * alone. Only files that were copied in are written, unless their rule has
+ * `syncBackNew`, and only below the paths recorded in the host-side
+ * manifest, so the container cannot choose where files go.
+ */
+export async function syncConfigBack(docker: Docker, containerId: string): Promise<number> {
+	const manifest = loadSyncManifest(containerId);
+	if (!manifest) {
+		return 0;
+	}
+
+	const container = docker.getContainer(containerId);
+	let copied = 0;
+	for (const root of manifest.roots) {
+		const changed = (relative: string, digest?: string) => !(
+			relative.split('/').includes('..')
+			|| !matchesPattern(relative, root.pattern)
+			|| isExcluded(relative, root.exclude)
+			|| root.redacted.includes(relative)
+			|| (!Object.hasOwn(root.hashes, relative) && !root.syncBackNew)
+			|| (digest !== undefined && root.hashes[relative] === digest)
+		);
+		let files: Map<string, Buffer>;
+		try {
+			files = await readArchive(await container.getArchive({ path: path.posix.join(CONTAINER_HOME, root.target) }), changed);
+		}
+		catch {
+			// Removed in the container
+			continue;
+		}
+
+		for (const [relative, content] of files) {
+			const hostPath = relative ? path.join(root.hostPath, ...relative.split('/')) : root.hostPath;
+			const current = fs.existsSync(hostPath) ? hashFile(hostPath) : undefined;
+			if (current !== root.hashes[relative]) {
+				console.log(chalk.yellow(`⚠ Not copying ${root.target}${relative ? `/${relative}` : ''} back: it also changed on the host`));
+				continue;
+			}
+
+			fs.mkdirSync(path.dirname(hostPath), { recursive: true });
+			fs.writeFileSync(hostPath, content);
+			copied++;
+		}
+	}
+
+	removeSyncManifest(containerId);
+	return copied;
+}
@@ -2,20 +2,28 @@ import type { CodeRunner, SandboxConfig } from './types';
 import fs from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
+import process from 'node:process';
+import chalk from 'chalk';
+import { CONFIG_EXTENSIONS, detectConfigFormat, serializeConfig } from './config-format';
+import { checkConfigText, CONFIG_SCHEMA_URL, ConfigError, formatConfigIssue } from './config-schema';
+import { registerRunners } from './runners';
+
+// Config files are found by name with any extension in CONFIG_EXTENSIONS
+export const PROJECT_CONFIG_NAME = 'claude-run.config';
+// Personal overrides next to the project config, meant to stay out of git
+export const LOCAL_CONFIG_NAME = 'claude-run.config.local';
+const ENV_PREFIX = 'CLAUDE_RUN_';
+// CLAUDE_RUN_* variables that are not config values
+const RESERVED_ENV = new Set(['CLAUDE_RUN_WEB_UI', 'CLAUDE_RUN_WEB_PASSWORD']);
 
 const DEFAULT_CONFIG: SandboxConfig = {
 	dockerImage: 'claude-code-runner',
 	buildImage: true, // Build locally by default, set to false to pull from registry
-	autoPush: true,
-	autoCreatePR: true,
+	autoPush: false, // Publishing is opt-in; commits otherwise bring up the commit menu
+	autoCreatePR: false,
 	autoStartClaude: true,
 	defaultShell: 'claude', // Default to Claude mode for backward compatibility
 	codeRunner: 'claude', // Default to Claude Code
-	claudeConfigPath: path.join(os.homedir(), '.claude.json'),
-	opencodeConfigPath: path.join(os.homedir(), '.config', 'opencode', 'opencode.json'),
-	codexConfigPath: path.join(os.homedir(), '.codex'),
-	kimiConfigPath: path.join(os.homedir(), '.kimi'),
-	qwenConfigPath: path.join(os.homedir(), '.qwen'),
 	setupCommands: [], // Example: ["npm install", "pip install -r requirements.txt"]
 	allowedTools: ['*'], // All tools allowed in sandbox
 	includeUntracked: false, // Don't include untracked files by default
@@ -23,66 +31,423 @@ const DEFAULT_CONFIG: SandboxConfig = {
 	// bashTimeout: 600000, // 10 minutes
 };
 
-// Helper to determine code runner from shell setting for backward compatibility
-function resolveCodeRunner(config: SandboxConfig): CodeRunner {
-	// If codeRunner is explicitly set, use it
-	if (config.codeRunner) {
-		return config.codeRunner;
+// Every top-level option, so environment variables can be mapped onto them
+const CONFIG_KEYS: Record<keyof SandboxConfig, true> = {
+	dockerImage: true,
+	dockerfile: true,
+	buildImage: true,
+	containerPrefix: true,
+	autoPush: true,
+	autoCreatePR: true,
+	pushOn: true,
+	pullRequest: true,
+	forge: true,
+	autoStartClaude: true,
+	defaultShell: true,
+	codeRunner: true,
+	runners: true,
+	configSync: true,
+	claudeConfigPath: true,
+	opencodeConfigPath: true,
+	codexConfigPath: true,
+	kimiConfigPath: true,
+	qwenConfigPath: true,
+	setupCommands: true,
+	environment: true,
+	envFile: true,
+	volumes: true,
+	mounts: true,
+	allowedTools: true,
+	maxThinkingTokens: true,
+	bashTimeout: true,
+	includeUntracked: true,
+	targetBranch: true,
+	remoteBranch: true,
+	prNumber: true,
+	dockerSocketPath: true,
+	skipReconnectCheck: true,
+	detached: true,
+	taskId: true,
+	profiles: true,
+	defaultProfile: true,
+	profile: true,
+	maxSessionDuration: true,
+	maxIdleDuration: true,
+	webUI: true,
+	network: true,
+	resources: true,
+	forwardSshKeys: true,
+	forwardGpgKeys: true,
+	forwardSshAgent: true,
+	forwardGpgAgent: true,
+	enableGpgSigning: true,
+};
+
+// Arrays that later layers add to instead of replacing. Objects are always
+// merged key by key; other arrays and values are replaced.
+const APPEND_KEYS = new Set([
+	'setupCommands',
+	'volumes',
+	'mounts',
+	'runners',
+	'network.allowedDomains',
+	'configSync.files',
+]);
+
+export type ConfigLayerName = 'default' | 'user' | 'project' | 'local' | 'profile' | 'env' | 'cli';
+
+export interface ConfigLayer {
+	name: ConfigLayerName;
+	source?: string; // File the layer was read from, or the variables it came from
+	config: Record<string, any>;
+}
+
+export interface ResolvedConfig {
+	config: SandboxConfig;
+	layers: ConfigLayer[];
+	origins: Record<string, ConfigLayerName[]>; // Layers that set each value, by dotted key
+}
+
+/**
+ * The config file called `name` in `dir`, whichever of .json, .jsonc, .yaml,
+ * .yml and .toml exists. When none does, the .json path is returned.
+ */
+export async function findConfigFile(dir: string, name: string): Promise<string> {
+	const found: string[] = [];
+	for (const extension of Object.keys(CONFIG_EXTENSIONS)) {
+		const filePath = path.join(dir, `${name}${extension}`);
+		try {
+			await fs.access(filePath);
+			found.push(filePath);
+		}
+		catch {
+			// Try the next extension
+		}
 	}
-	// For backward compatibility: if defaultShell is set, derive codeRunner
-	if (config.defaultShell === 'opencode') {
-		return 'opencode';
+	if (found.length > 1) {
+		console.warn(chalk.yellow(`⚠ Using ${found[0]}; ignoring ${found.slice(1).join(', ')}`));
 	}
-	if (config.defaultShell === 'codex') {
-		return 'codex';
+	return found[0] || path.join(dir, `${name}.json`);
+}
+
+export async function getUserConfigPath(): Promise<string> {
+	const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+	return findConfigFile(path.join(configHome, 'claude-run'), 'config');
+}
+
+/**
+ * The closest directory at or above `dir` that is a git work tree root
+ */
+export async function findGitRoot(dir: string = process.cwd()): Promise<string | undefined> {
+	let current = path.resolve(dir);
+	while (true) {
+		try {
+			await fs.access(path.join(current, '.git'));
+			return current;
+		}
+		catch {
+			const parent = path.dirname(current);
+			if (parent === current) {
+				return undefined;
+			}
+			current = parent;
+		}
 	}
-	if (config.defaultShell === 'kimi') {
-		return 'kimi';
+}
+
+/**
+ * Path of the project config: the given file, or claude-run.config.json (or
+ * .yaml, .toml, ...) at the root of the git repository containing the
+ * current directory
+ */
+export async function getProjectConfigPath(configPath?: string): Promise<string> {
+	if (configPath) {
+		return path.resolve(configPath);
 	}
-	if (config.defaultShell === 'qwen') {
-		return 'qwen';
+	const root = await findGitRoot() || process.cwd();
+	return findConfigFile(root, PROJECT_CONFIG_NAME);
+}
+
+/**
+ * The files the user, project and local layers are read from, whether they
+ * exist or not
+ */
+export async function getConfigFiles(configPath?: string): Promise<{ name: ConfigLayerName; filePath: string }[]> {
+	const projectPath = await getProjectConfigPath(configPath);
+	return [
+		{ name: 'user', filePath: await getUserConfigPath() },
+		{ name: 'project', filePath: projectPath },
+		{ name: 'local', filePath: await findConfigFile(path.dirname(projectPath), LOCAL_CONFIG_NAME) },
+	];
+}
+
+/**
+ * Read and validate a config file. Missing files give undefined; problems
+ * are returned with their line and column rather than thrown.
+ */
+export async function checkConfigFile(filePath: string): Promise<ReturnType<typeof checkConfigText> | undefined> {
+	let content: string;
+	try {
+		content = await fs.readFile(filePath, 'utf-8');
 	}
-	return 'claude';
+	catch {
+		return undefined;
+	}
+	return checkConfigText(content, detectConfigFormat(filePath, content));
 }
 
-export async function loadConfig(configPath: string): Promise<SandboxConfig> {
+// Missing files are skipped; invalid ones stop the command with every problem found
+async function readConfigFile(filePath: string): Promise<Record<string, any> | undefined> {
+	const result = await checkConfigFile(filePath);
+	if (!result) {
+		return undefined;
+	}
+	if (!result.config) {
+		throw new ConfigError(filePath, result.issues);
+	}
+	for (const issue of result.issues) {
+		console.warn(chalk.yellow(`⚠ ${formatConfigIssue(filePath, issue)}`));
+	}
+	const { $schema, ...config } = result.config;
+	return config;
+}
+
+/**
+ * Make the relative paths in a config file absolute. They are relative to
+ * the file's directory, not to wherever claude-run was started, and the
+ * same goes for the profiles the file defines.
+ */
+function resolveRelativePaths(config: Record<string, any>, dir: string): Record<string, any> {
+	// Paths starting with ~ or a variable are expanded when they are used
+	const resolve = (value: unknown) => typeof value === 'string' && value && !path.isAbsolute(value) && !/^[~$]/.test(value)
+		? path.resolve(dir, value)
+		: value;
+	const resolved = { ...config };
+	for (const key of ['envFile', 'dockerfile']) {
+		if (key in resolved) {
+			resolved[key] = resolve(resolved[key]);
+		}
+	}
+	if (Array.isArray(resolved.volumes)) {
+		// Without ./ or ../ a source is a volume name
+		resolved.volumes = resolved.volumes.map((volume: unknown) => {
+			if (typeof volume !== 'string' || !/^\.\.?\//.test(volume)) {
+				return volume;
+			}
+			const [source, ...rest] = volume.split(':');
+			return [path.resolve(dir, source), ...rest].join(':');
+		});
+	}
+	if (Array.isArray(resolved.mounts)) {
+		resolved.mounts = resolved.mounts.map((mount: unknown) => isPlainObject(mount) ? { ...mount, source: resolve(mount.source) } : mount);
+	}
+	if (isPlainObject(resolved.profiles)) {
+		resolved.profiles = Object.fromEntries(Object.entries(resolved.profiles).map(([name, profile]) => [
+			name,
+			isPlainObject(profile) ? resolveRelativePaths(profile, dir) : profile,
+		]));
+	}
+	return resolved;
+}
+
+function toCamelCase(name: string): string {
+	return name.toLowerCase().replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+function parseEnvValue(value: string): unknown {
+	// true, 42 and ["npm ci"] keep their types; anything else is a string
 	try {
-		const fullPath = path.resolve(configPath);
-		const configContent = await fs.readFile(fullPath, 'utf-8');
-		const userConfig = JSON.parse(configContent);
+		return JSON.parse(value);
+	}
+	catch {
+		return value;
+	}
+}
+
+/**
+ * Config values from CLAUDE_RUN_* variables. A double underscore goes one
+ * level down: CLAUDE_RUN_WEB_UI__PORT=8080 sets webUI.port.
+ */
+export function getEnvConfig(env: NodeJS.ProcessEnv = process.env): Record<string, any> {
+	const topLevelKeys = new Map(Object.keys(CONFIG_KEYS).map(key => [key.toLowerCase(), key]));
+	const config: Record<string, any> = {};
+
+	for (const [name, value] of Object.entries(env)) {
+		if (!name.startsWith(ENV_PREFIX) || RESERVED_ENV.has(name) || value === undefined) {
+			continue;
+		}
+		const [topLevel, ...nested] = name.slice(ENV_PREFIX.length).split('__');
+		const key = topLevelKeys.get(topLevel.replace(/_/g, '').toLowerCase());
+		if (!key) {
+			continue;
+		}
+
+		let target = config;
+		for (const part of [key, ...nested.map(toCamelCase)].slice(0, -1)) {
+			target = target[part] = target[part] || {};
+		}
+		target[nested.length > 0 ? toCamelCase(nested[nested.length - 1]) : key] = parseEnvValue(value);
+	}
+	return config;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+	return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function mergeLayer(
+	target: Record<string, any>,
+	source: Record<string, any>,
+	layer: ConfigLayerName,
+	origins: Record<string, ConfigLayerName[]>,
+	prefix = '',
+): void {
+	for (const [key, value] of Object.entries(source)) {
+		if (value === undefined) {
+			continue;
+		}
+		const dotted = prefix ? `${prefix}.${key}` : key;
+
+		if (isPlainObject(value) && isPlainObject(target[key])) {
+			target[key] = { ...target[key] };
+			mergeLayer(target[key], value, layer, origins, dotted);
+			continue;
+		}
+
+		if (Array.isArray(value) && Array.isArray(target[key]) && APPEND_KEYS.has(dotted)) {
+			target[key] = [...target[key], ...value];
+			origins[dotted] = [...(origins[dotted] || []), layer];
+			continue;
+		}
+
+		target[key] = typeof value === 'object' ? structuredClone(value) : value;
+		// Objects record the layer on each of their values
+		for (const origin of Object.keys(origins)) {
+			if (origin === dotted || origin.startsWith(`${dotted}.`)) {
+				delete origins[origin];
+			}
+		}
+		if (isPlainObject(value)) {
+			recordOrigins(value, layer, origins, dotted);
+		}
+		else {
+			origins[dotted] = [layer];
+		}
+	}
+}
+
+function recordOrigins(value: Record<string, any>, layer: ConfigLayerName, origins: Record<string, ConfigLayerName[]>, prefix: string): void {
+	for (const [key, item] of Object.entries(value)) {
+		if (isPlainObject(item)) {
+			recordOrigins(item, layer, origins, `${prefix}.${key}`);
+		}
+		else {
+			origins[`${prefix}.${key}`] = [layer];
+		}
+	}
+}
 
-		// Merge with defaults
-		const finalConfig = {
-			...DEFAULT_CONFIG,
-			...userConfig,
-		};
+// Helper to determine code runner from shell setting for backward compatibility
+function resolveCodeRunner(config: SandboxConfig): CodeRunner {
+	// If codeRunner is explicitly set, use it
+	if (config.codeRunner) {
+		return config.codeRunner;
+	}
+	// For backward compatibility: if defaultShell names a runner, use it
+	if (config.defaultShell && config.defaultShell !== 'bash') {
+		return config.defaultShell;
+	}
+	return 'claude';
+}
 
-		// Resolve code runner for backward compatibility
-		finalConfig.codeRunner = resolveCodeRunner(finalConfig);
+/**
+ * Resolve the configuration from its layers, from lowest to highest
+ * precedence: defaults, the user config, the project config, the local
+ * override file, the selected profile, CLAUDE_RUN_* variables and command
+ * line flags.
+ */
+export async function resolveConfig(configPath?: string, overrides: SandboxConfig = {}): Promise<ResolvedConfig> {
+	const envConfig = getEnvConfig();
+	const layers: ConfigLayer[] = [];
+	const merged: Record<string, any> = {};
+	const origins: Record<string, ConfigLayerName[]> = {};
+	const addLayer = (layer: ConfigLayer) => {
+		layers.push(layer);
+		mergeLayer(merged, layer.config, layer.name, origins);
+		if (Array.isArray(layer.config.runners)) {
+			registerRunners(layer.config.runners, layer.source || layer.name);
+		}
+	};
 
-		// Sync defaultShell with codeRunner if not explicitly set to 'bash'
-		if (finalConfig.defaultShell !== 'bash') {
-			finalConfig.defaultShell = finalConfig.codeRunner;
+	addLayer({ name: 'default', config: DEFAULT_CONFIG });
+	for (const { name, filePath } of await getConfigFiles(configPath)) {
+		const config = await readConfigFile(filePath);
+		if (config) {
+			addLayer({ name, source: filePath, config: resolveRelativePaths(config, path.dirname(filePath)) });
 		}
+	}
 
-		// If buildImage is false and dockerImage wasn't explicitly set, use official image
-		// Image tag follows the CLI version (e.g., v0.3.2)
-		if (finalConfig.buildImage === false && userConfig.dockerImage === undefined) {
-			finalConfig.dockerImage = 'ghcr.io/yanranxiaoxi/claude-code-runner:v__PACKAGE_VERSION__';
+	// Profiles come from the files; the flag or variable picks one over defaultProfile
+	const profileName: string | undefined = overrides.profile || envConfig.profile || merged.defaultProfile;
+	if (profileName) {
+		const profile = merged.profiles?.[profileName];
+		if (!isPlainObject(profile)) {
+			const available = Object.keys(merged.profiles || {});
+			throw new Error(`Unknown profile "${profileName}". ${available.length > 0 ? `Available profiles: ${available.join(', ')}` : 'No profiles are defined'}`);
 		}
+		addLayer({ name: 'profile', source: profileName, config: profile });
+		merged.profile = profileName;
+		origins.profile = origins.profile || origins.defaultProfile;
+	}
+
+	if (Object.keys(envConfig).length > 0) {
+		const names = Object.keys(process.env).filter(name => name.startsWith(ENV_PREFIX) && !RESERVED_ENV.has(name));
+		addLayer({ name: 'env', source: names.join(', '), config: envConfig });
+	}
+	if (Object.values(overrides).some(value => value !== undefined)) {
+		addLayer({ name: 'cli', config: overrides });
+	}
+	const finalConfig = merged as SandboxConfig;
 
-		return finalConfig;
+	// Resolve code runner for backward compatibility
+	finalConfig.codeRunner = resolveCodeRunner(finalConfig);
+
+	// Sync defaultShell with codeRunner if not explicitly set to 'bash'
+	if (finalConfig.defaultShell !== 'bash' && finalConfig.defaultShell !== finalConfig.codeRunner) {
+		finalConfig.defaultShell = finalConfig.codeRunner;
+		origins.defaultShell = origins.codeRunner || origins.defaultShell;
 	}
-	catch (error) {
-		// Config file not found or invalid, use defaults
-		return DEFAULT_CONFIG;
+
+	// If buildImage is false and dockerImage wasn't explicitly set, use official image
+	// Image tag follows the CLI version (e.g., v0.3.2)
+	if (finalConfig.buildImage === false && origins.dockerImage?.[0] === 'default') {
+		finalConfig.dockerImage = 'ghcr.io/yanranxiaoxi/claude-code-runner:v__PACKAGE_VERSION__';
+		origins.dockerImage = origins.buildImage;
 	}
+
+	return { config: finalConfig, layers, origins };
 }
 
+export async function loadConfig(configPath?: string, overrides?: SandboxConfig): Promise<SandboxConfig> {
+	return (await resolveConfig(configPath, overrides)).config;
+}
+
+/**
+ * Write a config file in the format it was read in, pointing editors at the
+ * schema. The content is validated first, so a file that would not load is
+ * never written.
+ */
 export async function saveConfig(
 	config: SandboxConfig,
 	configPath: string,
 ): Promise<void> {
 	const fullPath = path.resolve(configPath);
-	await fs.writeFile(fullPath, JSON.stringify(config, null, 2));
+	const existing = await fs.readFile(fullPath, 'utf-8').catch(() => '');
+	const format = detectConfigFormat(fullPath, existing);
+	const content = serializeConfig(config, format, CONFIG_SCHEMA_URL);
+	const { issues } = checkConfigText(content, format);
+	if (issues.length > 0) {
+		throw new ConfigError(fullPath, issues);
+	}
+	await fs.writeFile(fullPath, content);
 }
@@ -1,23 +1,78 @@
 import type Docker from 'dockerode';
-import type { CodeRunner, Credentials, SandboxConfig } from './types';
+import type { SyncFile, SyncRoot } from './config-sync';
+import type { ConfigSyncRule, Credentials, SandboxConfig } from './types';
 import { Buffer } from 'node:buffer';
 import { execSync } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
 import * as fs from 'node:fs';
 import * as os from 'node:os';
 import path from 'node:path';
 import process from 'node:process';
 import chalk from 'chalk';
 import tarStream from 'tar-stream';
-import { CODE_RUNNERS } from './types';
+import { CONTAINER_HOME, createSyncArchive, resolveSyncRule, saveSyncManifest, syncConfigBack, syncSourceExists } from './config-sync';
+import { createEgressGateway, EGRESS_LABEL, getEgressGatewayName, removeEgressGateway } from './network';
+import { getResourceLimits, isStorageQuotaUnsupported } from './resources';
+import { getConfigSyncRules, getRunner, listRunners } from './runners';
+import { getLimitLabels, getSessionLimits } from './session-limits';
+
+// Records the config profile a container was started with
+export const PROFILE_LABEL = 'com.claude.runner.profile';
 
 /** Normalize path separators for shell commands (Windows backslash → forward slash) */
 function toShellPath(filePath: string): string {
 	return filePath.replace(/\\/g, '/');
 }
 
-/** Get a cross-platform temporary file path */
+/** Quote a string for use as a single bash word */
+function shellQuote(value: string): string {
+	return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/** Get a cross-platform temporary file path, unique across concurrent sessions */
 function getTempFile(prefix: string, extension: string): string {
-	return path.join(os.tmpdir(), `${prefix}-${Date.now()}${extension}`);
+	return path.join(os.tmpdir(), `${prefix}-${randomUUID()}${extension}`);
+}
+
+// Exit code of a headless run stopped by maxSessionDuration (from `timeout`)
+export const HEADLESS_TIMEOUT_EXIT_CODE = 124;
+
+/**
+ * Tar flags for copying the working directory: strip extended attributes
+ * when this tar supports it
+ */
+export function getTarFlags(): string {
+	try {
+		// Test if --no-xattrs is supported by checking tar help
+		execSync('tar --help 2>&1 | grep -q no-xattrs', { stdio: 'pipe' });
+		return '--no-xattrs';
+	}
+	catch {
+		// --no-xattrs not supported, use standard tar
+		return '';
+	}
+}
+
+/**
+ * The image a session runs, with the tag ensureImage builds or pulls
+ */
+export function getImageName(config: SandboxConfig): string {
+	const imageName = config.dockerImage || 'claude-code-runner:latest';
+	if (imageName.includes(':')) {
+		return imageName;
+	}
+	// Pre-built images follow the CLI version; local builds are tagged latest
+	return config.buildImage === false ? `${imageName}:v__PACKAGE_VERSION__` : `${imageName}:latest`;
+}
+
+/**
+ * The Dockerfile ensureImage builds from, if the image is built locally
+ */
+export function getDockerfilePath(config: SandboxConfig): string | undefined {
+	if (config.buildImage === false) {
+		return undefined;
+	}
+	return config.dockerfile || path.join(__dirname, '..', 'docker', 'Dockerfile');
 }
 
 export class ContainerManager {
@@ -60,29 +115,17 @@ export class ContainerManager {
 			await this._copyWorkingDirectory(container, containerConfig.workDir);
 			console.log(chalk.green('✓ Files copied'));
 
-			// Copy Claude configuration if it exists
-			await this._copyClaudeConfig(container);
-
-			// Copy OpenCode configuration if it exists
-			await this._copyOpencodeConfig(container);
-
-			// Copy Codex configuration if it exists
-			await this._copyCodexConfig(container);
+			// Copy code runner, git and extra configuration files that exist
+			await this._copyConfigFiles(container);
 
-			// Copy Kimi Code configuration if it exists
-			await this._copyKimiConfig(container);
-
-			// Copy Qwen Code configuration if it exists
-			await this._copyQwenConfig(container);
-
-			// Copy git configuration if it exists
-			await this._copyGitConfig(container);
+			// Copy Claude credentials from the macOS Keychain, over any copied above
+			await this._copyClaudeKeychainCredentials(container);
 		}
 		catch (error) {
 			console.error(chalk.red('✗ File copy failed:'), error);
 			// Clean up container on failure
 			await container.stop().catch(() => {});
-			await container.remove().catch(() => {});
+			await this.removeContainer(container).catch(() => {});
 			this.containers.delete(container.id);
 			throw error;
 		}
@@ -91,6 +134,9 @@ export class ContainerManager {
 		await new Promise(resolve => setTimeout(resolve, 500));
 		console.log(chalk.green('✓ Container ready'));
 
+		// Install the code runner if the image does not include it
+		await this.ensureRunnerInstalled(container);
+
 		// Set up git branch and startup script
 		await this.setupGitAndStartupScript(
 			container,
@@ -105,21 +151,8 @@ export class ContainerManager {
 		return container.id;
 	}
 
-	private async ensureImage(): Promise<void> {
-		let imageName = this.config.dockerImage || 'claude-code-runner:latest';
-
-		// Auto-add version tag if image name doesn't include a tag
-		// When buildImage is false (using pre-built image), use the official versioned image
-		if (!imageName.includes(':')) {
-			if (this.config.buildImage === false) {
-				// For pre-built image, append version tag
-				imageName = `${imageName}:v__PACKAGE_VERSION__`;
-			}
-			else {
-				// For local build, append :latest
-				imageName = `${imageName}:latest`;
-			}
-		}
+	async ensureImage(): Promise<void> {
+		const imageName = getImageName(this.config);
 
 		// Check if image already exists
 		try {
@@ -313,22 +346,46 @@ export class ContainerManager {
 		// Prepare volumes
 		const volumes = this.prepareVolumes(workDir, credentials);
 
-		// Create container
-		const container = await this.docker.createContainer({
+		const labels: Record<string, string> = {
+			'com.claude.runner.repo': repoName,
+			'com.claude.runner.workdir': workDir,
+			'com.claude.runner.version': '__PACKAGE_VERSION__',
+			'com.claude.runner.runner': this.config.codeRunner || 'claude',
+			'com.claude.runner.branch': containerConfig.branchName,
+			...getLimitLabels(getSessionLimits(this.config)),
+		};
+		// Batch tasks start several containers at once, so the task ID also
+		// keeps their names unique
+		let nameSuffix = `${Date.now()}`;
+		if (this.config.taskId) {
+			labels['com.claude.runner.task'] = this.config.taskId;
+			nameSuffix = `${this.config.taskId.replace(/[^\w.-]/g, '-')}-${nameSuffix}`;
+		}
+		if (this.config.profile) {
+			labels[PROFILE_LABEL] = this.config.profile;
+		}
+
+		// Parse the limits first so a typo fails before anything is created
+		const resourceLimits = getResourceLimits(this.config.resources);
+
+		const gateway = await createEgressGateway(this.docker, this.config, nameSuffix);
+		env.push(...gateway.env);
+		if (gateway.name) {
+			labels[EGRESS_LABEL] = gateway.name;
+		}
+
+		const options: Docker.ContainerCreateOptions = {
 			Image: this.config.dockerImage || 'claude-code-runner:latest',
 			name: `${
 				this.config.containerPrefix || 'claude-code-runner'
-			}-${Date.now()}`,
+			}-${nameSuffix}`,
 			Env: env,
-			Labels: {
-				'com.claude.runner.repo': repoName,
-				'com.claude.runner.workdir': workDir,
-				'com.claude.runner.version': '__PACKAGE_VERSION__',
-			},
+			Labels: labels,
 			HostConfig: {
+				...resourceLimits,
 				Binds: volumes,
 				AutoRemove: false,
-				NetworkMode: 'bridge',
+				NetworkMode: gateway.networkMode,
 			},
 			WorkingDir: '/workspace',
 			Cmd: ['/bin/bash', '-l'],
@@ -338,13 +395,35 @@ export class ContainerManager {
 			Tty: true,
 			OpenStdin: true,
 			StdinOnce: false,
-		});
+		};
+
+		// Create container
+		let container: Docker.Container;
+		try {
+			try {
+				container = await this.docker.createContainer(options);
+			}
+			catch (error) {
+				if (!resourceLimits.StorageOpt || !isStorageQuotaUnsupported(error)) {
+					throw error;
+				}
+				console.log(chalk.yellow('⚠ The storage driver does not support disk quotas, starting without one'));
+				delete options.HostConfig!.StorageOpt;
+				container = await this.docker.createContainer(options);
+			}
+		}
+		catch (error) {
+			if (gateway.name) {
+				await removeEgressGateway(this.docker, gateway.name);
+			}
+			throw error;
+		}
 
 		return container;
 	}
 
 	private prepareEnvironment(credentials: Credentials): string[] {
-		const env = [];
+		const env: string[] = [];
 
 		// Load environment variables from .env file if specified
 		if (this.config.envFile) {
@@ -466,6 +545,24 @@ export class ContainerManager {
 			env.push(`GIT_COMMITTER_EMAIL=${process.env.GIT_COMMITTER_EMAIL}`);
 		}
 
+		// Variables the code runner reads its API keys and settings from
+		const runner = getRunner(this.config.codeRunner);
+		const isSet = (name: string) => env.some(entry => entry.startsWith(`${name}=`));
+		for (const name of new Set([...(runner.requiredEnv || []), ...(runner.env || [])])) {
+			if (process.env[name] && !isSet(name)) {
+				env.push(`${name}=${process.env[name]}`);
+			}
+		}
+		if (
+			runner.requiredEnv?.length
+			&& !runner.requiredEnv.some(isSet)
+			&& !getConfigSyncRules(runner, this.config).some(syncSourceExists)
+		) {
+			console.log(
+				chalk.yellow(`⚠ ${runner.displayName} needs ${runner.requiredEnv.join(' or ')}, which is not set`),
+			);
+		}
+
 		// SSH agent forwarding - if socket is available, set the container path
 		const sshAuthSock = process.env.SSH_AUTH_SOCK;
 		if (sshAuthSock && fs.existsSync(sshAuthSock)) {
@@ -634,19 +731,6 @@ export class ContainerManager {
 		container: Docker.Container,
 		workDir: string,
 	): Promise<void> {
-		// Helper function to get tar flags safely
-		const getTarFlags = () => {
-			try {
-				// Test if --no-xattrs is supported by checking tar help
-				execSync('tar --help 2>&1 | grep -q no-xattrs', { stdio: 'pipe' });
-				return '--no-xattrs';
-			}
-			catch {
-				// --no-xattrs not supported, use standard tar
-				return '';
-			}
-		};
-
 		try {
 			// Get list of git-tracked files (including uncommitted changes)
 			const trackedFiles = execSync('git ls-files', {
@@ -803,500 +887,162 @@ export class ContainerManager {
 		}
 	}
 
-	private async _copyClaudeConfig(container: Docker.Container): Promise<void> {
-		// Helper function to get tar flags safely
-		const getTarFlags = () => {
-			try {
-				// Test if --no-xattrs is supported by checking tar help
-				execSync('tar --help 2>&1 | grep -q no-xattrs', { stdio: 'pipe' });
-				return '--no-xattrs';
-			}
-			catch {
-				// --no-xattrs not supported, use standard tar
-				return '';
-			}
-		};
+	// Claude Code on macOS keeps its credentials in the Keychain rather than ~/.claude
+	private async _copyClaudeKeychainCredentials(container: Docker.Container): Promise<void> {
+		if (process.platform !== 'darwin') {
+			return;
+		}
 
 		try {
-			// First, try to get credentials from macOS Keychain if on Mac
-			if (process.platform === 'darwin') {
-				try {
-					console.log(
-						chalk.blue('• Checking macOS Keychain for Claude credentials...'),
-					);
-					const keychainCreds = execSync(
-						'security find-generic-password -s "Claude Code-credentials" -w',
-						{
-							encoding: 'utf-8',
-							stdio: ['pipe', 'pipe', 'pipe'], // Suppress stderr
-						},
-					).trim();
-
-					if (keychainCreds) {
-						console.log(
-							chalk.green('✓ Found Claude credentials in macOS Keychain'),
-						);
-
-						// Create .claude directory structure
-						const claudeDirTar = getTempFile('claude-keychain', '.tar');
-						const pack = tarStream.pack();
-
-						// Add .credentials.json to the tar
-						pack.entry(
-							{ name: '.claude/.credentials.json', mode: 0o600 },
-							keychainCreds,
-							(err: any) => {
-								if (err)
-									throw err;
-								pack.finalize();
-							},
-						);
-
-						const chunks: Buffer[] = [];
-						pack.on('data', (chunk: any) => chunks.push(chunk));
-
-						await new Promise<void>((resolve, reject) => {
-							pack.on('end', () => {
-								fs.writeFileSync(claudeDirTar, Buffer.concat(chunks));
-								resolve();
-							});
-							pack.on('error', reject);
-						});
-
-						const stream = fs.createReadStream(claudeDirTar);
-						await container.putArchive(stream, {
-							path: '/home/claude',
-						});
-
-						fs.unlinkSync(claudeDirTar);
-
-						// Fix permissions
-						await container
-							.exec({
-								Cmd: [
-									'/bin/bash',
-									'-c',
-									'sudo mkdir -p /home/claude/.claude && sudo chown -R claude:claude /home/claude/.claude && sudo chmod 700 /home/claude/.claude && sudo chmod 600 /home/claude/.claude/.credentials.json',
-								],
-								AttachStdout: false,
-								AttachStderr: false,
-							})
-							.then(exec => exec.start({}));
-
-						console.log(
-							chalk.green('✓ Claude Keychain credentials copied to container'),
-						);
-					}
-				}
-				catch (error) {
-					// Keychain access failed or credentials not found - not critical
-					console.log(
-						chalk.yellow('• No Claude credentials found in macOS Keychain'),
-					);
-				}
-			}
+			console.log(
+				chalk.blue('• Checking macOS Keychain for Claude credentials...'),
+			);
+			const keychainCreds = execSync(
+				'security find-generic-password -s "Claude Code-credentials" -w',
+				{
+					encoding: 'utf-8',
+					stdio: ['pipe', 'pipe', 'pipe'], // Suppress stderr
+				},
+			).trim();
 
-			// Copy .claude.json if it exists
-			const claudeJsonPath = path.join(os.homedir(), '.claude.json');
-			if (fs.existsSync(claudeJsonPath)) {
-				console.log(chalk.blue('• Copying .claude.json...'));
-
-				const configContent = fs.readFileSync(claudeJsonPath, 'utf-8');
-				const tarFile = getTempFile('claude-json', '.tar');
-				const pack = tarStream.pack();
-
-				pack.entry(
-					{ name: '.claude.json', mode: 0o644 },
-					configContent,
-					(err: any) => {
-						if (err)
-							throw err;
-						pack.finalize();
-					},
+			if (keychainCreds) {
+				console.log(
+					chalk.green('✓ Found Claude credentials in macOS Keychain'),
 				);
 
-				const chunks: Buffer[] = [];
-				pack.on('data', (chunk: any) => chunks.push(chunk));
-
-				await new Promise<void>((resolve, reject) => {
-					pack.on('end', () => {
-						fs.writeFileSync(tarFile, Buffer.concat(chunks));
-						resolve();
-					});
-					pack.on('error', reject);
-				});
-
-				const stream = fs.createReadStream(tarFile);
-				await container.putArchive(stream, {
-					path: '/home/claude',
-				});
-
-				fs.unlinkSync(tarFile);
-
-				// Fix permissions
-				await container
-					.exec({
-						Cmd: [
-							'/bin/bash',
-							'-c',
-							'sudo chown claude:claude /home/claude/.claude.json && chmod 644 /home/claude/.claude.json',
-						],
-						AttachStdout: false,
-						AttachStderr: false,
-					})
-					.then(exec => exec.start({}));
-			}
-
-			// Copy .claude directory if it exists (but skip if we already copied from Keychain)
-			const claudeDir = path.join(os.homedir(), '.claude');
-			if (
-				fs.existsSync(claudeDir)
-				&& fs.statSync(claudeDir).isDirectory()
-				&& process.platform !== 'darwin'
-			) {
-				console.log(chalk.blue('• Copying .claude directory...'));
-
-				const tarFile = getTempFile('claude-dir', '.tar');
-				const tarFlags = getTarFlags();
-				// On macOS, also exclude extended attributes that cause Docker issues
-				const additionalFlags = (process.platform as string) === 'darwin' ? '--no-xattrs --no-fflags' : '';
-				const combinedFlags = `${tarFlags} ${additionalFlags}`.trim();
-				execSync(
-					`tar -cf "${toShellPath(tarFile)}" ${combinedFlags} -C "${toShellPath(os.homedir())}" .claude`,
-					{
-						stdio: 'pipe',
-					},
+				await this.putSyncArchive(container, [{
+					hostPath: 'macOS Keychain',
+					target: '.claude/.credentials.json',
+					mode: 0o600,
+					content: Buffer.from(keychainCreds),
+				}]);
+				await this.execAndWait(
+					container,
+					`sudo chown -R claude:claude ${CONTAINER_HOME}/.claude && sudo chmod 700 ${CONTAINER_HOME}/.claude`,
 				);
 
-				const stream = fs.createReadStream(tarFile);
-				await container.putArchive(stream, {
-					path: '/home/claude',
-				});
-
-				fs.unlinkSync(tarFile);
-
-				// Fix permissions recursively
-				await container
-					.exec({
-						Cmd: [
-							'/bin/bash',
-							'-c',
-							'sudo chown -R claude:claude /home/claude/.claude && chmod -R 755 /home/claude/.claude',
-						],
-						AttachStdout: false,
-						AttachStderr: false,
-					})
-					.then(exec => exec.start({}));
+				console.log(
+					chalk.green('✓ Claude Keychain credentials copied to container'),
+				);
 			}
-
-			console.log(chalk.green('✓ Claude configuration copied successfully'));
 		}
 		catch (error) {
-			console.error(
-				chalk.yellow('⚠ Failed to copy Claude configuration:'),
-				error,
+			// Keychain access failed or credentials not found - not critical
+			console.log(
+				chalk.yellow('• No Claude credentials found in macOS Keychain'),
 			);
-			// Don't throw - this is not critical for container operation
 		}
 	}
 
-	private async _copyGitConfig(container: Docker.Container): Promise<void> {
-		const gitConfigPath = path.join(os.homedir(), '.gitconfig');
-
+	// Extract files in CONTAINER_HOME through a temporary archive
+	private async putSyncArchive(container: Docker.Container, files: SyncFile[]): Promise<void> {
+		const tarFile = getTempFile('claude-config', '.tar');
 		try {
-			// Check if the git config file exists
-			if (!fs.existsSync(gitConfigPath)) {
-				return; // No git config to copy
-			}
-
-			console.log(chalk.blue('• Copying git configuration...'));
-
-			// Read the git config file
-			const configContent = fs.readFileSync(gitConfigPath, 'utf-8');
-
-			// Create a temporary tar file with the git config
-			const tarFile = getTempFile('git-config', '.tar');
-			const pack = tarStream.pack();
-
-			// Add the .gitconfig file to the tar
-			pack.entry(
-				{ name: '.gitconfig', mode: 0o644 },
-				configContent,
-				(err: any) => {
-					if (err)
-						throw err;
-					pack.finalize();
-				},
-			);
-
-			// Write the tar to a file
-			const chunks: Buffer[] = [];
-			pack.on('data', (chunk: any) => chunks.push(chunk));
-
-			await new Promise<void>((resolve, reject) => {
-				pack.on('end', () => {
-					fs.writeFileSync(tarFile, Buffer.concat(chunks));
-					resolve();
-				});
-				pack.on('error', reject);
-			});
-
-			// Copy the tar file to the container's claude user home directory
-			const stream = fs.createReadStream(tarFile);
-			await container.putArchive(stream, {
-				path: '/home/claude', // Copy to claude user's home directory
-			});
-
-			// Clean up
-			fs.unlinkSync(tarFile);
-
-			// Fix permissions on the copied file
-			const fixPermsExec = await container.exec({
-				Cmd: [
-					'/bin/bash',
-					'-c',
-					'sudo chown claude:claude /home/claude/.gitconfig',
-				],
-				AttachStdout: true,
-				AttachStderr: true,
-			});
-
-			const permStream = await fixPermsExec.start({});
-			// Consume the stream to allow it to complete
-			await new Promise<void>((resolve, reject) => {
-				permStream.on('data', () => {}); // Consume data
-				permStream.on('end', resolve);
-				permStream.on('error', reject);
-			});
-
-			console.log(chalk.green('✓ Git configuration copied successfully'));
+			await createSyncArchive(files, tarFile);
+			await container.putArchive(fs.createReadStream(tarFile), { path: CONTAINER_HOME });
 		}
-		catch (error) {
-			console.error(
-				chalk.yellow('⚠ Failed to copy git configuration:'),
-				error,
-			);
-			// Don't throw - this is not critical for container operation
+		finally {
+			fs.rmSync(tarFile, { force: true });
 		}
 	}
 
-	private async _copyOpencodeConfig(container: Docker.Container): Promise<void> {
-		try {
-			// Check if OpenCode config directory exists on host
-			const opencodeConfigDir = path.join(os.homedir(), '.config', 'opencode');
-			const opencodeConfigPath = this.config.opencodeConfigPath || path.join(opencodeConfigDir, 'opencode.json');
-
-			// Check if opencode.json exists
-			if (fs.existsSync(opencodeConfigPath)) {
-				console.log(chalk.blue('• Copying OpenCode configuration...'));
-
-				const configContent = fs.readFileSync(opencodeConfigPath, 'utf-8');
-				const tarFile = getTempFile('opencode-config', '.tar');
-				const pack = tarStream.pack();
-
-				// Add opencode.json to the tar in the correct location
-				pack.entry(
-					{ name: '.config/opencode/opencode.json', mode: 0o644 },
-					configContent,
-					(err: any) => {
-						if (err)
-							throw err;
-						pack.finalize();
-					},
-				);
-
-				const chunks: Buffer[] = [];
-				pack.on('data', (chunk: any) => chunks.push(chunk));
-
-				await new Promise<void>((resolve, reject) => {
-					pack.on('end', () => {
-						fs.writeFileSync(tarFile, Buffer.concat(chunks));
-						resolve();
-					});
-					pack.on('error', reject);
-				});
-
-				// Copy to claude user's home directory
-				const stream = fs.createReadStream(tarFile);
-				await container.putArchive(stream, {
-					path: '/home/claude',
-				});
-
-				fs.unlinkSync(tarFile);
-
-				// Fix permissions
-				await container
-					.exec({
-						Cmd: [
-							'/bin/bash',
-							'-c',
-							'sudo mkdir -p /home/claude/.config/opencode && sudo chown -R claude:claude /home/claude/.config && sudo chmod 755 /home/claude/.config /home/claude/.config/opencode && sudo chmod 644 /home/claude/.config/opencode/opencode.json',
-						],
-						AttachStdout: false,
-						AttachStderr: false,
-					})
-					.then(exec => exec.start({}));
-
-				console.log(chalk.green('✓ OpenCode configuration copied successfully'));
+	// Copy each runner's configuration files, the git configuration and the
+	// configSync files that exist on the host
+	private async _copyConfigFiles(container: Docker.Container): Promise<void> {
+		const groups: { name: string; rules: ConfigSyncRule[]; runner?: boolean }[] = [
+			...listRunners().map(runner => ({ name: runner.displayName, rules: getConfigSyncRules(runner, this.config), runner: true })),
+			{ name: 'Git', rules: [{ source: '~/.gitconfig', syncBack: false }] },
+			{ name: 'Extra', rules: this.config.configSync?.files || [] },
+		];
+
+		const roots: SyncRoot[] = [];
+		for (const group of groups) {
+			const rules = group.rules.filter(syncSourceExists);
+			if (rules.length === 0) {
+				continue;
 			}
-			else {
-				console.log(chalk.gray('• No OpenCode configuration found to copy'));
-			}
-		}
-		catch (error) {
-			console.error(
-				chalk.yellow('⚠ Failed to copy OpenCode configuration:'),
-				error,
-			);
-			// Don't throw - this is not critical for container operation
-		}
-	}
 
-	private async _copyCodexConfig(container: Docker.Container): Promise<void> {
-		try {
-			// Check if Codex config directory exists on host
-			const codexConfigDir = this.config.codexConfigPath || path.join(os.homedir(), '.codex');
-
-			if (fs.existsSync(codexConfigDir) && fs.statSync(codexConfigDir).isDirectory()) {
-				console.log(chalk.blue('• Copying Codex configuration...'));
-
-				const tarFile = getTempFile('codex-config', '.tar');
-				execSync(
-					`tar -cf "${toShellPath(tarFile)}" -C "${toShellPath(path.dirname(codexConfigDir))}" "${path.basename(codexConfigDir)}"`,
-					{ stdio: 'pipe' },
-				);
-
-				const stream = fs.createReadStream(tarFile);
-				await container.putArchive(stream, {
-					path: '/home/claude',
-				});
-
-				fs.unlinkSync(tarFile);
-
-				// Fix permissions
-				await container
-					.exec({
-						Cmd: [
-							'/bin/bash',
-							'-c',
-							'sudo chown -R claude:claude /home/claude/.codex && chmod -R 755 /home/claude/.codex',
-						],
-						AttachStdout: false,
-						AttachStderr: false,
-					})
-					.then(exec => exec.start({}));
-
-				console.log(chalk.green('✓ Codex configuration copied successfully'));
+			try {
+				console.log(chalk.blue(`• Copying ${group.name} configuration...`));
+				const resolved = rules.map(rule => ({ rule, ...resolveSyncRule(rule) }));
+				const files = resolved.flatMap(({ files }) => files);
+				if (files.length > 0) {
+					await this.putSyncArchive(container, files);
+					// The archive is extracted as root
+					const topLevel = new Set(files.map(file => shellQuote(`${CONTAINER_HOME}/${file.target.split('/')[0]}`)));
+					// Runner config is made readable (directories 755, single files 644) unless a rule sets its own mode
+					const chmods = group.runner
+						? resolved
+								.filter(({ rule, root, files: copied }) => rule.mode === undefined && !root.pattern && copied.length > 0)
+								.map(({ root, files: copied }) => {
+									const target = shellQuote(`${CONTAINER_HOME}/${root.target}`);
+									return copied[0].target === root.target ? ` && chmod 644 ${target}` : ` && chmod -R 755 ${target}`;
+								})
+						: [];
+					await this.execAndWait(container, `sudo chown -R claude:claude ${Array.from(topLevel).join(' ')}${chmods.join('')}`);
+				}
+				roots.push(...resolved.filter(({ rule }) => rule.syncBack !== false).map(({ root }) => root));
+				console.log(chalk.green(`✓ ${group.name} configuration copied successfully`));
 			}
-			else {
-				console.log(chalk.gray('• No Codex configuration found to copy'));
+			catch (error) {
+				console.error(
+					chalk.yellow(`⚠ Failed to copy ${group.name} configuration:`),
+					error,
+				);
+				// Don't throw - this is not critical for container operation
 			}
 		}
-		catch (error) {
-			console.error(
-				chalk.yellow('⚠ Failed to copy Codex configuration:'),
-				error,
-			);
-			// Don't throw - this is not critical for container operation
+
+		if (this.config.configSync?.syncBack && roots.length > 0) {
+			saveSyncManifest(container.id, roots);
 		}
 	}
 
-	private async _copyKimiConfig(container: Docker.Container): Promise<void> {
-		try {
-			// Check if Kimi Code config directory exists on host
-			const kimiConfigDir = this.config.kimiConfigPath || path.join(os.homedir(), '.kimi');
-
-			if (fs.existsSync(kimiConfigDir) && fs.statSync(kimiConfigDir).isDirectory()) {
-				console.log(chalk.blue('• Copying Kimi Code configuration...'));
-
-				const tarFile = getTempFile('kimi-config', '.tar');
-				execSync(
-					`tar -cf "${toShellPath(tarFile)}" -C "${toShellPath(path.dirname(kimiConfigDir))}" "${path.basename(kimiConfigDir)}"`,
-					{ stdio: 'pipe' },
-				);
-
-				const stream = fs.createReadStream(tarFile);
-				await container.putArchive(stream, {
-					path: '/home/claude',
-				});
+	// Install the configured runner when its command is missing, e.g. for a plugin runner
+	private async ensureRunnerInstalled(container: Docker.Container): Promise<void> {
+		const runner = getRunner(this.config.codeRunner);
+		const pathSetup = runner.pathSetup ? `${runner.pathSetup} && ` : '';
+		const command = runner.command.split(' ')[0];
+		if (await this.execAndWait(container, `${pathSetup}command -v ${command}`, 'claude') === 0) {
+			return;
+		}
 
-				fs.unlinkSync(tarFile);
-
-				// Fix permissions
-				await container
-					.exec({
-						Cmd: [
-							'/bin/bash',
-							'-c',
-							'sudo chown -R claude:claude /home/claude/.kimi && chmod -R 755 /home/claude/.kimi',
-						],
-						AttachStdout: false,
-						AttachStderr: false,
-					})
-					.then(exec => exec.start({}));
-
-				console.log(chalk.green('✓ Kimi Code configuration copied successfully'));
-			}
-			else {
-				console.log(chalk.gray('• No Kimi Code configuration found to copy'));
-			}
+		if (!runner.installCommand) {
+			console.log(chalk.yellow(`⚠ ${runner.displayName} is not installed in the image and has no installCommand`));
+			return;
 		}
-		catch (error) {
-			console.error(
-				chalk.yellow('⚠ Failed to copy Kimi Code configuration:'),
-				error,
-			);
-			// Don't throw - this is not critical for container operation
+
+		console.log(chalk.blue(`• Installing ${runner.displayName}...`));
+		// Global npm packages go into a prefix owned by root
+		const install = runner.installMethod === 'npm'
+			? `sudo bash -c ${shellQuote(runner.installCommand)}`
+			: runner.installCommand;
+		const exitCode = await this.execAndWait(container, install, 'claude');
+		if (exitCode !== 0) {
+			console.log(chalk.yellow(`⚠ Installing ${runner.displayName} failed with exit code ${exitCode}`));
+			return;
 		}
+		console.log(chalk.green(`✓ ${runner.displayName} installed`));
 	}
 
-	private async _copyQwenConfig(container: Docker.Container): Promise<void> {
-		try {
-			// Check if Qwen Code config directory exists on host
-			const qwenConfigDir = this.config.qwenConfigPath || path.join(os.homedir(), '.qwen');
-
-			if (fs.existsSync(qwenConfigDir) && fs.statSync(qwenConfigDir).isDirectory()) {
-				console.log(chalk.blue('• Copying Qwen Code configuration...'));
-
-				const tarFile = getTempFile('qwen-config', '.tar');
-				execSync(
-					`tar -cf "${toShellPath(tarFile)}" -C "${toShellPath(path.dirname(qwenConfigDir))}" "${path.basename(qwenConfigDir)}"`,
-					{ stdio: 'pipe' },
-				);
+	// Run a shell command in the container and resolve with its exit code
+	private async execAndWait(container: Docker.Container, command: string, user?: string): Promise<number> {
+		const exec = await container.exec({
+			Cmd: ['/bin/bash', '-c', command],
+			AttachStdout: true,
+			AttachStderr: true,
+			User: user,
+		});
 
-				const stream = fs.createReadStream(tarFile);
-				await container.putArchive(stream, {
-					path: '/home/claude',
-				});
+		const stream = await exec.start({});
+		await new Promise<void>((resolve, reject) => {
+			stream.on('data', () => {}); // Consume data
+			stream.on('end', resolve);
+			stream.on('error', reject);
+		});
 
-				fs.unlinkSync(tarFile);
-
-				// Fix permissions
-				await container
-					.exec({
-						Cmd: [
-							'/bin/bash',
-							'-c',
-							'sudo chown -R claude:claude /home/claude/.qwen && chmod -R 755 /home/claude/.qwen',
-						],
-						AttachStdout: false,
-						AttachStderr: false,
-					})
-					.then(exec => exec.start({}));
-
-				console.log(chalk.green('✓ Qwen Code configuration copied successfully'));
-			}
-			else {
-				console.log(chalk.gray('• No Qwen Code configuration found to copy'));
-			}
-		}
-		catch (error) {
-			console.error(
-				chalk.yellow('⚠ Failed to copy Qwen Code configuration:'),
-				error,
-			);
-			// Don't throw - this is not critical for container operation
-		}
+		const info = await exec.inspect();
+		return info.ExitCode ?? 1;
 	}
 
 	private async setupGitAndStartupScript(
@@ -1311,8 +1057,7 @@ export class ContainerManager {
 		const defaultShell = this.config.defaultShell || 'claude';
 
 		// Get the code runner configuration
-		const codeRunner: CodeRunner = this.config.codeRunner || 'claude';
-		const runnerConfig = CODE_RUNNERS[codeRunner];
+		const runnerConfig = getRunner(this.config.codeRunner);
 
 		// Generate startup script based on the code runner
 		const startupScript = this.generateStartupScript(defaultShell, runnerConfig);
@@ -1486,6 +1231,66 @@ EOF
 		}
 	}
 
+	/**
+	 * Run the configured code runner non-interactively inside the container.
+	 * Resolves with the runner's exit code once it finishes.
+	 */
+	async runHeadless(
+		containerId: string,
+		prompt: string,
+		streams: { output: NodeJS.WritableStream; errorOutput: NodeJS.WritableStream },
+		timeoutMs?: number,
+	): Promise<number> {
+		const container = this.docker.getContainer(containerId);
+		const runnerConfig = getRunner(this.config.codeRunner);
+		const promptPath = '/home/claude/.claude-run-prompt';
+
+		// Pass the prompt through a file to avoid shell quoting issues
+		const pack = tarStream.pack();
+		pack.entry({ name: path.basename(promptPath), mode: 0o600 }, prompt, (err: any) => {
+			if (err)
+				throw err;
+			pack.finalize();
+		});
+
+		const chunks: Buffer[] = [];
+		pack.on('data', (chunk: any) => chunks.push(chunk));
+		await new Promise<void>((resolve, reject) => {
+			pack.on('end', resolve);
+			pack.on('error', reject);
+		});
+		await container.putArchive(Buffer.concat(chunks), {
+			path: path.posix.dirname(promptPath),
+		});
+
+		const pathSetup = runnerConfig.pathSetup ? `${runnerConfig.pathSetup} && ` : '';
+		// `timeout` exits with HEADLESS_TIMEOUT_EXIT_CODE once the limit is reached
+		const timeout = timeoutMs ? `timeout --kill-after=30 ${Math.ceil(timeoutMs / 1000)} ` : '';
+		const cmdExec = await container.exec({
+			Cmd: [
+				'/bin/bash',
+				'-lc',
+				`sudo chown claude:claude ${promptPath} && ${pathSetup}${timeout}${runnerConfig.command} ${runnerConfig.headlessArgs} "$(cat ${promptPath})"`,
+			],
+			AttachStdout: true,
+			AttachStderr: true,
+			Tty: false,
+			WorkingDir: '/workspace',
+			User: 'claude',
+		});
+
+		const stream = await cmdExec.start({});
+		container.modem.demuxStream(stream, streams.output, streams.errorOutput);
+
+		await new Promise<void>((resolve, reject) => {
+			stream.on('end', resolve);
+			stream.on('error', reject);
+		});
+
+		const info = await cmdExec.inspect();
+		return info.ExitCode ?? 1;
+	}
+
 	// Generate startup script based on code runner configuration
 	private generateStartupScript(
 		defaultShell: string,
@@ -1498,15 +1303,14 @@ EOF
 
 		// If shell is 'bash', show welcome message with instructions for all runners
 		if (defaultShell === 'bash') {
+			const runnerList = listRunners()
+				.map(runner => `echo "  - Type '${[runner.command, runner.dangerousFlag].filter(Boolean).join(' ')}' to start ${runner.displayName}"`)
+				.join('\n');
 			return `#!/bin/bash
 ${pathSetup}
 echo "Welcome to Code Runner Sandbox!"
 echo "Available commands:"
-echo "  - Type 'claude --dangerously-skip-permissions' to start Claude Code"
-echo "  - Type 'opencode' to start OpenCode"
-echo "  - Type 'codex --dangerously-bypass-approvals-and-sandbox' to start Codex"
-echo "  - Type 'kimi --yolo' to start Kimi Code"
-echo "  - Type 'qwen --yolo' to start Qwen Code"
+${runnerList}
 echo "  - Type 'exit' to end the session"
 echo ""
 exec /bin/bash`;
@@ -1533,9 +1337,10 @@ exec /bin/bash`;
 
 	async cleanup(): Promise<void> {
 		for (const [, container] of this.containers) {
+			await this.syncConfigBack(container.id);
 			try {
 				await container.stop();
-				await container.remove();
+				await this.removeContainer(container);
 			}
 			catch (error) {
 				// Container might already be stopped
@@ -1543,4 +1348,26 @@ exec /bin/bash`;
 		}
 		this.containers.clear();
 	}
+
+	// Copy changed config files back to the host, when configSync.syncBack is on
+	private async syncConfigBack(containerId: string): Promise<void> {
+		try {
+			const copied = await syncConfigBack(this.docker, containerId);
+			if (copied > 0) {
+				console.log(chalk.green(`✓ Copied ${copied} changed config file${copied === 1 ? '' : 's'} back to the host`));
+			}
+		}
+		catch (error) {
+			console.error(chalk.yellow('⚠ Failed to copy config files back to the host:'), error);
+		}
+	}
+
+	// Remove a container along with its egress proxy sidecar, if it has one
+	private async removeContainer(container: Docker.Container): Promise<void> {
+		const gateway = await getEgressGatewayName(this.docker, container.id);
+		await container.remove();
+		if (gateway) {
+			await removeEgressGateway(this.docker, gateway);
+		}
+	}
 }
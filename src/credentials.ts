@@ -7,7 +7,7 @@ import process from 'node:process';
 import chalk from 'chalk';
 
 export class CredentialManager {
-	async discover(): Promise<Credentials> {
+	async discover(options: { quiet?: boolean } = {}): Promise<Credentials> {
 		const credentials: Credentials = {};
 
 		// Discover Claude credentials (optional)
@@ -16,11 +16,13 @@ export class CredentialManager {
 		}
 		catch {
 			// Claude credentials are optional - user can set them in the container
-			console.log(
-				chalk.yellow(
-					'No Claude credentials found on host. You can set them in the container.',
-				),
-			);
+			if (!options.quiet) {
+				console.log(
+					chalk.yellow(
+						'No Claude credentials found on host. You can set them in the container.',
+					),
+				);
+			}
 		}
 
 		// Discover GitHub credentials
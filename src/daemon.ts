@@ -0,0 +1,370 @@
+import type Docker from 'dockerode';
+import type { Buffer } from 'node:buffer';
+import type { WebUIConfig } from './types';
+import { spawn } from 'node:child_process';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import readline from 'node:readline';
+import chalk from 'chalk';
+import * as fs from 'fs-extra';
+import { findExpiredSessions, reapSession } from './session-limits';
+import { SessionStore } from './session-store';
+import { WebUIServer } from './web-server';
+
+const DAEMON_DIR = path.join(os.homedir(), '.claude-run');
+export const DAEMON_SOCKET = path.join(DAEMON_DIR, 'daemon.sock');
+export const DAEMON_LOG = path.join(DAEMON_DIR, 'daemon.log');
+// Web UI options reach the daemon through the environment so a password
+// never shows up in the process list
+export const DAEMON_WEB_UI_ENV = 'CLAUDE_RUN_WEB_UI';
+// How often sessions the daemon does not host are checked against their limits
+const REAP_INTERVAL = 60000;
+const REQUEST_TIMEOUT = 30000;
+// Stopping a session may push its branch and open a pull request first
+const STOP_TIMEOUT = 10 * 60000;
+
+// One JSON object per line in each direction
+interface DaemonRequest {
+	method: string;
+	params?: any;
+}
+
+interface DaemonMessage {
+	ok?: boolean;
+	result?: any;
+	error?: string;
+	event?: 'output';
+	data?: string;
+}
+
+/**
+ * Background process that owns the web UI server, inotify monitoring and
+ * shadow repositories for every detached session. The CLI talks to it over
+ * a Unix socket.
+ */
+export class Daemon {
+	private server?: net.Server;
+	private webServer: WebUIServer;
+	private sessionStore: SessionStore = new SessionStore();
+	private reapTimer?: NodeJS.Timeout;
+	private reaping: boolean = false;
+	constructor(private docker: Docker, private containerRuntime: string, webUI?: WebUIConfig) {
+		this.webServer = new WebUIServer(docker, containerRuntime, webUI);
+	}
+
+	async start(): Promise<void> {
+		await fs.ensureDir(DAEMON_DIR);
+
+		if (await isDaemonRunning()) {
+			throw new Error('A claude-run daemon is already running');
+		}
+		// Remove a stale socket left by a daemon that did not shut down cleanly
+		await fs.remove(DAEMON_SOCKET);
+
+		await this.webServer.start();
+
+		this.server = net.createServer(connection => this.handleConnection(connection));
+		// Create the socket owner-only, so other users can't connect before the chmod
+		const umask = process.umask(0o077);
+		try {
+			await new Promise<void>((resolve, reject) => {
+				this.server!.once('error', reject);
+				this.server!.listen(DAEMON_SOCKET, () => resolve());
+			});
+		}
+		finally {
+			process.umask(umask);
+		}
+		await fs.chmod(DAEMON_SOCKET, 0o600);
+		console.log(chalk.green(`✓ Daemon listening on ${DAEMON_SOCKET} (pid ${process.pid})`));
+
+		await this.adoptRecordedSessions();
+		this.reapTimer = setInterval(() => this.reapExpiredSessions(), REAP_INTERVAL);
+
+		process.on('SIGINT', () => this.shutdown());
+		process.on('SIGTERM', () => this.shutdown());
+	}
+
+	async shutdown(): Promise<void> {
+		console.log(chalk.yellow('Daemon shutting down...'));
+		this.server?.close();
+		clearInterval(this.reapTimer);
+		await this.webServer.stop({ keepShadowRepos: true });
+		await fs.remove(DAEMON_SOCKET);
+		process.exit(0);
+	}
+
+	/**
+	 * Pick detached sessions back up after the daemon restarts
+	 */
+	private async adoptRecordedSessions(): Promise<void> {
+		for (const record of await this.sessionStore.list()) {
+			if (!record.detached) {
+				continue;
+			}
+			try {
+				const info = await this.docker.getContainer(record.containerId).inspect();
+				if (info.State.Running) {
+					await this.webServer.adoptContainer(record.containerId);
+					console.log(chalk.blue(`• Resumed session ${record.containerId.substring(0, 12)}`));
+				}
+			}
+			catch {
+				// Container is gone; clean/purge will drop the record
+			}
+		}
+	}
+
+	/**
+	 * Stop sessions past their limits that the web UI server here does not
+	 * host, such as those left running by a foreground session that exited.
+	 * The hosted ones are checked by the web UI server itself.
+	 */
+	private async reapExpiredSessions(): Promise<void> {
+		// A final sync can take longer than the interval
+		if (this.reaping) {
+			return;
+		}
+		this.reaping = true;
+		try {
+			const hosted = new Set(this.webServer.listSessions().map(session => session.containerId));
+			const containers = await this.docker.listContainers({ filters: { label: ['com.claude.runner.workdir'] } });
+			const expired = await findExpiredSessions(containers.filter(c => !hosted.has(c.Id)), this.sessionStore);
+			for (const session of expired) {
+				await reapSession(this.docker, session, { containerRuntime: this.containerRuntime, store: this.sessionStore });
+			}
+		}
+		catch (error: any) {
+			console.error(chalk.red('✗ Could not stop expired sessions:'), error.message);
+		}
+		finally {
+			this.reaping = false;
+		}
+	}
+
+	private handleConnection(connection: net.Socket): void {
+		const lines = readline.createInterface({ input: connection });
+		const send = (message: DaemonMessage) => {
+			if (!connection.destroyed) {
+				connection.write(`${JSON.stringify(message)}\n`);
+			}
+		};
+
+		lines.on('line', async (line) => {
+			if (!line.trim()) {
+				return;
+			}
+			try {
+				const request: DaemonRequest = JSON.parse(line);
+				const result = await this.dispatch(request, connection, send);
+				if (result !== undefined) {
+					send({ ok: true, result });
+				}
+			}
+			catch (error: any) {
+				send({ ok: false, error: error.message });
+			}
+		});
+		connection.on('error', () => {
+			// Client went away
+		});
+	}
+
+	/**
+	 * Handle one request. Returning undefined keeps the connection open for
+	 * streamed events (used by `logs --follow`).
+	 */
+	private async dispatch(
+		request: DaemonRequest,
+		connection: net.Socket,
+		send: (message: DaemonMessage) => void,
+	): Promise<any> {
+		const params = request.params || {};
+
+		switch (request.method) {
+			case 'ping':
+				return { pid: process.pid, url: this.webServer.getUrl('/dashboard') };
+
+			case 'register':
+			case 'attach': {
+				const containerId = await this.resolveContainerId(params.containerId);
+				await this.sessionStore.update(containerId, { detached: true });
+				await this.webServer.adoptContainer(containerId);
+				return {
+					containerId,
+					url: this.webServer.getUrl('/', { container: containerId }),
+					viewerUrl: this.webServer.getViewerUrl(containerId),
+				};
+			}
+
+			case 'list':
+				return { url: this.webServer.getUrl('/dashboard'), sessions: this.webServer.listSessions() };
+
+			case 'logs': {
+				const containerId = await this.resolveContainerId(params.containerId);
+				const history = this.webServer.getOutputHistory(containerId);
+				if (!history) {
+					throw new Error(`Container ${containerId.substring(0, 12)} is not managed by the daemon`);
+				}
+
+				const lines = history.toString('utf-8').split('\n');
+				const tail = Number(params.tail) || lines.length;
+				send({ event: 'output', data: lines.slice(-tail).join('\n') });
+
+				if (!params.follow) {
+					return { containerId };
+				}
+
+				const onOutput = (id: string, chunk: Buffer) => {
+					if (id === containerId) {
+						send({ event: 'output', data: chunk.toString('utf-8') });
+					}
+				};
+				this.webServer.on('output', onOutput);
+				connection.on('close', () => this.webServer.off('output', onOutput));
+				return undefined;
+			}
+
+			case 'stop': {
+				const containerId = await this.resolveContainerId(params.containerId);
+				await this.webServer.publishSessionEnd(containerId);
+				const wasManaged = this.webServer.releaseContainer(containerId);
+				await this.sessionStore.update(containerId, { detached: false });
+				await this.docker.getContainer(containerId).stop();
+				return { containerId, wasManaged };
+			}
+
+			case 'shutdown':
+				setImmediate(() => this.shutdown());
+				return { pid: process.pid };
+
+			default:
+				throw new Error(`Unknown daemon request: ${request.method}`);
+		}
+	}
+
+	private async resolveContainerId(containerId: string): Promise<string> {
+		if (!containerId) {
+			throw new Error('A container ID is required');
+		}
+		const info = await this.docker.getContainer(containerId).inspect();
+		return info.Id;
+	}
+}
+
+/**
+ * Send a request to the daemon and resolve with its result. Streamed events
+ * are passed to `onEvent`; for those requests the promise only settles when
+ * the connection closes.
+ */
+export function sendDaemonRequest<T = any>(
+	method: string,
+	params?: any,
+	onEvent?: (message: DaemonMessage) => void,
+	timeout: number = method === 'stop' ? STOP_TIMEOUT : REQUEST_TIMEOUT,
+): Promise<T> {
+	return new Promise((resolve, reject) => {
+		const connection = net.createConnection(DAEMON_SOCKET);
+		let settled = false;
+		let timer: NodeJS.Timeout | undefined;
+		const finish = (error: Error | null, result?: T) => {
+			if (settled)
+				return;
+			settled = true;
+			clearTimeout(timer);
+			connection.end();
+			if (error) {
+				reject(error);
+			}
+			else {
+				resolve(result as T);
+			}
+		};
+
+		// Streaming requests stay open until the caller exits
+		timer = setTimeout(() => {
+			if (!onEvent) {
+				finish(new Error('Timed out waiting for the daemon'));
+			}
+		}, timeout);
+
+		connection.on('connect', () => {
+			connection.write(`${JSON.stringify({ method, params })}\n`);
+		});
+		connection.on('error', error => finish(error));
+		connection.on('close', () => finish(new Error('Daemon closed the connection')));
+
+		const lines = readline.createInterface({ input: connection });
+		lines.on('line', (line) => {
+			let message: DaemonMessage;
+			try {
+				message = JSON.parse(line);
+			}
+			catch {
+				return;
+			}
+			if (message.event) {
+				onEvent?.(message);
+			}
+			else if (message.ok) {
+				finish(null, message.result);
+			}
+			else {
+				finish(new Error(message.error || 'Daemon request failed'));
+			}
+		});
+	});
+}
+
+export async function isDaemonRunning(): Promise<boolean> {
+	if (!(await fs.pathExists(DAEMON_SOCKET))) {
+		return false;
+	}
+	try {
+		await sendDaemonRequest('ping', undefined, undefined, 2000);
+		return true;
+	}
+	catch {
+		return false;
+	}
+}
+
+/**
+ * Start the background daemon unless it is already running
+ */
+export async function ensureDaemon(dockerSocketPath?: string, webUI?: WebUIConfig): Promise<void> {
+	if (await isDaemonRunning()) {
+		return;
+	}
+
+	await fs.ensureDir(DAEMON_DIR);
+	const log = await fs.open(DAEMON_LOG, 'a');
+	const args = [path.join(__dirname, 'cli.js'), 'daemon'];
+	if (dockerSocketPath) {
+		args.push('--docker-socket', dockerSocketPath);
+	}
+
+	const child = spawn(process.execPath, args, {
+		cwd: os.homedir(),
+		detached: true,
+		stdio: ['ignore', log, log],
+		env: { ...process.env, [DAEMON_WEB_UI_ENV]: JSON.stringify(webUI || {}) },
+	});
+	child.unref();
+	await fs.close(log);
+
+	console.log(chalk.blue(`• Starting claude-run daemon (pid ${child.pid})...`));
+
+	// Wait for the socket to accept requests
+	const deadline = Date.now() + 15000;
+	while (Date.now() < deadline) {
+		if (await isDaemonRunning()) {
+			console.log(chalk.green('✓ Daemon started'));
+			return;
+		}
+		await new Promise(resolve => setTimeout(resolve, 250));
+	}
+	throw new Error(`Daemon did not start, see ${DAEMON_LOG}`);
+}
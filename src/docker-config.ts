@@ -1,6 +1,7 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import process from 'node:process';
+import Docker from 'dockerode';
 
 interface DockerConfig {
 	socketPath?: string;
@@ -70,3 +71,21 @@ export function getContainerRuntimeCmd(customSocketPath?: string): string {
 	const config = getDockerConfig(customSocketPath);
 	return isPodman(config) ? 'podman' : 'docker';
 }
+
+/**
+ * Checks that the Docker or Podman daemon answers on the detected socket
+ */
+export async function pingContainerRuntime(customSocketPath?: string): Promise<{ runtime: string; socketPath?: string; error?: string }> {
+	const config = getDockerConfig(customSocketPath);
+	const runtime = isPodman(config) ? 'Podman' : 'Docker';
+	try {
+		await Promise.race([
+			new Docker(config).ping(),
+			new Promise((_, reject) => setTimeout(() => reject(new Error('timed out')), 5000).unref()),
+		]);
+		return { runtime, socketPath: config.socketPath };
+	}
+	catch (error: any) {
+		return { runtime, socketPath: config.socketPath, error: error.message };
+	}
+}
@@ -0,0 +1,265 @@
+import type { SandboxConfig } from './types';
+import { execSync } from 'node:child_process';
+import fs from 'node:fs';
+import process from 'node:process';
+import chalk from 'chalk';
+import Docker from 'dockerode';
+import { checkConfigFile, getConfigFiles, loadConfig } from './config';
+import { formatConfigIssue } from './config-schema';
+import { getDockerfilePath, getImageName, getTarFlags } from './container';
+import { CredentialManager } from './credentials';
+import { getContainerRuntimeCmd, getDockerConfig, pingContainerRuntime } from './docker-config';
+import { getRunner, hasRunnerCredentials } from './runners';
+
+export type DoctorStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface DoctorCheck {
+	id: string;
+	title: string;
+	status: DoctorStatus;
+	detail: string;
+	hint?: string; // How to fix a warning or failure
+}
+
+// Below these, watching a large workspace runs out of inotify watches or instances
+const MIN_INOTIFY_WATCHES = 16384;
+const MIN_INOTIFY_INSTANCES = 128;
+
+function run(command: string): string | undefined {
+	try {
+		return execSync(command, { encoding: 'utf-8', stdio: 'pipe' }).trim();
+	}
+	catch {
+		return undefined;
+	}
+}
+
+function hasCommand(command: string): boolean {
+	return run(`command -v ${command}`) !== undefined;
+}
+
+async function checkConfig(configPath?: string): Promise<{ check: DoctorCheck; config: SandboxConfig }> {
+	const found: string[] = [];
+	const problems: string[] = [];
+	let status: DoctorStatus = 'pass';
+	for (const { filePath } of await getConfigFiles(configPath)) {
+		const result = await checkConfigFile(filePath);
+		if (!result) {
+			continue;
+		}
+		found.push(filePath);
+		for (const issue of result.issues) {
+			problems.push(formatConfigIssue(filePath, issue));
+			if (issue.severity === 'error') {
+				status = 'fail';
+			}
+			else if (status === 'pass') {
+				status = 'warn';
+			}
+		}
+	}
+
+	let config: SandboxConfig = {};
+	if (status !== 'fail') {
+		config = await loadConfig(configPath);
+	}
+	return {
+		config,
+		check: {
+			id: 'config',
+			title: 'Configuration',
+			status,
+			detail: problems.length > 0
+				? problems.join('\n')
+				: found.length > 0 ? `Valid: ${found.join(', ')}` : 'No config files; using defaults',
+			hint: status === 'pass' ? undefined : 'Fix the listed problems; `claude-run config validate` checks again',
+		},
+	};
+}
+
+async function checkRuntime(config: SandboxConfig): Promise<DoctorCheck> {
+	const { runtime, socketPath, error } = await pingContainerRuntime(config.dockerSocketPath);
+	const location = socketPath ? ` at ${socketPath}` : process.env.DOCKER_HOST ? ` at ${process.env.DOCKER_HOST}` : '';
+	if (!error) {
+		return { id: 'runtime', title: 'Container runtime', status: 'pass', detail: `${runtime} is reachable${location}` };
+	}
+	return {
+		id: 'runtime',
+		title: 'Container runtime',
+		status: 'fail',
+		detail: socketPath ? `${runtime} did not answer${location}: ${error}` : `No Docker or Podman socket found: ${error}`,
+		hint: 'Start Docker, or for rootless Podman run `systemctl --user enable --now podman.socket`. Set dockerSocketPath or DOCKER_HOST for other locations',
+	};
+}
+
+async function checkImage(config: SandboxConfig, runtimeReachable: boolean): Promise<DoctorCheck> {
+	const imageName = getImageName(config);
+	const check = { id: 'image', title: 'Image' };
+	if (!runtimeReachable) {
+		return { ...check, status: 'skip', detail: `Cannot inspect ${imageName} without a container runtime` };
+	}
+
+	let created: Date;
+	try {
+		const image = await new Docker(getDockerConfig(config.dockerSocketPath)).getImage(imageName).inspect();
+		created = new Date(image.Created);
+	}
+	catch {
+		return {
+			...check,
+			status: 'warn',
+			detail: `${imageName} is not present`,
+			hint: config.buildImage === false
+				? 'It is pulled when the first session starts'
+				: 'It is built when the first session starts, which takes a few minutes',
+		};
+	}
+
+	// A Dockerfile changed since the build, e.g. by updating claude-run, means the image is out of date
+	const dockerfile = getDockerfilePath(config);
+	const modified = dockerfile && fs.statSync(dockerfile, { throwIfNoEntry: false })?.mtime;
+	if (modified && modified > created) {
+		return {
+			...check,
+			status: 'warn',
+			detail: `${imageName} was built ${created.toISOString()}, before ${dockerfile} last changed`,
+			hint: `Remove it to rebuild on the next start: ${getContainerRuntimeCmd(config.dockerSocketPath)} rmi ${imageName}`,
+		};
+	}
+	return { ...check, status: 'pass', detail: `${imageName} (built ${created.toISOString()})` };
+}
+
+async function checkCredentials(config: SandboxConfig): Promise<DoctorCheck> {
+	const runner = getRunner(config.codeRunner);
+	const check = { id: 'credentials', title: `${runner.displayName} credentials` };
+	if (runner.name === 'claude') {
+		const credentials = await new CredentialManager().discover({ quiet: true });
+		if (credentials.claude) {
+			return { ...check, status: 'pass', detail: `Found ${credentials.claude.type.replace('_', ' ')} credentials` };
+		}
+	}
+	if (hasRunnerCredentials(runner)) {
+		return { ...check, status: 'pass', detail: 'Found a config file or credential variable' };
+	}
+
+	const sources = [
+		...(runner.requiredEnv || []),
+		...(runner.configFiles || []).map(rule => rule.source),
+	];
+	return {
+		...check,
+		status: 'warn',
+		detail: 'No credentials found on the host',
+		hint: sources.length > 0
+			? `Set or create one of: ${sources.join(', ')}; or sign in inside the container`
+			: 'Sign in inside the container',
+	};
+}
+
+function checkGitHub(): DoctorCheck {
+	const check = { id: 'github', title: 'GitHub CLI' };
+	const variable = ['GITHUB_TOKEN', 'GH_TOKEN'].find(name => process.env[name]);
+	if (variable) {
+		return { ...check, status: 'pass', detail: `Using ${variable}` };
+	}
+	if (!hasCommand('gh')) {
+		return { ...check, status: 'warn', detail: 'gh is not installed and no GITHUB_TOKEN is set', hint: 'Install the GitHub CLI (https://cli.github.com) to push and open pull requests' };
+	}
+	if (!run('gh auth token')) {
+		return { ...check, status: 'warn', detail: 'gh is not signed in', hint: 'Run `gh auth login`' };
+	}
+	return { ...check, status: 'pass', detail: 'gh is signed in' };
+}
+
+function checkGitRemote(): DoctorCheck {
+	const check = { id: 'git', title: 'Git repository' };
+	if (run('git rev-parse --is-inside-work-tree') !== 'true') {
+		return { ...check, status: 'warn', detail: 'The current directory is not a git repository', hint: 'Run `git init`, or start claude-run inside your project' };
+	}
+	const remote = run('git remote get-url origin');
+	if (!remote) {
+		return { ...check, status: 'warn', detail: 'No origin remote; changes cannot be pushed', hint: 'git remote add origin <your-repo-url>' };
+	}
+	return { ...check, status: 'pass', detail: `origin is ${remote}` };
+}
+
+function checkTar(): DoctorCheck {
+	const check = { id: 'tar', title: 'tar' };
+	if (getTarFlags()) {
+		return { ...check, status: 'pass', detail: 'Supports --no-xattrs' };
+	}
+	// Extended attributes only cause trouble with files coming from macOS
+	return process.platform === 'darwin'
+		? { ...check, status: 'warn', detail: 'This tar does not support --no-xattrs; extended attributes end up in the container', hint: 'Install GNU tar or a newer bsdtar' }
+		: { ...check, status: 'pass', detail: 'No --no-xattrs support, which only matters on macOS' };
+}
+
+function checkRsync(): DoctorCheck {
+	const check = { id: 'rsync', title: 'rsync' };
+	return hasCommand('rsync')
+		? { ...check, status: 'pass', detail: 'Available for syncing changes to the shadow repository' }
+		: { ...check, status: 'warn', detail: 'Not installed; changes are copied with cp, which only honours directory excludes', hint: 'Install rsync with your package manager' };
+}
+
+function checkInotify(): DoctorCheck {
+	const check = { id: 'inotify', title: 'inotify limits' };
+	if (process.platform !== 'linux') {
+		return { ...check, status: 'skip', detail: 'Only applies to Linux hosts' };
+	}
+	const read = (name: string) => Number(run(`cat /proc/sys/fs/inotify/${name}`));
+	const watches = read('max_user_watches');
+	const instances = read('max_user_instances');
+	if (watches >= MIN_INOTIFY_WATCHES && instances >= MIN_INOTIFY_INSTANCES) {
+		return { ...check, status: 'pass', detail: `${watches} watches, ${instances} instances` };
+	}
+	return {
+		...check,
+		status: 'warn',
+		detail: `${watches} watches, ${instances} instances; the file monitor may fall back to polling`,
+		hint: `sudo sysctl fs.inotify.max_user_watches=524288 fs.inotify.max_user_instances=${Math.max(instances, 512)}`,
+	};
+}
+
+/**
+ * Run every environment probe claude-run depends on
+ */
+export async function runDoctor(configPath?: string): Promise<DoctorCheck[]> {
+	const { check: configCheck, config } = await checkConfig(configPath);
+	const runtimeCheck = await checkRuntime(config);
+	return [
+		configCheck,
+		runtimeCheck,
+		await checkImage(config, runtimeCheck.status === 'pass'),
+		await checkCredentials(config),
+		checkGitHub(),
+		checkGitRemote(),
+		checkTar(),
+		checkRsync(),
+		checkInotify(),
+	];
+}
+
+const STATUS_SYMBOLS: Record<DoctorStatus, string> = {
+	pass: chalk.green('✓'),
+	warn: chalk.yellow('⚠'),
+	fail: chalk.red('✗'),
+	skip: chalk.gray('•'),
+};
+
+export function printDoctorReport(checks: DoctorCheck[]): void {
+	const width = Math.max(...checks.map(check => check.title.length));
+	for (const check of checks) {
+		const [first, ...rest] = check.detail.split('\n');
+		console.log(`${STATUS_SYMBOLS[check.status]} ${check.title.padEnd(width)}  ${first}`);
+		for (const line of rest) {
+			console.log(`  ${' '.repeat(width)}  ${line}`);
+		}
+		if (check.hint) {
+			console.log(chalk.gray(`  ${' '.repeat(width)}  → ${check.hint}`));
+		}
+	}
+
+	const count = (status: DoctorStatus) => checks.filter(check => check.status === status).length;
+	console.log('');
+	console.log(`${count('pass')} passed, ${count('warn')} warnings, ${count('fail')} failed`);
+}
@@ -0,0 +1,98 @@
+/**
+ * HTTP(S) proxy run inside the egress sidecar container. It is copied into
+ * the sidecar on its own, so it may only use Node built-ins.
+ *
+ * Requests to hosts outside EGRESS_ALLOWED_DOMAINS are refused and logged to
+ * stdout as JSON lines, which the web UI follows.
+ */
+import http from 'node:http';
+import net from 'node:net';
+import process from 'node:process';
+
+export const EGRESS_PROXY_PORT = 3128;
+
+export function isDomainAllowed(host: string, allowedDomains: string[]): boolean {
+	const hostname = host.toLowerCase().replace(/\.$/, '');
+	return allowedDomains.some((domain) => {
+		const pattern = domain.toLowerCase().replace(/^\*\./, '');
+		return hostname === pattern || hostname.endsWith(`.${pattern}`);
+	});
+}
+
+function log(event: 'started' | 'blocked', details: Record<string, unknown>): void {
+	process.stdout.write(`${JSON.stringify({ event, time: new Date().toISOString(), ...details })}\n`);
+}
+
+export function startEgressProxy(allowedDomains: string[], port: number = EGRESS_PROXY_PORT): http.Server {
+	const server = http.createServer((req, res) => {
+		// Plain HTTP: the request line carries the absolute URL
+		let target: URL;
+		try {
+			target = new URL(req.url || '');
+		}
+		catch {
+			res.writeHead(400).end('Bad proxy request\n');
+			return;
+		}
+		// Anything else would make http.request throw; HTTPS goes through CONNECT
+		if (target.protocol !== 'http:') {
+			res.writeHead(400).end(`Unsupported proxy protocol: ${target.protocol}\n`);
+			return;
+		}
+
+		if (!isDomainAllowed(target.hostname, allowedDomains)) {
+			log('blocked', { host: target.hostname, port: Number(target.port) || 80, method: req.method });
+			res.writeHead(403).end(`Blocked by the claude-run network policy: ${target.hostname}\n`);
+			return;
+		}
+
+		const upstream = http.request(target, { method: req.method, headers: req.headers }, (upstreamRes) => {
+			res.writeHead(upstreamRes.statusCode || 502, upstreamRes.headers);
+			upstreamRes.pipe(res);
+		});
+		upstream.on('error', () => {
+			if (!res.headersSent) {
+				res.writeHead(502).end();
+			}
+			else {
+				res.destroy();
+			}
+		});
+		req.pipe(upstream);
+	});
+
+	// HTTPS: tunnel the TLS stream without looking into it
+	server.on('connect', (req, clientSocket: net.Socket, head) => {
+		// host:port, with IPv6 literals in brackets ([::1]:443)
+		const authority = req.url || '';
+		const separator = authority.lastIndexOf(':');
+		const host = (separator === -1 ? authority : authority.substring(0, separator)).replace(/^\[(.*)\]$/, '$1');
+		const targetPort = Number(separator === -1 ? '' : authority.substring(separator + 1)) || 443;
+
+		if (!host || !isDomainAllowed(host, allowedDomains)) {
+			log('blocked', { host, port: targetPort, method: 'CONNECT' });
+			clientSocket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+			return;
+		}
+
+		const upstream = net.connect(targetPort, host, () => {
+			clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+			upstream.write(head);
+			upstream.pipe(clientSocket);
+			clientSocket.pipe(upstream);
+		});
+		upstream.on('error', () => clientSocket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n'));
+		clientSocket.on('error', () => upstream.destroy());
+	});
+
+	server.listen(port, () => log('started', { port, allowedDomains }));
+	return server;
+}
+
+if (require.main === module) {
+	const allowedDomains = (process.env.EGRESS_ALLOWED_DOMAINS || '')
+		.split(',')
+		.map(domain => domain.trim())
+		.filter(Boolean);
+	startEgressProxy(allowedDomains);
+}
@@ -0,0 +1,388 @@
+import type { ForgeConfig, ForgeType } from './types';
+import { execFile } from 'node:child_process';
+import process from 'node:process';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+// Merge requests on GitLab are called pull requests here too
+export interface PullRequest {
+	number: number;
+	title: string;
+	state: 'OPEN' | 'CLOSED' | 'MERGED';
+	url: string;
+	isDraft: boolean;
+	branch: string; // Source branch
+}
+
+export interface NewPullRequest {
+	branch: string;
+	title: string;
+	body: string;
+	draft?: boolean;
+	reviewers?: string[];
+	labels?: string[];
+}
+
+/**
+ * The service hosting a repository's origin remote
+ */
+export interface Forge {
+	readonly type: ForgeType;
+	readonly repoUrl: string; // Web page of the repository
+	getPullRequest: (number: string) => Promise<PullRequest>;
+	getPullRequestRef: (pullRequest: PullRequest) => string; // Ref to fetch from origin for its changes
+	listPullRequests: (branch: string) => Promise<PullRequest[]>; // Open pull requests from the branch
+	createPullRequest: (options: NewPullRequest) => Promise<string>; // Returns its URL
+	getBranchUrl: (branch: string) => string;
+}
+
+interface RemoteLocation {
+	host: string;
+	webUrl: string; // e.g. https://gitlab.example.com
+	path: string; // e.g. group/project, without .git
+}
+
+/**
+ * Where an origin URL points, for scp-like, ssh:// and http(s):// remotes
+ */
+export function parseRemoteUrl(url: string): RemoteLocation | undefined {
+	const scpLike = url.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/);
+	if (scpLike) {
+		return { host: scpLike[1], webUrl: `https://${scpLike[1]}`, path: trimRepoPath(scpLike[2]) };
+	}
+
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	}
+	catch {
+		return undefined;
+	}
+	if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
+		return { host: parsed.hostname, webUrl: `${parsed.protocol}//${parsed.host}`, path: trimRepoPath(parsed.pathname) };
+	}
+	if (['ssh:', 'git+ssh:', 'git:'].includes(parsed.protocol)) {
+		return { host: parsed.hostname, webUrl: `https://${parsed.hostname}`, path: trimRepoPath(parsed.pathname) };
+	}
+	return undefined; // Local paths and file:// remotes
+}
+
+function trimRepoPath(path: string): string {
+	return path.replace(/^\/+/, '').replace(/\/+$/, '').replace(/\.git$/, '');
+}
+
+// A branch name as a URL path, keeping the slashes in names like claude/fix
+function encodeBranch(branch: string): string {
+	return branch.split('/').map(encodeURIComponent).join('/');
+}
+
+function detectForgeType(host: string): ForgeType | undefined {
+	if (host === 'github.com') {
+		return 'github';
+	}
+	if (host.includes('gitlab')) {
+		return 'gitlab';
+	}
+	if (host === 'codeberg.org' || host.includes('gitea') || host.includes('forgejo')) {
+		return 'gitea';
+	}
+	return undefined;
+}
+
+/**
+ * The forge hosting `repoPath`'s origin remote. It is detected from the
+ * remote URL unless `config.type` is set; remotes on unknown hosts are
+ * treated as GitHub. Returns undefined when there is no origin remote.
+ */
+export async function detectForge(repoPath: string, config: ForgeConfig = {}): Promise<Forge | undefined> {
+	let remoteUrl: string;
+	try {
+		const { stdout } = await execFileAsync('git', ['remote', 'get-url', 'origin'], { cwd: repoPath });
+		remoteUrl = stdout.trim();
+	}
+	catch {
+		return undefined;
+	}
+
+	const remote = parseRemoteUrl(remoteUrl);
+	if (!remote) {
+		return undefined;
+	}
+	if (config.url) {
+		// A forge served under a path, e.g. https://example.com/git, has that path in its remote URLs too
+		const base = new URL(config.url);
+		const prefix = trimRepoPath(base.pathname);
+		remote.webUrl = `${base.protocol}//${base.host}${prefix ? `/${prefix}` : ''}`;
+		if (prefix && remote.path.startsWith(`${prefix}/`)) {
+			remote.path = remote.path.slice(prefix.length + 1);
+		}
+	}
+
+	switch (config.type || detectForgeType(remote.host) || 'github') {
+		case 'gitlab':
+			return new GitLabForge(remote);
+		case 'gitea':
+			return new GiteaForge(remote);
+		default:
+			return new GitHubForge(remote, repoPath);
+	}
+}
+
+/**
+ * GitHub, through the gh CLI so its sign-in and GitHub Enterprise hosts are used
+ */
+class GitHubForge implements Forge {
+	readonly type = 'github';
+	readonly repoUrl: string;
+
+	constructor(remote: RemoteLocation, private repoPath: string) {
+		this.repoUrl = `${remote.webUrl}/${remote.path}`;
+	}
+
+	private async gh(...args: string[]): Promise<string> {
+		const { stdout } = await execFileAsync('gh', args, { cwd: this.repoPath });
+		return stdout;
+	}
+
+	private toPullRequest(pr: any): PullRequest {
+		return {
+			number: pr.number,
+			title: pr.title,
+			state: pr.state,
+			url: pr.url,
+			isDraft: pr.isDraft,
+			branch: pr.headRefName,
+		};
+	}
+
+	async getPullRequest(number: string): Promise<PullRequest> {
+		return this.toPullRequest(JSON.parse(await this.gh('pr', 'view', number, '--json', 'number,title,state,url,isDraft,headRefName')));
+	}
+
+	getPullRequestRef(pullRequest: PullRequest): string {
+		return `pull/${pullRequest.number}/head`;
+	}
+
+	async listPullRequests(branch: string): Promise<PullRequest[]> {
+		const output = await this.gh('pr', 'list', '--head', branch, '--json', 'number,title,state,url,isDraft,headRefName');
+		return JSON.parse(output || '[]').map((pr: any) => this.toPullRequest(pr));
+	}
+
+	async createPullRequest(options: NewPullRequest): Promise<string> {
+		const args = ['pr', 'create', '--head', options.branch, '--title', options.title, '--body', options.body];
+		if (options.draft) {
+			args.push('--draft');
+		}
+		for (const reviewer of options.reviewers || []) {
+			args.push('--reviewer', reviewer);
+		}
+		for (const label of options.labels || []) {
+			args.push('--label', label);
+		}
+		return (await this.gh(...args)).trim();
+	}
+
+	getBranchUrl(branch: string): string {
+		return `${this.repoUrl}/tree/${encodeBranch(branch)}`;
+	}
+}
+
+/**
+ * Forges reached through their REST API with a token from the environment
+ */
+abstract class ApiForge {
+	readonly repoUrl: string;
+
+	constructor(protected remote: RemoteLocation) {
+		this.repoUrl = `${remote.webUrl}/${remote.path}`;
+	}
+
+	protected abstract apiUrl: string;
+	protected abstract tokenVariables: string[];
+	protected abstract authHeader(token: string): Record<string, string>;
+
+	protected async api(path: string, options: { method?: string; body?: any } = {}): Promise<any> {
+		const variable = this.tokenVariables.find(name => process.env[name]);
+		const response = await fetch(`${this.apiUrl}${path}`, {
+			method: options.method || 'GET',
+			headers: {
+				'Accept': 'application/json',
+				'Content-Type': 'application/json',
+				...(variable ? this.authHeader(process.env[variable]!) : {}),
+			},
+			body: options.body === undefined ? undefined : JSON.stringify(options.body),
+		});
+		if (!response.ok) {
+			const detail = (await response.text()).trim();
+			const hint = !variable && (response.status === 401 || response.status === 404)
+				? ` (set ${this.tokenVariables[0]} to sign in)`
+				: '';
+			throw new Error(`${options.method || 'GET'} ${this.apiUrl}${path} returned ${response.status}${hint}${detail ? `: ${detail}` : ''}`);
+		}
+		return response.status === 204 ? undefined : response.json();
+	}
+}
+
+class GitLabForge extends ApiForge implements Forge {
+	readonly type = 'gitlab';
+	protected apiUrl = `${this.remote.webUrl}/api/v4`;
+	protected tokenVariables = ['GITLAB_TOKEN'];
+
+	private get project(): string {
+		return `/projects/${encodeURIComponent(this.remote.path)}`;
+	}
+
+	protected authHeader(token: string): Record<string, string> {
+		return { 'PRIVATE-TOKEN': token };
+	}
+
+	private toPullRequest(mr: any): PullRequest {
+		const states: Record<string, PullRequest['state']> = { merged: 'MERGED', closed: 'CLOSED', locked: 'CLOSED' };
+		return {
+			number: mr.iid,
+			title: mr.title,
+			state: states[mr.state] || 'OPEN',
+			url: mr.web_url,
+			isDraft: !!(mr.draft ?? mr.work_in_progress),
+			branch: mr.source_branch,
+		};
+	}
+
+	async getPullRequest(number: string): Promise<PullRequest> {
+		return this.toPullRequest(await this.api(`${this.project}/merge_requests/${number}`));
+	}
+
+	getPullRequestRef(pullRequest: PullRequest): string {
+		return `merge-requests/${pullRequest.number}/head`;
+	}
+
+	async listPullRequests(branch: string): Promise<PullRequest[]> {
+		const mrs = await this.api(`${this.project}/merge_requests?state=opened&source_branch=${encodeURIComponent(branch)}`);
+		return mrs.map((mr: any) => this.toPullRequest(mr));
+	}
+
+	async createPullRequest(options: NewPullRequest): Promise<string> {
+		const project = await this.api(this.project);
+
+		// Reviewers are given by username, the API takes user IDs
+		const reviewerIds = [];
+		for (const username of options.reviewers || []) {
+			const [user] = await this.api(`/users?username=${encodeURIComponent(username)}`);
+			if (!user) {
+				throw new Error(`GitLab user ${username} not found`);
+			}
+			reviewerIds.push(user.id);
+		}
+
+		const mr = await this.api(`${this.project}/merge_requests`, {
+			method: 'POST',
+			body: {
+				source_branch: options.branch,
+				target_branch: project.default_branch,
+				title: options.draft ? `Draft: ${options.title}` : options.title,
+				description: options.body,
+				labels: (options.labels || []).join(','),
+				reviewer_ids: reviewerIds,
+			},
+		});
+		return mr.web_url;
+	}
+
+	getBranchUrl(branch: string): string {
+		return `${this.repoUrl}/-/tree/${encodeBranch(branch)}`;
+	}
+}
+
+/**
+ * Gitea and Forgejo, which share an API
+ */
+class GiteaForge extends ApiForge implements Forge {
+	readonly type = 'gitea';
+	protected apiUrl = `${this.remote.webUrl}/api/v1`;
+	protected tokenVariables = ['GITEA_TOKEN', 'FORGEJO_TOKEN'];
+
+	private get repo(): string {
+		return `/repos/${this.remote.path}`;
+	}
+
+	protected authHeader(token: string): Record<string, string> {
+		return { Authorization: `token ${token}` };
+	}
+
+	private toPullRequest(pr: any): PullRequest {
+		return {
+			number: pr.number,
+			title: pr.title,
+			state: pr.merged ? 'MERGED' : pr.state === 'closed' ? 'CLOSED' : 'OPEN',
+			url: pr.html_url,
+			isDraft: !!pr.draft || /^(?:WIP|Draft):/i.test(pr.title),
+			branch: pr.head.ref,
+		};
+	}
+
+	async getPullRequest(number: string): Promise<PullRequest> {
+		return this.toPullRequest(await this.api(`${this.repo}/pulls/${number}`));
+	}
+
+	getPullRequestRef(pullRequest: PullRequest): string {
+		return `pull/${pullRequest.number}/head`;
+	}
+
+	// Every page of a list; the server may cap the page size below the limit asked for
+	private async listAll(path: string): Promise<any[]> {
+		const items: any[] = [];
+		for (let page = 1; ; page++) {
+			const batch = await this.api(`${path}${path.includes('?') ? '&' : '?'}limit=50&page=${page}`);
+			if (!batch.length) {
+				return items;
+			}
+			items.push(...batch);
+		}
+	}
+
+	async listPullRequests(branch: string): Promise<PullRequest[]> {
+		// The list cannot be filtered by head branch
+		const prs = await this.listAll(`${this.repo}/pulls?state=open`);
+		return prs.map((pr: any) => this.toPullRequest(pr)).filter((pr: PullRequest) => pr.branch === branch);
+	}
+
+	async createPullRequest(options: NewPullRequest): Promise<string> {
+		const repo = await this.api(this.repo);
+
+		// Labels are given by name, the API takes label IDs
+		let labelIds: number[] = [];
+		if (options.labels?.length) {
+			const labels = await this.listAll(`${this.repo}/labels`);
+			labelIds = options.labels.map((name) => {
+				const label = labels.find((l: any) => l.name === name);
+				if (!label) {
+					throw new Error(`Label ${name} not found in ${this.remote.path}`);
+				}
+				return label.id;
+			});
+		}
+
+		const pr = await this.api(`${this.repo}/pulls`, {
+			method: 'POST',
+			body: {
+				head: options.branch,
+				base: repo.default_branch,
+				title: options.draft ? `WIP: ${options.title}` : options.title,
+				body: options.body,
+				labels: labelIds,
+			},
+		});
+		if (options.reviewers?.length) {
+			await this.api(`${this.repo}/pulls/${pr.number}/requested_reviewers`, {
+				method: 'POST',
+				body: { reviewers: options.reviewers },
+			});
+		}
+		return pr.html_url;
+	}
+
+	getBranchUrl(branch: string): string {
+		return `${this.repoUrl}/src/branch/${encodeBranch(branch)}`;
+	}
+}
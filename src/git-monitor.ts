@@ -1,76 +1,135 @@
-import type { SimpleGit } from 'simple-git';
+import type Docker from 'dockerode';
+import type { ContainerWatch } from './inotify';
 import type { CommitInfo } from './types';
+import { execFile } from 'node:child_process';
 import { EventEmitter } from 'node:events';
-import path from 'node:path';
-import process from 'node:process';
-import chokidar from 'chokidar';
+import { promisify } from 'node:util';
+import chalk from 'chalk';
+import { ensureInotifyTools, watchInContainer } from './inotify';
 
+const execFileAsync = promisify(execFile);
+
+// More commits than this at once (e.g. a rebase) are reported as the newest ones only
+const MAX_REPORTED_COMMITS = 20;
+
+/**
+ * Watch the repository inside a container and emit a `commit` event with the
+ * CommitInfo of every commit the runner makes
+ */
 export class GitMonitor extends EventEmitter {
-	private git: SimpleGit;
-	private watcher: chokidar.FSWatcher | null = null;
-	private lastCommitHash: string = '';
+	private containerId = '';
+	private watch: ContainerWatch | null = null;
+	private pollTimer: NodeJS.Timeout | null = null;
+	private checkTimer: NodeJS.Timeout | null = null;
+	private lastCommitHash = '';
 	private monitoring = false;
 
-	constructor(git: SimpleGit) {
+	constructor(
+		private docker: Docker,
+		private containerCmd: string, // 'docker' or 'podman'
+		private workspace: string = '/workspace',
+	) {
 		super();
-		this.git = git;
 	}
 
-	async start(_branchName: string): Promise<void> {
+	async start(containerId: string): Promise<void> {
+		this.containerId = containerId;
 		this.monitoring = true;
+		this.lastCommitHash = await this.getHead();
 
-		// Get initial commit hash
-		const log = await this.git.log({ maxCount: 1 });
-		this.lastCommitHash = log.latest?.hash || '';
+		if (!(await ensureInotifyTools(this.containerCmd, containerId))) {
+			this.startPolling();
+			return;
+		}
 
-		// Only watch if we're monitoring the host (for now we'll disable this)
-		// TODO: This should watch the container's git directory instead
-		console.log(
-			'Note: Git monitoring is currently disabled for container isolation',
+		// Branch refs change on commit; logs/HEAD also catches commits on a detached HEAD
+		const gitDir = `${this.workspace}/.git`;
+		this.watch = await watchInContainer(
+			this.docker,
+			containerId,
+			`mkdir -p ${gitDir}/logs && touch ${gitDir}/logs/HEAD && inotifywait -m -r -e modify,create,moved_to --format '%w%f %e' ${gitDir}/refs/heads ${gitDir}/logs/HEAD`,
+			() => this.scheduleCheck(),
+			(reason) => {
+				this.watch = null;
+				if (this.monitoring) {
+					console.log(chalk.yellow(`[GIT] Commit watch ${reason}, falling back to polling`));
+					this.startPolling();
+				}
+			},
 		);
-		return;
-
-		// Watch .git directory for changes
-		const gitDir = path.join(process.cwd(), '.git');
-		this.watcher = chokidar.watch(gitDir, {
-			persistent: true,
-			ignoreInitial: true,
-			depth: 2,
-		});
-
-		this.watcher!.on('change', async (filepath) => {
-			if (!this.monitoring)
-				return;
-
-			// Check if there's a new commit
-			if (filepath.includes('refs/heads') || filepath.includes('logs/HEAD')) {
-				await this.checkForNewCommit();
-			}
-		});
-
-		// Also poll periodically as backup
-		this.startPolling();
 	}
 
 	async stop(): Promise<void> {
 		this.monitoring = false;
-		if (this.watcher) {
-			await this.watcher.close();
-			this.watcher = null;
+		if (this.pollTimer) {
+			clearInterval(this.pollTimer);
+			this.pollTimer = null;
+		}
+		if (this.checkTimer) {
+			clearTimeout(this.checkTimer);
+			this.checkTimer = null;
+		}
+		if (this.watch) {
+			const { stream } = this.watch;
+			this.watch = null;
+			stream.destroy?.();
 		}
 	}
 
-	private async checkForNewCommit(): Promise<void> {
+	/**
+	 * The diff a commit introduced
+	 */
+	async getCommitDiff(hash: string): Promise<string> {
+		return this.git('show', '--format=', '--root', hash);
+	}
+
+	private async git(...args: string[]): Promise<string> {
+		const { stdout } = await execFileAsync(
+			this.containerCmd,
+			['exec', this.containerId, 'git', '-C', this.workspace, ...args],
+			{ maxBuffer: 10 * 1024 * 1024 },
+		);
+		return stdout;
+	}
+
+	private async getHead(): Promise<string> {
 		try {
-			const log = await this.git.log({ maxCount: 1 });
-			const latestHash = log.latest?.hash || '';
+			return (await this.git('rev-parse', '--verify', '--quiet', 'HEAD')).trim();
+		}
+		catch {
+			// No commits yet
+			return '';
+		}
+	}
 
-			if (latestHash && latestHash !== this.lastCommitHash) {
-				this.lastCommitHash = latestHash;
+	// A commit writes several files; check once they have settled
+	private scheduleCheck(): void {
+		if (this.checkTimer) {
+			clearTimeout(this.checkTimer);
+		}
+		this.checkTimer = setTimeout(() => {
+			this.checkTimer = null;
+			this.checkForNewCommit();
+		}, 300);
+	}
 
-				// Get commit details
-				const commit = await this.getCommitInfo(latestHash);
-				this.emit('commit', commit);
+	private async checkForNewCommit(): Promise<void> {
+		if (!this.monitoring) {
+			return;
+		}
+		try {
+			const latestHash = await this.getHead();
+			if (!latestHash || latestHash === this.lastCommitHash) {
+				return;
+			}
+			const previous = this.lastCommitHash;
+			this.lastCommitHash = latestHash;
+
+			// HEAD can also move without new commits, e.g. on checkout or reset
+			const range = previous ? [`${previous}..${latestHash}`] : [latestHash];
+			const hashes = (await this.git('rev-list', '--reverse', `--max-count=${MAX_REPORTED_COMMITS}`, ...range)).split('\n').filter(Boolean);
+			for (const hash of hashes) {
+				this.emit('commit', await this.getCommitInfo(hash));
 			}
 		}
 		catch (error) {
@@ -79,26 +138,29 @@ export class GitMonitor extends EventEmitter {
 	}
 
 	private async getCommitInfo(hash: string): Promise<CommitInfo> {
-		const log = await this.git.log({ from: hash, to: hash, maxCount: 1 });
-		const commit = log.latest!;
-
-		// Get list of changed files
-		const diff = await this.git.diffSummary([`${hash}~1`, hash]);
-		const files = diff.files.map(f => f.file);
+		const [details, changed] = await Promise.all([
+			this.git('show', '-s', '--format=%H%x1f%an%x1f%aI%x1f%B', hash),
+			this.git('diff-tree', '--no-commit-id', '--name-only', '-r', '--root', hash),
+		]);
+		const [commitHash, author, date, message] = details.split('\x1F');
 
 		return {
-			hash: commit.hash,
-			author: commit.author_name,
-			date: commit.date,
-			message: commit.message,
-			files,
+			hash: commitHash,
+			author,
+			date,
+			message: message.trim(),
+			files: changed.split('\n').filter(Boolean),
 		};
 	}
 
 	private startPolling(): void {
-		const pollInterval = setInterval(async () => {
+		if (this.pollTimer) {
+			return;
+		}
+		this.pollTimer = setInterval(async () => {
 			if (!this.monitoring) {
-				clearInterval(pollInterval);
+				clearInterval(this.pollTimer!);
+				this.pollTimer = null;
 				return;
 			}
 			await this.checkForNewCommit();
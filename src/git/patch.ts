@@ -0,0 +1,95 @@
+export interface DiffHunk {
+	header: string; // The '@@ -a,b +c,d @@' line
+	lines: string[];
+}
+
+export interface FileDiff {
+	path: string;
+	status: 'added' | 'deleted' | 'modified';
+	binary: boolean;
+	header: string[]; // Lines from 'diff --git' up to the first hunk
+	hunks: DiffHunk[];
+	patch: string; // The whole file's patch, including binary data
+}
+
+// Paths with unusual characters are C-quoted even with core.quotePath off,
+// and ---/+++ lines end with a tab when the path has a space
+function unquote(value: string): string {
+	const trimmed = value.replace(/\t$/, '');
+	return trimmed.startsWith('"') ? JSON.parse(trimmed) : trimmed;
+}
+
+function parsePath(header: string[]): string {
+	for (const line of header) {
+		if (line.startsWith('+++ ') && line !== '+++ /dev/null') {
+			return unquote(line.slice(4)).replace(/^b\//, '');
+		}
+		if (line.startsWith('--- ') && line !== '--- /dev/null') {
+			return unquote(line.slice(4)).replace(/^a\//, '');
+		}
+	}
+	// Binary and mode-only changes have no ---/+++ lines; without renames both sides are the same path
+	const sides = header[0].slice('diff --git '.length);
+	if (sides.startsWith('"')) {
+		return unquote(sides.slice(0, sides.indexOf('" ') + 1)).replace(/^a\//, '');
+	}
+	return sides.slice('a/'.length, (sides.length - 1) / 2);
+}
+
+function parseFile(lines: string[]): FileDiff {
+	const firstHunk = lines.findIndex(line => line.startsWith('@@'));
+	const header = firstHunk === -1 ? lines : lines.slice(0, firstHunk);
+	const hunks: DiffHunk[] = [];
+	if (firstHunk !== -1) {
+		for (const line of lines.slice(firstHunk)) {
+			if (line.startsWith('@@')) {
+				hunks.push({ header: line, lines: [] });
+			}
+			else {
+				hunks[hunks.length - 1].lines.push(line);
+			}
+		}
+	}
+
+	let status: FileDiff['status'] = 'modified';
+	if (header.some(line => line.startsWith('new file mode'))) {
+		status = 'added';
+	}
+	else if (header.some(line => line.startsWith('deleted file mode'))) {
+		status = 'deleted';
+	}
+	return {
+		path: parsePath(header),
+		status,
+		binary: header.some(line => line === 'GIT binary patch' || line.startsWith('Binary files ')),
+		header,
+		hunks,
+		patch: `${lines.join('\n')}\n`,
+	};
+}
+
+/**
+ * Split the output of `git diff --no-renames` into files and hunks
+ */
+export function parseDiff(diff: string): FileDiff[] {
+	const files: string[][] = [];
+	for (const line of diff.replace(/\n$/, '').split('\n')) {
+		if (line.startsWith('diff --git ')) {
+			files.push([line]);
+		}
+		else if (files.length > 0) {
+			files[files.length - 1].push(line);
+		}
+	}
+	return files.map(parseFile);
+}
+
+/**
+ * A patch that applies a single hunk of a file, or the whole file
+ */
+export function buildPatch(file: FileDiff, hunk?: DiffHunk): string {
+	if (!hunk) {
+		return file.patch;
+	}
+	return `${[...file.header, hunk.header, ...hunk.lines].join('\n')}\n`;
+}
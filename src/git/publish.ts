@@ -0,0 +1,198 @@
+import type { ForgeConfig, PublishPolicy, PublishTrigger, PullRequestConfig, SandboxConfig, SessionRecord } from '../types';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import chalk from 'chalk';
+import { detectForge } from '../forge';
+import { getContainerRemote } from './shadow-repository';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_TITLE = '{{subject}}';
+const DEFAULT_BODY = '{{commits}}';
+
+export interface PushedBranch {
+	branch: string;
+	head: string; // Commit the branch was pushed at
+}
+
+/**
+ * The publish policy to store in a new session record, if autoPush is on
+ */
+export function getPublishPolicy(config: SandboxConfig): PublishPolicy | undefined {
+	if (!config.autoPush) {
+		return undefined;
+	}
+	return {
+		pushOn: config.pushOn || 'commit',
+		createPR: !!config.autoCreatePR,
+		pullRequest: config.pullRequest,
+	};
+}
+
+async function git(repoPath: string, ...args: string[]): Promise<string> {
+	const { stdout } = await execFileAsync('git', args, { cwd: repoPath, maxBuffer: 10 * 1024 * 1024 });
+	return stdout;
+}
+
+// The branch origin's HEAD points to, if it can be found
+async function getDefaultBranch(repoPath: string): Promise<string | undefined> {
+	try {
+		const output = await git(repoPath, 'ls-remote', '--symref', 'origin', 'HEAD');
+		const match = output.match(/^ref: refs\/heads\/(\S+)\tHEAD$/m);
+		if (match) {
+			return match[1];
+		}
+	}
+	catch {
+		// Fall back to what the last fetch recorded
+	}
+	try {
+		return (await git(repoPath, 'symbolic-ref', '--short', 'refs/remotes/origin/HEAD')).trim().replace(/^origin\//, '');
+	}
+	catch {
+		return undefined;
+	}
+}
+
+/**
+ * Push the session's branch from a container to origin. Its commits only
+ * exist in the container, so they are fetched into the host repository
+ * first. Only `branch` is pushed, and only while the container has it
+ * checked out; origin's default branch needs `allowDefaultBranch`.
+ */
+export async function pushContainerBranch(
+	containerCmd: string,
+	containerId: string,
+	repoPath: string,
+	branch: string,
+	options: { allowDefaultBranch?: boolean } = {},
+): Promise<PushedBranch> {
+	if (!branch) {
+		throw new Error('No branch is recorded for this session');
+	}
+	const { stdout } = await execFileAsync(containerCmd, ['exec', containerId, 'git', '-C', '/workspace', 'rev-parse', '--abbrev-ref', 'HEAD']);
+	const current = stdout.trim();
+	if (current !== branch) {
+		throw new Error(`The container is on ${current === 'HEAD' ? 'a detached HEAD' : current} instead of the session's branch ${branch}`);
+	}
+	if (!options.allowDefaultBranch && branch === await getDefaultBranch(repoPath)) {
+		throw new Error(`${branch} is origin's default branch and is not pushed automatically`);
+	}
+
+	// A ref of its own, as FETCH_HEAD is shared with other sessions of the same repository
+	const ref = `refs/claude-run/publish/${containerId.substring(0, 12)}`;
+	await git(repoPath, '-c', 'protocol.ext.allow=always', 'fetch', '--quiet', '--no-tags', getContainerRemote(containerCmd, containerId), `+refs/heads/${branch}:${ref}`);
+	const head = (await git(repoPath, 'rev-parse', ref)).trim();
+	await git(repoPath, 'update-ref', '-d', ref);
+
+	await git(repoPath, 'push', '--quiet', 'origin', `${head}:refs/heads/${branch}`);
+	return { branch, head };
+}
+
+function renderTemplate(template: string, values: Record<string, string>): string {
+	return template.replace(/\{\{(\w+)\}\}/g, (match, name) => values[name] ?? match);
+}
+
+// Subjects of the branch's commits that no other local or remote branch has
+async function getBranchCommits(repoPath: string, pushed: PushedBranch): Promise<string[]> {
+	const output = await git(
+		repoPath,
+		'log',
+		'--reverse',
+		'--format=%s',
+		pushed.head,
+		'--not',
+		`--exclude=${pushed.branch}`,
+		'--branches',
+		`--exclude=*/${pushed.branch}`,
+		'--remotes',
+	);
+	return output.split('\n').filter(Boolean);
+}
+
+/**
+ * Open a pull request for a pushed branch on the forge hosting origin.
+ * Returns its URL, or undefined if the branch already has an open one.
+ */
+export async function createPullRequest(
+	repoPath: string,
+	pushed: PushedBranch,
+	options: PullRequestConfig = {},
+	forgeConfig?: ForgeConfig,
+): Promise<string | undefined> {
+	const forge = await detectForge(repoPath, forgeConfig);
+	if (!forge) {
+		throw new Error('origin is not a forge remote');
+	}
+	if ((await forge.listPullRequests(pushed.branch)).length > 0) {
+		return undefined;
+	}
+
+	const commits = await getBranchCommits(repoPath, pushed);
+	const values = {
+		branch: pushed.branch,
+		subject: commits[0] || pushed.branch,
+		commits: commits.map(subject => `- ${subject}`).join('\n'),
+	};
+	return forge.createPullRequest({
+		branch: pushed.branch,
+		title: renderTemplate(options.title || DEFAULT_TITLE, values),
+		body: renderTemplate(options.body ?? DEFAULT_BODY, values),
+		draft: options.draft,
+		reviewers: options.reviewers,
+		labels: options.labels,
+	});
+}
+
+/**
+ * Push a session's branch and open a pull request for it if asked to.
+ * Failures are reported rather than thrown.
+ */
+export async function publishContainerBranch(
+	containerCmd: string,
+	containerId: string,
+	repoPath: string,
+	branch: string,
+	options: Pick<PublishPolicy, 'createPR' | 'pullRequest'> & { forge?: ForgeConfig; allowDefaultBranch?: boolean },
+): Promise<void> {
+	let pushed: PushedBranch;
+	try {
+		pushed = await pushContainerBranch(containerCmd, containerId, repoPath, branch, options);
+		console.log(chalk.green(`✓ Pushed branch: ${pushed.branch}`));
+	}
+	catch (error: any) {
+		console.error(chalk.red(`✗ Could not push the branch of ${containerId.substring(0, 12)}: ${error.message}`));
+		return;
+	}
+
+	if (!options.createPR) {
+		return;
+	}
+	try {
+		const url = await createPullRequest(repoPath, pushed, options.pullRequest, options.forge);
+		if (url) {
+			console.log(chalk.green(`✓ Created pull request: ${url}`));
+		}
+	}
+	catch (error: any) {
+		console.error(
+			chalk.yellow(
+				`Could not create PR automatically (${error.message.trim()}). Please create it manually.`,
+			),
+		);
+	}
+}
+
+/**
+ * Publish a session's branch if its recorded policy pushes at `trigger`
+ */
+export async function publishSession(
+	containerCmd: string,
+	record: SessionRecord | null | undefined,
+	trigger: PublishTrigger,
+): Promise<void> {
+	if (!record?.publish || record.publish.pushOn !== trigger) {
+		return;
+	}
+	await publishContainerBranch(containerCmd, record.containerId, record.repoPath, record.branch, { ...record.publish, forge: record.forge });
+}
@@ -1,4 +1,5 @@
-import { exec } from 'node:child_process';
+import type { FileDiff } from './patch';
+import { exec, execFile } from 'node:child_process';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import process from 'node:process';
@@ -6,8 +7,21 @@ import { promisify } from 'node:util';
 import chalk from 'chalk';
 import * as fs from 'fs-extra';
 import { getContainerRuntimeCmd } from '../docker-config';
+import { buildPatch, parseDiff } from './patch';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+const CONTAINER_REF = 'refs/claude-run/container'; // The container's HEAD as of the last fetch
+const BASE_REF = 'refs/claude-run/base'; // Where the session's own commits start
+
+/**
+ * A git remote that runs git-upload-pack in the container through
+ * `docker exec`. Fetching from it needs `-c protocol.ext.allow=always`.
+ */
+export function getContainerRemote(containerCmd: string, containerId: string, containerPath: string = '/workspace'): string {
+	return `ext::${containerCmd} exec -i ${containerId} %S ${containerPath}`;
+}
 
 export interface ShadowRepoOptions {
 	originalRepo: string;
@@ -16,6 +30,24 @@ export interface ShadowRepoOptions {
 	containerRuntime?: string; // Optional: 'docker' or 'podman'
 }
 
+export interface ChangeSelection {
+	path: string;
+	hunk?: { index: number; header: string }; // Omitted to select the whole file
+}
+
+export interface SessionCommit {
+	hash: string;
+	author: string;
+	email: string;
+	date: string; // ISO 8601
+	subject: string;
+}
+
+export interface WorkingChanges {
+	staged: FileDiff[]; // HEAD to index
+	unstaged: FileDiff[]; // Index to working tree
+}
+
 export class ShadowRepository {
 	private shadowPath: string;
 	private initialized = false;
@@ -35,6 +67,30 @@ export class ShadowRepository {
 		this.containerCmd = options.containerRuntime || getContainerRuntimeCmd();
 	}
 
+	/**
+	 * Reuse a shadow repository left behind by an earlier host process instead
+	 * of cloning a fresh one, so pending changes keep being tracked.
+	 * Returns false if there is nothing to restore.
+	 */
+	async restore(): Promise<boolean> {
+		if (this.initialized)
+			return true;
+
+		if (!(await fs.pathExists(path.join(this.shadowPath, '.git')))) {
+			return false;
+		}
+		try {
+			await execAsync('git rev-parse HEAD', { cwd: this.shadowPath });
+		}
+		catch {
+			return false;
+		}
+
+		console.log(chalk.green(`✓ Restored shadow repository: ${this.shadowPath}`));
+		this.initialized = true;
+		return true;
+	}
+
 	async initialize(): Promise<void> {
 		if (this.initialized)
 			return;
@@ -516,12 +572,19 @@ export class ShadowRepository {
 			await this.syncWithDockerCp(containerId, containerPath);
 		}
 
-		// Stage all changes including deletions
 		try {
-			await execAsync('git add -A', { cwd: this.shadowPath });
+			await this.fetchContainerCommits(containerId, containerPath);
+		}
+		catch (fetchError: any) {
+			console.log(chalk.yellow(`  ⚠ Could not fetch commits from container: ${fetchError.message}`));
+		}
+
+		// Leave the index alone: it holds what was staged in the web UI
+		try {
+			await this.markUntrackedFiles();
 		}
 		catch (stageError) {
-			console.log(chalk.gray('  Could not stage changes:', stageError));
+			console.log(chalk.gray('  Could not track new files:', stageError));
 		}
 
 		console.log(chalk.green('✓ Files synced successfully'));
@@ -770,7 +833,7 @@ export class ShadowRepository {
 			l => l.startsWith(' M') || l.startsWith('M ') || l.startsWith('MM'),
 		).length;
 		const added = lines.filter(
-			l => l.startsWith('??') || l.startsWith('A ') || l.startsWith('AM'),
+			l => l.startsWith('??') || l.startsWith('A ') || l.startsWith('AM') || l.startsWith(' A'),
 		).length;
 		const deleted = lines.filter(
 			l => l.startsWith(' D') || l.startsWith('D '),
@@ -781,6 +844,227 @@ export class ShadowRepository {
 		return { hasChanges: true, summary };
 	}
 
+	private async resolveRef(ref: string): Promise<string | undefined> {
+		try {
+			const { stdout } = await execAsync(`git rev-parse --verify --quiet ${ref}`, { cwd: this.shadowPath });
+			return stdout.trim() || undefined;
+		}
+		catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Fetch the commits made in the container, keeping their messages and
+	 * authors, and move HEAD to the container's HEAD. The working tree is left
+	 * as synced. Returns false if the container's repository has no commits.
+	 */
+	async fetchContainerCommits(containerId: string, containerPath: string = '/workspace'): Promise<boolean> {
+		let containerHead: string;
+		try {
+			const { stdout } = await execFileAsync(this.containerCmd, ['exec', containerId, 'git', '-C', containerPath, 'rev-parse', '--verify', 'HEAD']);
+			containerHead = stdout.trim();
+		}
+		catch {
+			return false;
+		}
+		// It ends up in shell commands here, so only trust an object name
+		if (!/^[0-9a-f]{40,64}$/.test(containerHead)) {
+			throw new Error(`Unexpected HEAD in container: ${containerHead.slice(0, 80)}`);
+		}
+
+		if (!(await this.resolveRef(`${containerHead}^{commit}`))) {
+			await execFileAsync(
+				'git',
+				['-c', 'protocol.ext.allow=always', 'fetch', '--quiet', '--no-tags', getContainerRemote(this.containerCmd, containerId, containerPath), 'HEAD'],
+				{ cwd: this.shadowPath, maxBuffer: 10 * 1024 * 1024 },
+			);
+			containerHead = (await this.resolveRef('FETCH_HEAD'))!;
+		}
+
+		if (!(await this.resolveRef(BASE_REF))) {
+			// The session's commits start at the commit this repository was cloned at,
+			// unless the container does not descend from it
+			const clonedAt = await this.resolveRef('HEAD');
+			let base = containerHead;
+			if (clonedAt) {
+				try {
+					await execAsync(`git merge-base --is-ancestor ${clonedAt} ${containerHead}`, { cwd: this.shadowPath });
+					base = clonedAt;
+				}
+				catch {
+					// Unrelated history: only commits from now on are listed
+				}
+			}
+			await execAsync(`git update-ref ${BASE_REF} ${base}`, { cwd: this.shadowPath });
+		}
+		await execAsync(`git update-ref ${CONTAINER_REF} ${containerHead}`, { cwd: this.shadowPath });
+
+		if ((await this.resolveRef('HEAD')) !== containerHead) {
+			// Also resets the index, so selections staged in the web UI are dropped when the runner commits
+			await execAsync(`git reset --quiet --mixed ${containerHead}`, { cwd: this.shadowPath });
+			await this.markUntrackedFiles();
+		}
+		return true;
+	}
+
+	/**
+	 * Whether HEAD follows the container's git history, rather than a
+	 * snapshot of its files
+	 */
+	async tracksContainerHistory(): Promise<boolean> {
+		return (await this.resolveRef(CONTAINER_REF)) !== undefined;
+	}
+
+	/**
+	 * The commit the session's changes are relative to
+	 */
+	async getSessionBase(): Promise<string> {
+		return (await this.resolveRef(BASE_REF)) || 'HEAD';
+	}
+
+	/**
+	 * Commits made in the container during the session, newest first
+	 */
+	async getCommits(): Promise<SessionCommit[]> {
+		if (!(await this.tracksContainerHistory())) {
+			return [];
+		}
+		const { stdout } = await execAsync(
+			`git log --format=%H%x1f%an%x1f%ae%x1f%aI%x1f%s ${BASE_REF}..${CONTAINER_REF}`,
+			{ cwd: this.shadowPath, maxBuffer: 10 * 1024 * 1024 },
+		);
+		return stdout.split('\n').filter(Boolean).map((line) => {
+			const [hash, author, email, date, subject] = line.split('\x1F');
+			return { hash, author, email, date, subject };
+		});
+	}
+
+	/**
+	 * Commit in the container, so the commit becomes part of the runner's own
+	 * history. Commits what is staged here, or everything if nothing is.
+	 */
+	async commitInContainer(containerId: string, message: string, containerPath: string = '/workspace'): Promise<void> {
+		const git = (...args: string[]) => execFileAsync(this.containerCmd, ['exec', containerId, 'git', '-C', containerPath, ...args]);
+		const { stdout: staged } = await execAsync('git diff --cached --binary', {
+			cwd: this.shadowPath,
+			maxBuffer: 50 * 1024 * 1024,
+		});
+
+		if (!staged.trim()) {
+			await git('add', '-A');
+		}
+		else {
+			// Replace the container's index with the selection staged here
+			const patchFile = path.join(this.shadowPath, '.git', 'claude-run-commit.patch');
+			const containerPatch = '/tmp/claude-run-commit.patch';
+			await fs.writeFile(patchFile, staged);
+			try {
+				await execFileAsync(this.containerCmd, ['cp', patchFile, `${containerId}:${containerPatch}`]);
+				await git('reset', '--quiet');
+				await git('apply', '--cached', containerPatch);
+			}
+			finally {
+				await fs.remove(patchFile);
+				await execFileAsync(this.containerCmd, ['exec', '--user', 'root', containerId, 'rm', '-f', containerPatch]).catch(() => {});
+			}
+		}
+		await git('commit', '--quiet', '-m', message);
+	}
+
+	/**
+	 * Record new files as intent-to-add, so they show up in diffs and can be
+	 * staged hunk by hunk without staging their content
+	 */
+	private async markUntrackedFiles(): Promise<void> {
+		await execAsync(
+			'git ls-files -z --others --exclude-standard | git -c advice.addEmptyPathspec=false add --intent-to-add --pathspec-from-file=- --pathspec-file-nul',
+			{ cwd: this.shadowPath },
+		);
+	}
+
+	async getWorkingChanges(): Promise<WorkingChanges> {
+		const diff = async (args: string) => {
+			const { stdout } = await execAsync(`git -c core.quotePath=false diff --no-renames --binary ${args}`, {
+				cwd: this.shadowPath,
+				maxBuffer: 50 * 1024 * 1024,
+			});
+			return parseDiff(stdout);
+		};
+		return { staged: await diff('--cached'), unstaged: await diff('') };
+	}
+
+	// The patch for a file or hunk, as long as the diff still matches what the user saw
+	private async selectPatch(selection: ChangeSelection, staged: boolean): Promise<{ file: FileDiff; patch: string }> {
+		const changes = await this.getWorkingChanges();
+		const file = changes[staged ? 'staged' : 'unstaged'].find(f => f.path === selection.path);
+		if (!file) {
+			throw new Error(`No ${staged ? 'staged' : 'unstaged'} changes in ${selection.path}`);
+		}
+		if (!selection.hunk) {
+			return { file, patch: buildPatch(file) };
+		}
+		const hunk = file.hunks[selection.hunk.index];
+		if (!hunk || hunk.header !== selection.hunk.header) {
+			throw new Error(`The changes in ${selection.path} have been updated; review them again`);
+		}
+		return { file, patch: buildPatch(file, hunk) };
+	}
+
+	private async applyPatch(patch: string, flags: string): Promise<void> {
+		const patchFile = path.join(this.shadowPath, '.git', 'claude-run-selection.patch');
+		await fs.writeFile(patchFile, patch);
+		try {
+			await execAsync(`git apply ${flags} "${patchFile}"`, { cwd: this.shadowPath });
+		}
+		finally {
+			await fs.remove(patchFile);
+		}
+	}
+
+	async stageChanges(selection: ChangeSelection): Promise<void> {
+		const { patch } = await this.selectPatch(selection, false);
+		await this.applyPatch(patch, '--cached');
+	}
+
+	async unstageChanges(selection: ChangeSelection): Promise<void> {
+		const { patch } = await this.selectPatch(selection, true);
+		await this.applyPatch(patch, '--cached --reverse');
+		// Unstaging a new file untracks it
+		await this.markUntrackedFiles();
+	}
+
+	/**
+	 * Revert unstaged changes, in the container as well as here. Staged
+	 * changes are kept. Sync first: the patch is reverted in the container
+	 * rather than copying files over, so it fails instead of losing edits
+	 * the runner made since.
+	 */
+	async discardChanges(containerId: string, selection: ChangeSelection, containerPath: string = '/workspace'): Promise<void> {
+		const { file, patch } = await this.selectPatch(selection, false);
+
+		const patchFile = path.join(this.shadowPath, '.git', 'claude-run-discard.patch');
+		const containerPatch = '/tmp/claude-run-discard.patch';
+		await fs.writeFile(patchFile, patch);
+		try {
+			await execFileAsync(this.containerCmd, ['cp', patchFile, `${containerId}:${containerPatch}`]);
+			await execFileAsync(this.containerCmd, ['exec', containerId, 'git', '-C', containerPath, 'apply', '--reverse', containerPatch]);
+		}
+		catch {
+			throw new Error(`${selection.path} has changed in the container; review the changes again`);
+		}
+		finally {
+			await fs.remove(patchFile);
+			await execFileAsync(this.containerCmd, ['exec', '--user', 'root', containerId, 'rm', '-f', containerPatch]).catch(() => {});
+		}
+
+		await this.applyPatch(patch, '--reverse');
+		// A discarded new file leaves its intent-to-add entry behind
+		if (file.status === 'added' && !(await fs.pathExists(path.join(this.shadowPath, file.path)))) {
+			await execFileAsync('git', ['rm', '--cached', '--quiet', '--', file.path], { cwd: this.shadowPath });
+		}
+	}
+
 	async showDiff(): Promise<void> {
 		const { stdout } = await execAsync('git diff', { cwd: this.shadowPath });
 		console.log(stdout);
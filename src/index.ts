@@ -1,19 +1,30 @@
 import type { SimpleGit } from 'simple-git';
-import type { SandboxConfig } from './types';
-import { execSync } from 'node:child_process';
+import type { CommitInfo, ExecOptions, ExecResult, SandboxConfig } from './types';
+import { exec } from 'node:child_process';
+import fs from 'node:fs/promises';
 import path from 'node:path';
 import process from 'node:process';
+import { promisify } from 'node:util';
 import chalk from 'chalk';
 import Docker from 'dockerode';
 import inquirer from 'inquirer';
 import { simpleGit } from 'simple-git';
-import { ContainerManager } from './container';
+import { ContainerManager, HEADLESS_TIMEOUT_EXIT_CODE } from './container';
 import { CredentialManager } from './credentials';
+import { ensureDaemon, sendDaemonRequest } from './daemon';
 import { getContainerRuntimeCmd, getDockerConfig, isPodman } from './docker-config';
+import { detectForge } from './forge';
 import { GitMonitor } from './git-monitor';
+import { getPublishPolicy, publishContainerBranch } from './git/publish';
+import { ShadowRepository } from './git/shadow-repository';
+import { getRunner } from './runners';
+import { describeExpiry, getSessionLimits } from './session-limits';
+import { SessionStore } from './session-store';
 import { UIManager } from './ui';
 import { WebUIServer } from './web-server';
 
+const execAsync = promisify(exec);
+
 export class ClaudeSandbox {
 	private docker: Docker;
 	private git: SimpleGit;
@@ -23,8 +34,11 @@ export class ClaudeSandbox {
 	private containerManager: ContainerManager;
 	private ui: UIManager;
 	private webServer?: WebUIServer;
+	private sessionStore: SessionStore;
 	private containerRuntime: string;
 	private wasNonGitInit: boolean = false;
+	private commitQueue: Promise<void> = Promise.resolve();
+	private headless: boolean = false;
 
 	constructor(config: SandboxConfig) {
 		this.config = config;
@@ -39,8 +53,9 @@ export class ClaudeSandbox {
 
 		this.git = simpleGit();
 		this.credentialManager = new CredentialManager();
-		this.gitMonitor = new GitMonitor(this.git);
+		this.gitMonitor = new GitMonitor(this.docker, this.containerRuntime);
 		this.containerManager = new ContainerManager(this.docker, config);
+		this.sessionStore = new SessionStore();
 		this.ui = new UIManager();
 	}
 
@@ -53,139 +68,30 @@ export class ClaudeSandbox {
 				return;
 			}
 
-			// Verify we're in a git repository
-			await this.verifyGitRepo();
-
-			// Check current branch
-			const currentBranch = await this.git.branchLocal();
-			console.log(chalk.blue(`Current branch: ${currentBranch.current}`));
-
-			// Determine target branch based on config options (but don't checkout in host repo)
-			let branchName = '';
-			let prFetchRef = '';
-			let remoteFetchRef = '';
-
-			if (this.config.prNumber) {
-				// Get PR branch name from GitHub but don't checkout locally
-				console.log(chalk.blue(`Getting PR #${this.config.prNumber} info...`));
-				try {
-					// Get PR info to find the actual branch name
-					const prInfo = execSync(
-						`gh pr view ${this.config.prNumber} --json headRefName`,
-						{
-							encoding: 'utf-8',
-							cwd: process.cwd(),
-						},
-					);
-					const prData = JSON.parse(prInfo);
-					branchName = prData.headRefName;
-					prFetchRef = `pull/${this.config.prNumber}/head:${branchName}`;
-
-					console.log(
-						chalk.blue(
-							`PR #${this.config.prNumber} uses branch: ${branchName}`,
-						),
-					);
-					console.log(
-						chalk.blue(`Will setup container with PR branch: ${branchName}`),
-					);
-				}
-				catch (error) {
-					console.error(
-						chalk.red(`✗ Failed to get PR #${this.config.prNumber} info:`),
-						error,
-					);
-					throw error;
-				}
-			}
-			else if (this.config.remoteBranch) {
-				// Parse remote branch but don't checkout locally
-				console.log(
-					chalk.blue(
-						`Will setup container with remote branch: ${this.config.remoteBranch}`,
-					),
-				);
-				try {
-					// Parse remote/branch format
-					const parts = this.config.remoteBranch.split('/');
-					if (parts.length < 2) {
-						throw new Error(
-							'Remote branch must be in format "remote/branch" (e.g., "origin/feature-branch")',
-						);
-					}
-
-					const remote = parts[0];
-					const branch = parts.slice(1).join('/');
+			const { containerId, branchName } = await this.startContainer();
 
-					console.log(chalk.blue(`Remote: ${remote}, Branch: ${branch}`));
-					branchName = branch;
-					remoteFetchRef = `${remote}/${branch}`;
-				}
-				catch (error) {
-					console.error(
-						chalk.red(
-							`✗ Failed to parse remote branch ${this.config.remoteBranch}:`,
-						),
-						error,
-					);
-					throw error;
-				}
-			}
-			else {
-				// Use target branch from config or generate one
-				branchName
-					= this.config.targetBranch
-						|| (() => {
-							const timestamp = new Date()
-								.toISOString()
-								.replace(/[:.]/g, '-')
-								.split('T')[0];
-							return `claude/${timestamp}-${Date.now()}`;
-						})();
-				console.log(
-					chalk.blue(`Will create branch in container: ${branchName}`),
-				);
+			if (this.config.detached) {
+				await this.handOffToDaemon(containerId);
+				return;
 			}
 
-			// Discover credentials (optional - don't fail if not found)
-			const credentials = await this.credentialManager.discover();
-
-			// Prepare container environment
-			const containerConfig = await this.prepareContainer(
-				branchName,
-				credentials,
-				prFetchRef,
-				remoteFetchRef,
-			);
-
-			// Start container
-			const containerId = await this.containerManager.start(containerConfig);
-			console.log(
-				chalk.green(`✓ Started container: ${containerId.substring(0, 12)}`),
-			);
-
-			// Start monitoring for commits
-			this.gitMonitor.on('commit', async (commit) => {
-				await this.handleCommit(commit);
-			});
-
-			await this.gitMonitor.start(branchName);
-			console.log(chalk.blue('✓ Git monitoring started'));
+			await this.startCommitMonitoring(containerId, branchName);
 
 			// Always launch web UI
-			this.webServer = new WebUIServer(this.docker, this.containerRuntime);
+			this.webServer = new WebUIServer(this.docker, this.containerRuntime, this.config.webUI);
 
 			// Pass repo info to web server
 			this.webServer.setRepoInfo(process.cwd(), branchName);
 			this.webServer.setNonGitInit(this.wasNonGitInit);
 
-			const webUrl = await this.webServer.start();
+			await this.webServer.start();
 
-			// Open browser to the web UI with container ID
-			const fullUrl = `${webUrl}?container=${containerId}`;
+			// Open browser to the web UI with container ID and access token
+			const fullUrl = this.webServer.getUrl('/', { container: containerId });
 			await this.webServer.openInBrowser(fullUrl);
 
 			console.log(chalk.green(`\n✓ Web UI available at: ${fullUrl}`));
+			this.printViewerUrl(this.webServer.getViewerUrl(containerId));
 			console.log(
 				chalk.yellow('Keep this terminal open to maintain the session'),
 			);
@@ -199,6 +105,280 @@ export class ClaudeSandbox {
 		}
 	}
 
+	/**
+	 * Run the configured code runner non-interactively with a single prompt.
+	 * Output is streamed to `output`; the resulting changes are synced into a
+	 * shadow repository and the runner's exit code is returned.
+	 */
+	async exec(prompt: string, options: ExecOptions = {}): Promise<ExecResult> {
+		this.headless = true;
+		const output = options.output || process.stdout;
+		const errorOutput = options.errorOutput || (options.output ? output : process.stderr);
+
+		const { containerId, branchName } = await this.startContainer();
+		const shadowRepo = new ShadowRepository({
+			originalRepo: process.cwd(),
+			claudeBranch: branchName,
+			sessionId: containerId.substring(0, 12),
+			containerRuntime: this.containerRuntime,
+		});
+
+		const result: ExecResult = {
+			containerId,
+			branchName,
+			exitCode: 1,
+			hasChanges: false,
+			summary: '',
+			shadowPath: shadowRepo.getPath(),
+			commits: 0,
+		};
+		try {
+			await this.sessionStore.update(containerId, { shadowPath: shadowRepo.getPath() });
+		}
+		catch {
+			// The session record is best effort
+		}
+
+		try {
+			const baseCommit = await this.getContainerHead(containerId);
+			console.log(chalk.blue(`• Running ${getRunner(this.config.codeRunner).displayName} in headless mode...`));
+			result.exitCode = await this.containerManager.runHeadless(containerId, prompt, { output, errorOutput }, this.config.maxSessionDuration);
+
+			if (result.exitCode === 0) {
+				console.log(chalk.green('✓ Runner finished successfully'));
+			}
+			else if (this.config.maxSessionDuration && result.exitCode === HEADLESS_TIMEOUT_EXIT_CODE) {
+				console.log(chalk.red(`✗ Runner stopped: the session ${describeExpiry('duration')}`));
+			}
+			else {
+				console.log(chalk.red(`✗ Runner exited with code ${result.exitCode}`));
+			}
+
+			try {
+				result.commits = await this.countContainerCommits(containerId, baseCommit);
+				await shadowRepo.resetToContainerBranch(containerId);
+				await shadowRepo.syncFromContainer(containerId);
+				const changes = await shadowRepo.getChanges();
+				result.hasChanges = changes.hasChanges;
+
+				// The run is over, so pushOn makes no difference: publish once
+				const policy = getPublishPolicy(this.config);
+				if (policy && result.commits > 0) {
+					await publishContainerBranch(this.containerRuntime, containerId, process.cwd(), branchName, {
+						...policy,
+						forge: this.config.forge,
+					});
+				}
+				result.summary = changes.summary;
+
+				if (options.patchFile && changes.hasChanges) {
+					// Relative to where the session started, so the runner's commits are included
+					const { stdout } = await execAsync(`git diff --binary ${await shadowRepo.getSessionBase()}`, {
+						cwd: shadowRepo.getPath(),
+						maxBuffer: 50 * 1024 * 1024,
+					});
+					await fs.writeFile(path.resolve(options.patchFile), stdout);
+					console.log(chalk.green(`✓ Patch written to ${options.patchFile}`));
+				}
+			}
+			catch (error: any) {
+				console.error(chalk.red('✗ Failed to sync results from container:'), error.message);
+				result.syncError = error.message;
+				if (result.exitCode === 0) {
+					result.exitCode = 1;
+				}
+			}
+		}
+		finally {
+			if (!options.keepContainer) {
+				await this.containerManager.cleanup();
+				try {
+					// Keep the shadow repository: it holds the results of the run
+					await this.sessionStore.remove(containerId);
+				}
+				catch {
+					// The session record is best effort
+				}
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Give a running container to the background daemon, which keeps the web
+	 * UI and change tracking going after this process exits
+	 */
+	private async handOffToDaemon(containerId: string): Promise<void> {
+		await ensureDaemon(this.config.dockerSocketPath, this.config.webUI);
+		const { url, viewerUrl } = await sendDaemonRequest<{ url: string; viewerUrl?: string }>('register', { containerId });
+
+		console.log(chalk.green(`\n✓ Session handed off to the claude-run daemon`));
+		console.log(chalk.green(`✓ Web UI available at: ${url}`));
+		this.printViewerUrl(viewerUrl);
+		console.log(chalk.gray(`  Use 'claude-run attach ${containerId.substring(0, 12)}' to open it again`));
+	}
+
+	private printViewerUrl(viewerUrl?: string): void {
+		if (viewerUrl) {
+			console.log(chalk.gray(`  Read-only viewer link: ${viewerUrl}`));
+		}
+	}
+
+	/**
+	 * Make sure the container image exists before several sandboxes start at once
+	 */
+	async prepareImage(): Promise<void> {
+		await this.containerManager.ensureImage();
+	}
+
+	private async getContainerHead(containerId: string): Promise<string> {
+		const { stdout } = await execAsync(
+			`${this.containerRuntime} exec ${containerId} git -C /workspace rev-parse HEAD`,
+		);
+		return stdout.trim();
+	}
+
+	private async countContainerCommits(containerId: string, baseCommit: string): Promise<number> {
+		const { stdout } = await execAsync(
+			`${this.containerRuntime} exec ${containerId} git -C /workspace rev-list --count ${baseCommit}..HEAD`,
+		);
+		return Number.parseInt(stdout.trim(), 10) || 0;
+	}
+
+	/**
+	 * Verify the repository, resolve the target branch and start a prepared container
+	 */
+	private async startContainer(): Promise<{ containerId: string; branchName: string }> {
+		// Verify we're in a git repository
+		await this.verifyGitRepo();
+
+		// Check current branch
+		const currentBranch = await this.git.branchLocal();
+		console.log(chalk.blue(`Current branch: ${currentBranch.current}`));
+
+		// Determine target branch based on config options (but don't checkout in host repo)
+		let branchName = '';
+		let prFetchRef = '';
+		let remoteFetchRef = '';
+
+		if (this.config.prNumber) {
+			// Get PR branch name from the forge but don't checkout locally
+			console.log(chalk.blue(`Getting PR #${this.config.prNumber} info...`));
+			try {
+				const forge = await detectForge(process.cwd(), this.config.forge);
+				if (!forge) {
+					throw new Error('The repository has no origin remote');
+				}
+
+				// Get PR info to find the actual branch name
+				const pullRequest = await forge.getPullRequest(this.config.prNumber);
+				branchName = pullRequest.branch;
+				prFetchRef = `${forge.getPullRequestRef(pullRequest)}:${branchName}`;
+
+				console.log(
+					chalk.blue(
+						`PR #${this.config.prNumber} uses branch: ${branchName}`,
+					),
+				);
+				console.log(
+					chalk.blue(`Will setup container with PR branch: ${branchName}`),
+				);
+			}
+			catch (error) {
+				console.error(
+					chalk.red(`✗ Failed to get PR #${this.config.prNumber} info:`),
+					error,
+				);
+				throw error;
+			}
+		}
+		else if (this.config.remoteBranch) {
+			// Parse remote branch but don't checkout locally
+			console.log(
+				chalk.blue(
+					`Will setup container with remote branch: ${this.config.remoteBranch}`,
+				),
+			);
+			try {
+				// Parse remote/branch format
+				const parts = this.config.remoteBranch.split('/');
+				if (parts.length < 2) {
+					throw new Error(
+						'Remote branch must be in format "remote/branch" (e.g., "origin/feature-branch")',
+					);
+				}
+
+				const remote = parts[0];
+				const branch = parts.slice(1).join('/');
+
+				console.log(chalk.blue(`Remote: ${remote}, Branch: ${branch}`));
+				branchName = branch;
+				remoteFetchRef = `${remote}/${branch}`;
+			}
+			catch (error) {
+				console.error(
+					chalk.red(
+						`✗ Failed to parse remote branch ${this.config.remoteBranch}:`,
+					),
+					error,
+				);
+				throw error;
+			}
+		}
+		else {
+			// Use target branch from config or generate one
+			branchName
+				= this.config.targetBranch
+					|| (() => {
+						const timestamp = new Date()
+							.toISOString()
+							.replace(/[:.]/g, '-')
+							.split('T')[0];
+						return `claude/${timestamp}-${Date.now()}`;
+					})();
+			console.log(
+				chalk.blue(`Will create branch in container: ${branchName}`),
+			);
+		}
+
+		// Discover credentials (optional - don't fail if not found)
+		const credentials = await this.credentialManager.discover();
+
+		// Prepare container environment
+		const containerConfig = await this.prepareContainer(
+			branchName,
+			credentials,
+			prFetchRef,
+			remoteFetchRef,
+		);
+
+		// Start container
+		const containerId = await this.containerManager.start(containerConfig);
+		console.log(
+			chalk.green(`✓ Started container: ${containerId.substring(0, 12)}`),
+		);
+
+		// Record the session so it can be restored after this process exits
+		try {
+			await this.sessionStore.save({
+				containerId,
+				repoPath: process.cwd(),
+				branch: branchName,
+				runner: this.config.codeRunner || 'claude',
+				...getSessionLimits(this.config),
+				publish: getPublishPolicy(this.config),
+				forge: this.config.forge,
+				createdAt: new Date().toISOString(),
+			});
+		}
+		catch (error: any) {
+			console.warn(chalk.yellow(`⚠ Could not record session: ${error.message}`));
+		}
+
+		return { containerId, branchName };
+	}
+
 	private async verifyGitRepo(): Promise<void> {
 		let isRepo = false;
 		try {
@@ -208,6 +388,12 @@ export class ClaudeSandbox {
 			isRepo = false;
 		}
 		if (!isRepo) {
+			if (this.headless) {
+				throw new Error(
+					'Not a git repository. Headless runs must be started from within a git repository.',
+				);
+			}
+
 			// Ask user if they want to initialize a git repository
 			const shouldInit = await this.ui.askGitInit();
 
@@ -278,14 +464,46 @@ export class ClaudeSandbox {
 		};
 	}
 
-	private async handleCommit(commit: any): Promise<void> {
+	/**
+	 * Watch for commits inside the container. Only `branch`, the branch the
+	 * session was started on, is ever pushed.
+	 */
+	private async startCommitMonitoring(containerId: string, branch: string): Promise<void> {
+		this.gitMonitor.on('commit', (commit: CommitInfo) => {
+			// One at a time, so prompts and pushes don't overlap
+			this.commitQueue = this.commitQueue
+				.then(() => this.handleCommit(containerId, branch, commit))
+				.catch((error) => {
+					console.error(chalk.red(`✗ ${error.message}`));
+				});
+		});
+
+		await this.gitMonitor.start(containerId);
+		console.log(chalk.blue('✓ Git monitoring started'));
+	}
+
+	private async handleCommit(containerId: string, branch: string, commit: CommitInfo): Promise<void> {
 		// Show commit notification
 		this.ui.showCommitNotification(commit);
 
 		// Show diff
-		const diff = await this.git.diff(['HEAD~1', 'HEAD']);
+		const diff = await this.gitMonitor.getCommitDiff(commit.hash);
 		this.ui.showDiff(diff);
 
+		await this.webServer?.notifyCommit(containerId, commit);
+
+		const policy = getPublishPolicy(this.config);
+		if (policy) {
+			// With pushOn: 'session-end' the branch is pushed when the session ends
+			if (policy.pushOn === 'commit' && policy.createPR) {
+				await this.pushBranchAndCreatePR(containerId, branch);
+			}
+			else if (policy.pushOn === 'commit') {
+				await this.pushBranch(containerId, branch);
+			}
+			return;
+		}
+
 		// Ask user what to do
 		const action = await this.ui.askCommitAction();
 
@@ -294,10 +512,10 @@ export class ClaudeSandbox {
 				console.log(chalk.blue('Continuing...'));
 				break;
 			case 'push':
-				await this.pushBranch();
+				await this.pushBranch(containerId, branch, true);
 				break;
 			case 'push-pr':
-				await this.pushBranchAndCreatePR();
+				await this.pushBranchAndCreatePR(containerId, branch, true);
 				break;
 			case 'exit':
 				await this.cleanup();
@@ -305,27 +523,22 @@ export class ClaudeSandbox {
 		}
 	}
 
-	private async pushBranch(): Promise<void> {
-		const currentBranch = await this.git.branchLocal();
-		await this.git.push('origin', currentBranch.current);
-		console.log(chalk.green(`✓ Pushed branch: ${currentBranch.current}`));
+	// `chosen` is set when the user picked the action, which may push origin's default branch
+	private async pushBranch(containerId: string, branch: string, chosen = false): Promise<void> {
+		await publishContainerBranch(this.containerRuntime, containerId, process.cwd(), branch, {
+			createPR: false,
+			forge: this.config.forge,
+			allowDefaultBranch: chosen,
+		});
 	}
 
-	private async pushBranchAndCreatePR(): Promise<void> {
-		await this.pushBranch();
-
-		// Use gh CLI to create PR
-		try {
-			execSync('gh pr create --fill', { stdio: 'inherit' });
-			console.log(chalk.green('✓ Created pull request'));
-		}
-		catch (error) {
-			console.error(
-				chalk.yellow(
-					'Could not create PR automatically. Please create it manually.',
-				),
-			);
-		}
+	private async pushBranchAndCreatePR(containerId: string, branch: string, chosen = false): Promise<void> {
+		await publishContainerBranch(this.containerRuntime, containerId, process.cwd(), branch, {
+			createPR: true,
+			pullRequest: this.config.pullRequest,
+			forge: this.config.forge,
+			allowDefaultBranch: chosen,
+		});
 	}
 
 	private async cleanup(): Promise<void> {
@@ -380,6 +593,7 @@ export class ClaudeSandbox {
 							name: containerName.substring(1),
 							state: container.State,
 							status: container.Status,
+							session: await this.sessionStore.get(container.Id),
 						});
 					}
 				}
@@ -400,7 +614,8 @@ export class ClaudeSandbox {
 			// Display matching containers
 			matchingContainers.forEach((c, idx) => {
 				const state = c.state === 'running' ? chalk.green('● Running') : chalk.gray('○ Stopped');
-				console.log(`  ${idx + 1}. ${chalk.cyan(c.name)} - ${state} (${c.status})`);
+				const branch = c.session ? chalk.gray(` [${c.session.branch}]`) : '';
+				console.log(`  ${idx + 1}. ${chalk.cyan(c.name)}${branch} - ${state} (${c.status})`);
 			});
 			console.log('');
 
@@ -442,18 +657,30 @@ export class ClaudeSandbox {
 
 			console.log(chalk.blue(`Reconnecting to container: ${selectedContainer.name}...`));
 
-			// Start web UI
-			this.webServer = new WebUIServer(this.docker, this.containerRuntime);
-			this.webServer.setRepoInfo(process.cwd(), '');
+			if (this.config.detached) {
+				await this.handOffToDaemon(containerId);
+				return true;
+			}
+
+			// Start web UI, restoring the recorded session so change tracking
+			// resumes with the original branch and shadow repository
+			this.webServer = new WebUIServer(this.docker, this.containerRuntime, this.config.webUI);
+			this.webServer.setRepoInfo(
+				selectedContainer.session?.repoPath || process.cwd(),
+				selectedContainer.session?.branch || '',
+			);
 			this.webServer.setNonGitInit(this.wasNonGitInit);
 
-			const webUrl = await this.webServer.start();
-			const fullUrl = `${webUrl}?container=${containerId}`;
+			await this.webServer.start();
+			const fullUrl = this.webServer.getUrl('/', { container: containerId });
 
 			await this.webServer.openInBrowser(fullUrl);
 
+			await this.startCommitMonitoring(containerId, selectedContainer.session?.branch || '');
+
 			console.log(chalk.green(`\n✓ Reconnected to container: ${containerId.substring(0, 12)}`));
 			console.log(chalk.green(`✓ Web UI available at: ${fullUrl}`));
+			this.printViewerUrl(this.webServer.getViewerUrl(containerId));
 			console.log(chalk.yellow('Keep this terminal open to maintain the session'));
 			console.log('');
 
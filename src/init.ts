@@ -0,0 +1,151 @@
+import type { SandboxConfig } from './types';
+import fs from 'node:fs';
+import path from 'node:path';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { getProjectConfigPath, saveConfig } from './config';
+import { pingContainerRuntime } from './docker-config';
+import { hasRunnerCredentials, listRunners } from './runners';
+
+export interface InitOptions {
+	path?: string; // Where to write the config; defaults to the repository root
+	yes?: boolean; // Accept the proposed values without asking
+	force?: boolean; // Overwrite an existing config
+}
+
+export interface ProjectType {
+	name: string;
+	setupCommands: string[];
+}
+
+/**
+ * Recognise the project's toolchains from their manifest files and propose
+ * the commands that install its dependencies
+ */
+export function detectProjectTypes(dir: string): ProjectType[] {
+	const has = (file: string) => fs.existsSync(path.join(dir, file));
+	const types: ProjectType[] = [];
+
+	if (has('package.json')) {
+		let install = 'npm install';
+		if (has('pnpm-lock.yaml')) {
+			install = 'pnpm install --frozen-lockfile';
+		}
+		else if (has('yarn.lock')) {
+			install = 'yarn install --frozen-lockfile';
+		}
+		else if (has('bun.lockb') || has('bun.lock')) {
+			install = 'bun install';
+		}
+		else if (has('package-lock.json')) {
+			install = 'npm ci';
+		}
+		types.push({ name: 'Node.js', setupCommands: [install] });
+	}
+
+	if (has('pyproject.toml')) {
+		let install = 'pip install -e .';
+		if (has('uv.lock')) {
+			install = 'uv sync';
+		}
+		else if (has('poetry.lock')) {
+			install = 'poetry install';
+		}
+		types.push({ name: 'Python', setupCommands: [install] });
+	}
+	else if (has('requirements.txt')) {
+		types.push({ name: 'Python', setupCommands: ['pip install -r requirements.txt'] });
+	}
+
+	if (has('go.mod')) {
+		types.push({ name: 'Go', setupCommands: ['go mod download'] });
+	}
+
+	if (has('Cargo.toml')) {
+		types.push({ name: 'Rust', setupCommands: ['cargo fetch'] });
+	}
+
+	return types;
+}
+
+/**
+ * Ask a few questions about the project and write claude-run.config.json
+ */
+export async function runInitWizard(options: InitOptions = {}): Promise<string | undefined> {
+	const configPath = await getProjectConfigPath(options.path);
+	const projectDir = path.dirname(configPath);
+	const ask = async <T>(question: Record<string, any>, proposed: T): Promise<T> => {
+		if (options.yes) {
+			return proposed;
+		}
+		const answers = await inquirer.prompt([{ ...question, name: 'value', default: proposed }]);
+		return answers.value;
+	};
+
+	if (fs.existsSync(configPath) && !options.force) {
+		const overwrite = !options.yes && await ask({ type: 'confirm', message: `${configPath} already exists. Overwrite it?` }, false);
+		if (!overwrite) {
+			console.log(chalk.yellow(`⚠ ${configPath} already exists; use --force to overwrite it`));
+			return undefined;
+		}
+	}
+
+	console.log(chalk.blue(`• Setting up ${configPath}`));
+	const config: SandboxConfig = {};
+
+	// Runner: prefer one the host is already signed in to
+	const runners = listRunners();
+	const signedIn = runners.filter(hasRunnerCredentials);
+	if (signedIn.length === 0) {
+		console.log(chalk.yellow('⚠ No runner credentials found; sign in inside the container or set an API key first'));
+	}
+	config.codeRunner = await ask({
+		type: 'list',
+		message: 'Which code runner should this project use?',
+		choices: runners.map(runner => ({
+			name: `${runner.displayName}${signedIn.includes(runner) ? chalk.green(' (credentials found)') : ''}`,
+			value: runner.name,
+		})),
+	}, (signedIn[0] || runners[0]).name);
+
+	// Setup commands from the project's manifests
+	const projectTypes = detectProjectTypes(projectDir);
+	if (projectTypes.length > 0) {
+		console.log(chalk.green(`✓ Detected ${projectTypes.map(type => type.name).join(', ')} project`));
+	}
+	const proposed = projectTypes.flatMap(type => type.setupCommands);
+	const selected = proposed.length > 0
+		? await ask({ type: 'checkbox', message: 'Commands to run when a container starts:', choices: proposed }, proposed)
+		: [];
+	const extra = await ask({ type: 'input', message: 'Other setup command (leave empty for none):' }, '');
+	config.setupCommands = [...selected, ...(extra.trim() ? [extra.trim()] : [])];
+
+	// Container runtime
+	const runtime = await pingContainerRuntime();
+	const location = runtime.socketPath ? ` at ${runtime.socketPath}` : '';
+	if (runtime.error) {
+		console.log(chalk.yellow(`⚠ Could not reach ${runtime.runtime}${location}: ${runtime.error}`));
+	}
+	else {
+		console.log(chalk.green(`✓ ${runtime.runtime} is reachable${location}`));
+	}
+	if (runtime.error && !options.yes) {
+		const socketPath: string = await ask({ type: 'input', message: 'Docker or Podman socket path (leave empty to decide later):' }, runtime.socketPath || '');
+		if (socketPath.trim()) {
+			config.dockerSocketPath = socketPath.trim();
+		}
+	}
+
+	// Environment file
+	if (fs.existsSync(path.join(projectDir, '.env'))) {
+		const useEnvFile = await ask({ type: 'confirm', message: 'Load variables from .env into the container?' }, true);
+		if (useEnvFile) {
+			config.envFile = '.env';
+		}
+	}
+
+	await saveConfig(config, configPath);
+	console.log(chalk.green(`✓ Wrote ${configPath}`));
+	console.log(chalk.gray('  Run `claude-run config --explain` to see the resulting settings'));
+	return configPath;
+}
@@ -0,0 +1,126 @@
+import type Docker from 'dockerode';
+import type { Buffer } from 'node:buffer';
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import chalk from 'chalk';
+
+const execAsync = promisify(exec);
+
+export interface ContainerWatch {
+	stream: any;
+	exec: Docker.Exec;
+}
+
+/**
+ * Make sure inotifywait is available in the container, installing
+ * inotify-tools with whichever package manager it has. Returns false if it
+ * could not be installed, in which case callers fall back to polling.
+ */
+export async function ensureInotifyTools(containerCmd: string, containerId: string): Promise<boolean> {
+	try {
+		await execAsync(`${containerCmd} exec ${containerId} which inotifywait`);
+		return true;
+	}
+	catch {
+		console.log(chalk.yellow('  Installing inotify-tools in container...'));
+	}
+
+	// Try different package managers
+	const installCommands = [
+		'dnf install -y inotify-tools',
+		'yum install -y inotify-tools',
+		'apt-get update && apt-get install -y inotify-tools',
+		'apk add --no-cache inotify-tools',
+	];
+
+	for (const cmd of installCommands) {
+		try {
+			// Try as root user first, then fallback to regular exec
+			try {
+				await execAsync(
+					`${containerCmd} exec --user root ${containerId} sh -c "${cmd}"`,
+				);
+				return true;
+			}
+			catch (rootError) {
+				// If --user root fails, try without it (container might already be running as root)
+				await execAsync(
+					`${containerCmd} exec ${containerId} sh -c "${cmd}"`,
+				);
+				return true;
+			}
+		}
+		catch {
+			continue;
+		}
+	}
+	return false;
+}
+
+/**
+ * Run an inotifywait command in the container and pass each batch of event
+ * lines to `onEvents`. `onFailure` is called once if inotify cannot be set up
+ * or the watch ends.
+ */
+export async function watchInContainer(
+	docker: Docker,
+	containerId: string,
+	command: string,
+	onEvents: (events: string[]) => void,
+	onFailure: (reason: string) => void,
+): Promise<ContainerWatch> {
+	const inotifyExec = await docker.getContainer(containerId).exec({
+		Cmd: ['sh', '-c', command],
+		AttachStdout: true,
+		AttachStderr: true,
+		Tty: false,
+	});
+
+	const stream = await inotifyExec.start({ hijack: true, stdin: false });
+
+	let failed = false;
+	const fail = (reason: string) => {
+		if (failed)
+			return;
+		failed = true;
+		onFailure(reason);
+	};
+
+	stream.on('data', (chunk: Buffer) => {
+		// Handle docker exec stream format (may have header bytes)
+		let data: Buffer;
+		if (chunk.length > 8) {
+			const firstByte = chunk[0];
+			if (firstByte >= 1 && firstByte <= 3) {
+				data = chunk.slice(8);
+			}
+			else {
+				data = chunk;
+			}
+		}
+		else {
+			data = chunk;
+		}
+
+		const output = data.toString();
+		if (output.includes('Couldn\'t initialize inotify') || output.includes('Too many open files')) {
+			fail('initialization failed');
+			return;
+		}
+
+		const events = output.trim().split('\n').filter(event => event.trim());
+		if (events.length > 0) {
+			onEvents(events);
+		}
+	});
+
+	stream.on('error', (err: Error) => {
+		fail(err.message);
+	});
+
+	stream.on('end', () => {
+		fail('stopped');
+	});
+
+	return { stream, exec: inotifyExec };
+}
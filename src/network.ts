@@ -0,0 +1,235 @@
+import type Docker from 'dockerode';
+import type { Readable } from 'node:stream';
+import type { NetworkConfig, SandboxConfig } from './types';
+import * as fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import { PassThrough } from 'node:stream';
+import chalk from 'chalk';
+import tarStream from 'tar-stream';
+import { EGRESS_PROXY_PORT } from './egress-proxy';
+import { getRunner } from './runners';
+
+// Label on sandbox containers and proxy sidecars naming their egress gateway
+export const EGRESS_LABEL = 'com.claude.runner.egress';
+const PROXY_ALIAS = 'egress-proxy';
+const PROXY_SCRIPT_PATH = '/tmp/egress-proxy.js';
+// A gateway is created just before its sandbox container; leave young ones alone
+const PRUNE_GRACE_PERIOD = 5 * 60 * 1000;
+
+// Package registries and GitHub
+const COMMON_DOMAINS = [
+	'registry.npmjs.org',
+	'pypi.org',
+	'files.pythonhosted.org',
+	'github.com',
+	'githubusercontent.com',
+];
+
+export interface EgressGateway {
+	networkMode: string; // NetworkMode for the sandbox container
+	env: string[]; // Proxy variables for the sandbox container
+	name?: string; // Gateway name, stored in the sandbox's EGRESS_LABEL
+}
+
+export interface BlockedRequest {
+	host: string;
+	port: number;
+	method: string;
+	time: string;
+}
+
+export function getNetworkMode(config: SandboxConfig): NonNullable<NetworkConfig['mode']> {
+	return config.network?.mode || 'full';
+}
+
+export function getAllowedDomains(config: SandboxConfig): string[] {
+	const network = config.network || {};
+	const domains = network.defaultDomains === false
+		? []
+		: [...(getRunner(config.codeRunner).domains || []), ...COMMON_DOMAINS];
+	return Array.from(new Set([...domains, ...(network.allowedDomains || [])]));
+}
+
+/**
+ * Set up networking for a new sandbox container. In allowlist mode the
+ * container only joins an internal network whose single way out is a proxy
+ * sidecar that enforces the domain allowlist.
+ */
+export async function createEgressGateway(
+	docker: Docker,
+	config: SandboxConfig,
+	suffix: string,
+): Promise<EgressGateway> {
+	const mode = getNetworkMode(config);
+	if (mode === 'full') {
+		return { networkMode: 'bridge', env: [] };
+	}
+	if (mode === 'none') {
+		console.log(chalk.blue('• Network access disabled for this container'));
+		return { networkMode: 'none', env: [] };
+	}
+
+	// Not using the container prefix keeps sidecars out of `claude-run list`
+	const name = `claude-run-egress-${suffix}`;
+	const allowedDomains = getAllowedDomains(config);
+	const network = await docker.createNetwork({
+		Name: name,
+		Internal: true,
+		Labels: { [EGRESS_LABEL]: name },
+	});
+
+	try {
+		const proxy = await docker.createContainer({
+			Image: config.dockerImage || 'claude-code-runner:latest',
+			name,
+			Env: [`EGRESS_ALLOWED_DOMAINS=${allowedDomains.join(',')}`],
+			Labels: { [EGRESS_LABEL]: name },
+			Cmd: ['node', PROXY_SCRIPT_PATH],
+			HostConfig: {
+				AutoRemove: false,
+				NetworkMode: 'bridge',
+			},
+		});
+		await network.connect({ Container: proxy.id, EndpointConfig: { Aliases: [PROXY_ALIAS] } });
+		await copyProxyScript(proxy);
+		await proxy.start();
+	}
+	catch (error) {
+		await removeEgressGateway(docker, name);
+		throw error;
+	}
+
+	console.log(chalk.green(`✓ Network limited to ${allowedDomains.length} allowed domains`));
+
+	const proxyUrl = `http://${PROXY_ALIAS}:${EGRESS_PROXY_PORT}`;
+	return {
+		networkMode: name,
+		env: [
+			`HTTP_PROXY=${proxyUrl}`,
+			`HTTPS_PROXY=${proxyUrl}`,
+			`http_proxy=${proxyUrl}`,
+			`https_proxy=${proxyUrl}`,
+			'NO_PROXY=localhost,127.0.0.1',
+			'no_proxy=localhost,127.0.0.1',
+		],
+		name,
+	};
+}
+
+async function copyProxyScript(container: Docker.Container): Promise<void> {
+	const script = fs.readFileSync(path.join(__dirname, 'egress-proxy.js'));
+	const pack = tarStream.pack();
+	pack.entry({ name: path.basename(PROXY_SCRIPT_PATH), mode: 0o644 }, script);
+	pack.finalize();
+	await container.putArchive(pack, { path: path.dirname(PROXY_SCRIPT_PATH) });
+}
+
+/**
+ * Name of the egress gateway a sandbox container uses, if any
+ */
+export async function getEgressGatewayName(docker: Docker, containerId: string): Promise<string | undefined> {
+	try {
+		const info = await docker.getContainer(containerId).inspect();
+		const name = info.Config.Labels?.[EGRESS_LABEL];
+		// Proxy sidecars carry the label too
+		return name && info.Name !== `/${name}` ? name : undefined;
+	}
+	catch {
+		return undefined;
+	}
+}
+
+/**
+ * Remove a proxy sidecar and its internal network. The sandbox container
+ * has to be removed first, as the network cannot be removed while in use.
+ */
+export async function removeEgressGateway(docker: Docker, name: string): Promise<void> {
+	try {
+		await docker.getContainer(name).remove({ force: true });
+	}
+	catch {
+		// Already removed
+	}
+	try {
+		await docker.getNetwork(name).remove();
+	}
+	catch {
+		// Already removed, or still in use
+	}
+}
+
+/**
+ * Remove egress gateways whose sandbox container no longer exists
+ */
+export async function pruneEgressGateways(docker: Docker): Promise<number> {
+	const containers = await docker.listContainers({ all: true });
+	const inUse = new Set<string>();
+	const proxies: Docker.ContainerInfo[] = [];
+	for (const container of containers) {
+		const name = container.Labels?.[EGRESS_LABEL];
+		if (!name) {
+			continue;
+		}
+		if (container.Names.includes(`/${name}`)) {
+			proxies.push(container);
+		}
+		else {
+			inUse.add(name);
+		}
+	}
+
+	let removed = 0;
+	for (const proxy of proxies) {
+		const name = proxy.Labels[EGRESS_LABEL];
+		if (!inUse.has(name) && Date.now() - proxy.Created * 1000 > PRUNE_GRACE_PERIOD) {
+			await removeEgressGateway(docker, name);
+			removed++;
+		}
+	}
+	return removed;
+}
+
+/**
+ * Parse a line of proxy sidecar output into a blocked request, if it is one
+ */
+export function parseBlockedRequest(line: string): BlockedRequest | undefined {
+	try {
+		const entry = JSON.parse(line);
+		if (entry.event === 'blocked') {
+			return { host: entry.host, port: entry.port, method: entry.method, time: entry.time };
+		}
+	}
+	catch {
+		// Not a proxy log line
+	}
+	return undefined;
+}
+
+/**
+ * Follow a proxy sidecar's output and report each blocked request, starting
+ * with the ones logged before. Returns a function that stops following.
+ */
+export async function followBlockedRequests(
+	docker: Docker,
+	name: string,
+	onBlocked: (request: BlockedRequest) => void,
+): Promise<() => void> {
+	const logs = await docker.getContainer(name).logs({ follow: true, stdout: true, stderr: false });
+	const stdout = new PassThrough();
+	docker.modem.demuxStream(logs, stdout, stdout);
+	logs.on('end', () => stdout.end());
+
+	const lines = readline.createInterface({ input: stdout });
+	lines.on('line', (line) => {
+		const request = parseBlockedRequest(line);
+		if (request) {
+			onBlocked(request);
+		}
+	});
+
+	return () => {
+		lines.close();
+		(logs as unknown as Readable).destroy();
+	};
+}
@@ -0,0 +1,203 @@
+import type { Buffer } from 'node:buffer';
+import os from 'node:os';
+import path from 'node:path';
+import { StringDecoder } from 'node:string_decoder';
+import chalk from 'chalk';
+import * as fs from 'fs-extra';
+
+export const RECORDINGS_DIR = path.join(os.homedir(), '.claude-run', 'recordings');
+
+// Names handed out by SessionRecorder; anything else is rejected by the web UI
+const RECORDING_NAME = /^[\w-]+\.cast$/;
+
+// asciicast v2 header (first line of the file)
+export interface AsciicastHeader {
+	version: 2;
+	width: number;
+	height: number;
+	timestamp: number; // Unix time the recording started
+	title?: string;
+	env?: Record<string, string>;
+}
+
+// [seconds since start, 'o' for output or 'r' for resize, data]
+export type AsciicastEvent = [number, 'o' | 'r', string];
+
+export interface RecordingInfo {
+	name: string;
+	path: string;
+	containerId: string; // Short container ID the recording belongs to
+	startedAt: string;
+	size: number;
+}
+
+/**
+ * Writes a terminal session to disk as an asciicast v2 file
+ * (https://docs.asciinema.org/manual/asciicast/v2/)
+ */
+export class SessionRecorder {
+	private decoder = new StringDecoder('utf8');
+	private startedAt = Date.now();
+	private closed = false;
+
+	private constructor(readonly path: string, private stream: fs.WriteStream) {
+		// A full disk must not take the session down with it; stop recording instead
+		stream.on('error', (error) => {
+			console.error(chalk.yellow(`⚠ Stopped recording to ${this.path}: ${error.message}`));
+			this.closed = true;
+		});
+	}
+
+	static async create(
+		containerId: string,
+		size: { width: number; height: number },
+		title?: string,
+	): Promise<SessionRecorder> {
+		await fs.ensureDir(RECORDINGS_DIR);
+		const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+		const file = path.join(RECORDINGS_DIR, `${containerId.substring(0, 12)}-${stamp}.cast`);
+
+		const stream = fs.createWriteStream(file, { flags: 'a', mode: 0o600 });
+		const recorder = new SessionRecorder(file, stream);
+		const header: AsciicastHeader = {
+			version: 2,
+			width: size.width,
+			height: size.height,
+			timestamp: Math.floor(recorder.startedAt / 1000),
+			title,
+			env: { TERM: 'xterm-256color', SHELL: '/bin/bash' },
+		};
+		stream.write(`${JSON.stringify(header)}\n`);
+		return recorder;
+	}
+
+	output(data: Buffer): void {
+		// The decoder holds back multi-byte characters split across chunks
+		const text = this.decoder.write(data);
+		if (text) {
+			this.write('o', text);
+		}
+	}
+
+	resize(cols: number, rows: number): void {
+		this.write('r', `${cols}x${rows}`);
+	}
+
+	close(): Promise<void> {
+		if (this.closed) {
+			return Promise.resolve();
+		}
+		const rest = this.decoder.end();
+		if (rest) {
+			this.write('o', rest);
+		}
+		this.closed = true;
+		return new Promise(resolve => this.stream.end(() => resolve()));
+	}
+
+	private write(type: 'o' | 'r', data: string): void {
+		if (this.closed) {
+			return;
+		}
+		const elapsed = (Date.now() - this.startedAt) / 1000;
+		const event: AsciicastEvent = [Number(elapsed.toFixed(6)), type, data];
+		this.stream.write(`${JSON.stringify(event)}\n`);
+	}
+}
+
+export function isRecordingName(name: string): boolean {
+	return RECORDING_NAME.test(name);
+}
+
+/**
+ * All recordings, newest first
+ */
+export async function listRecordings(): Promise<RecordingInfo[]> {
+	if (!(await fs.pathExists(RECORDINGS_DIR))) {
+		return [];
+	}
+
+	const recordings: RecordingInfo[] = [];
+	for (const name of await fs.readdir(RECORDINGS_DIR)) {
+		if (!isRecordingName(name)) {
+			continue;
+		}
+		const file = path.join(RECORDINGS_DIR, name);
+		const stat = await fs.stat(file);
+		recordings.push({
+			name,
+			path: file,
+			containerId: name.substring(0, 12),
+			startedAt: stat.birthtime.toISOString(),
+			size: stat.size,
+		});
+	}
+	return recordings.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/**
+ * Resolve a recording from a file path, a recording name or a container ID
+ * (the newest recording of that container)
+ */
+export async function findRecording(session: string): Promise<string | undefined> {
+	if (await fs.pathExists(session)) {
+		return path.resolve(session);
+	}
+	const recordings = await listRecordings();
+	const byName = recordings.find(r => r.name === session || r.name === `${session}.cast`);
+	if (byName) {
+		return byName.path;
+	}
+	const prefix = session.substring(0, 12);
+	return recordings.find(r => r.containerId.startsWith(prefix))?.path;
+}
+
+export async function readRecording(file: string): Promise<{ header: AsciicastHeader; events: AsciicastEvent[] }> {
+	const lines = (await fs.readFile(file, 'utf-8')).split('\n').filter(line => line.trim());
+	if (lines.length === 0) {
+		throw new Error(`${file} is empty`);
+	}
+	const header = JSON.parse(lines[0]) as AsciicastHeader;
+	if (header.version !== 2) {
+		throw new Error(`${file} is not an asciicast v2 recording`);
+	}
+
+	const events: AsciicastEvent[] = [];
+	for (const line of lines.slice(1)) {
+		try {
+			events.push(JSON.parse(line));
+		}
+		catch {
+			// The last line may be cut off if the recorder was killed
+		}
+	}
+	return { header, events };
+}
+
+/**
+ * Play a recording to a terminal. Pauses longer than `maxIdle` seconds are
+ * shortened to keep long agent runs watchable.
+ */
+export async function replayRecording(
+	file: string,
+	output: NodeJS.WritableStream,
+	options: { speed?: number; maxIdle?: number } = {},
+): Promise<void> {
+	const { events } = await readRecording(file);
+	const speed = options.speed || 1;
+	const maxIdle = options.maxIdle ?? 2;
+
+	let previous = 0;
+	for (const [time, type, data] of events) {
+		const delay = Math.min(time - previous, maxIdle) / speed;
+		previous = time;
+		if (delay > 0) {
+			await new Promise(resolve => setTimeout(resolve, delay * 1000));
+		}
+		// A terminal cannot be resized from here, so resize events are skipped
+		if (type === 'o') {
+			output.write(data);
+		}
+	}
+	output.write('\x1B[0m\n');
+}
@@ -0,0 +1,157 @@
+import type Docker from 'dockerode';
+import type { ResourceConfig } from './types';
+
+// Share of a limit above which usage is reported as a warning
+export const USAGE_WARNING_THRESHOLD = 0.9;
+
+const SIZE_UNITS: Record<string, number> = {
+	b: 1,
+	k: 1024,
+	m: 1024 ** 2,
+	g: 1024 ** 3,
+	t: 1024 ** 4,
+};
+
+export interface ResourceUsage {
+	cpuPercent: number; // 100 means one full core
+	cpuLimit?: number; // Cores
+	memory: number;
+	memoryLimit?: number;
+	pids: number;
+	pidsLimit?: number;
+	disk?: number; // Only measured when a storage quota is set
+	diskLimit?: number;
+	warnings: string[];
+}
+
+/**
+ * Parse a size like `512m`, `4g` or `4GB` into bytes. Plain numbers are bytes.
+ */
+export function parseSize(value: string | number): number {
+	if (typeof value === 'number') {
+		return value;
+	}
+	const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([bkmgt])?i?b?$/);
+	if (!match) {
+		throw new Error(`Invalid size "${value}", expected a number with an optional unit such as 512m or 4g`);
+	}
+	return Math.round(Number(match[1]) * SIZE_UNITS[match[2] || 'b']);
+}
+
+export function formatBytes(bytes: number): string {
+	if (bytes <= 0) {
+		return '0 B';
+	}
+	const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+	const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+	return `${(bytes / 1024 ** i).toFixed(i === 0 ? 0 : 1)} ${units[i]}`;
+}
+
+/**
+ * HostConfig fields for the configured limits. Docker and Podman both accept
+ * these through the Docker API.
+ */
+export function getResourceLimits(resources: ResourceConfig = {}): Docker.HostConfig {
+	const limits: Docker.HostConfig = {};
+	if (resources.memory !== undefined) {
+		limits.Memory = parseSize(resources.memory);
+		// Without this the container may use as much swap again
+		limits.MemorySwap = limits.Memory;
+	}
+	if (resources.cpus !== undefined) {
+		limits.NanoCpus = Math.round(resources.cpus * 1e9);
+	}
+	if (resources.pidsLimit !== undefined) {
+		limits.PidsLimit = resources.pidsLimit;
+	}
+	if (resources.storage !== undefined) {
+		// The storage driver parses the size itself; this only validates it
+		parseSize(resources.storage);
+		limits.StorageOpt = { size: String(resources.storage) };
+	}
+	return limits;
+}
+
+/**
+ * Whether container creation failed because the storage driver has no quota
+ * support (Docker needs overlay2 on xfs with pquota, for example)
+ */
+export function isStorageQuotaUnsupported(error: any): boolean {
+	return /storage[- ]?opt|quota/i.test(error?.message || '');
+}
+
+/**
+ * One sample of a running container's resource usage
+ */
+export async function getResourceUsage(docker: Docker, containerId: string): Promise<ResourceUsage> {
+	const container = docker.getContainer(containerId);
+	const [stats, info] = await Promise.all([
+		container.stats({ stream: false }),
+		container.inspect(),
+	]);
+	const hostConfig = info.HostConfig;
+
+	// Same calculation as `docker stats`
+	const cpuDelta = stats.cpu_stats.cpu_usage.total_usage - (stats.precpu_stats.cpu_usage?.total_usage || 0);
+	const systemDelta = (stats.cpu_stats.system_cpu_usage || 0) - (stats.precpu_stats.system_cpu_usage || 0);
+	const onlineCpus = stats.cpu_stats.online_cpus || stats.cpu_stats.cpu_usage.percpu_usage?.length || 1;
+	const cpuPercent = systemDelta > 0 && cpuDelta > 0 ? (cpuDelta / systemDelta) * onlineCpus * 100 : 0;
+
+	// Page cache can be dropped, so it does not count towards the limit
+	const cache = (stats.memory_stats.stats as any)?.inactive_file ?? stats.memory_stats.stats?.cache ?? 0;
+	const usage: ResourceUsage = {
+		cpuPercent,
+		cpuLimit: hostConfig.NanoCpus ? hostConfig.NanoCpus / 1e9 : undefined,
+		memory: Math.max(0, (stats.memory_stats.usage || 0) - cache),
+		memoryLimit: hostConfig.Memory || undefined,
+		pids: stats.pids_stats?.current || 0,
+		pidsLimit: hostConfig.PidsLimit && hostConfig.PidsLimit > 0 ? hostConfig.PidsLimit : undefined,
+		warnings: [],
+	};
+
+	const storage = hostConfig.StorageOpt?.size;
+	if (storage) {
+		// Size of the writable layer, which is what the quota applies to
+		const [sized] = await docker.listContainers({ all: true, size: true, filters: { id: [containerId] } }) as
+			(Docker.ContainerInfo & { SizeRw?: number })[];
+		usage.disk = sized?.SizeRw || 0;
+		usage.diskLimit = parseSize(storage);
+	}
+
+	usage.warnings = getUsageWarnings(usage);
+	return usage;
+}
+
+function getUsageWarnings(usage: ResourceUsage): string[] {
+	const warnings: string[] = [];
+	const near = (value: number, limit?: number) => !!limit && value >= limit * USAGE_WARNING_THRESHOLD;
+
+	if (usage.cpuLimit && near(usage.cpuPercent, usage.cpuLimit * 100)) {
+		warnings.push(`CPU at ${Math.round(usage.cpuPercent)}% of ${usage.cpuLimit} cores`);
+	}
+	if (near(usage.memory, usage.memoryLimit)) {
+		warnings.push(`Memory at ${formatBytes(usage.memory)} of ${formatBytes(usage.memoryLimit!)}`);
+	}
+	if (near(usage.pids, usage.pidsLimit)) {
+		warnings.push(`${usage.pids} of ${usage.pidsLimit} processes`);
+	}
+	if (usage.disk !== undefined && near(usage.disk, usage.diskLimit)) {
+		warnings.push(`Disk at ${formatBytes(usage.disk)} of ${formatBytes(usage.diskLimit!)}`);
+	}
+	return warnings;
+}
+
+/**
+ * One-line summary such as `CPU 12% · Mem 1.2 GB / 4.0 GB · PIDs 40 / 512`
+ */
+export function formatResourceUsage(usage: ResourceUsage): string {
+	const parts = [
+		`CPU ${Math.round(usage.cpuPercent)}%${usage.cpuLimit ? ` / ${usage.cpuLimit * 100}%` : ''}`,
+		`Mem ${formatBytes(usage.memory)}${usage.memoryLimit ? ` / ${formatBytes(usage.memoryLimit)}` : ''}`,
+		`PIDs ${usage.pids}${usage.pidsLimit ? ` / ${usage.pidsLimit}` : ''}`,
+	];
+	if (usage.disk !== undefined) {
+		parts.push(`Disk ${formatBytes(usage.disk)} / ${formatBytes(usage.diskLimit || 0)}`);
+	}
+	return parts.join(' · ');
+}
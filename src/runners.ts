@@ -0,0 +1,226 @@
+import type { CodeRunner, CodeRunnerConfig, ConfigSyncRule, RunnerDefinition, SandboxConfig } from './types';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import chalk from 'chalk';
+import { expandHome, syncSourceExists } from './config-sync';
+
+// Runner definitions installed by the user, one JSON file per runner
+export const RUNNERS_DIR = path.join(os.homedir(), '.claude-run', 'runners');
+
+const RUNNER_NAME = /^[a-z0-9][\w-]*$/i;
+
+// Config options that older versions used to point at a runner's config file
+const LEGACY_CONFIG_PATH_OPTIONS: Record<string, keyof SandboxConfig> = {
+	claude: 'claudeConfigPath',
+	opencode: 'opencodeConfigPath',
+	codex: 'codexConfigPath',
+	kimi: 'kimiConfigPath',
+	qwen: 'qwenConfigPath',
+};
+
+// Runners that ship with claude-run and are installed in the default image
+const BUILTIN_RUNNERS: CodeRunnerConfig[] = [
+	{
+		name: 'claude',
+		displayName: 'Claude Code',
+		command: 'claude',
+		dangerousFlag: '--dangerously-skip-permissions',
+		installMethod: 'script',
+		installCommand: 'curl -fsSL https://claude.ai/install.sh | bash',
+		pathSetup: 'export PATH="$HOME/.local/bin:$PATH"',
+		headlessArgs: '-p --dangerously-skip-permissions',
+		configFiles: [{ source: '~/.claude.json' }, { source: '~/.claude' }],
+		aliases: ['claude-run', 'clauderun', 'ccrun'],
+		domains: ['anthropic.com', 'claude.ai'],
+	},
+	{
+		name: 'opencode',
+		displayName: 'OpenCode',
+		command: 'opencode',
+		dangerousFlag: '', // OpenCode has no dangerous mode flag; auto-approval only in non-interactive mode (-p)
+		installMethod: 'npm',
+		installCommand: 'npm install -g opencode',
+		pathSetup: '', // npm global bin is already in PATH
+		headlessArgs: 'run',
+		configFiles: [{ source: '~/.config/opencode/opencode.json', target: '.config/opencode/opencode.json' }],
+		aliases: ['ocrun', 'opencoderun', 'opencode-run'],
+		domains: ['opencode.ai', 'models.dev', 'anthropic.com', 'openai.com'],
+	},
+	{
+		name: 'codex',
+		displayName: 'Codex',
+		command: 'codex',
+		dangerousFlag: '--dangerously-bypass-approvals-and-sandbox',
+		installMethod: 'npm',
+		installCommand: 'npm install -g @openai/codex',
+		pathSetup: '', // npm global bin is already in PATH
+		headlessArgs: 'exec --dangerously-bypass-approvals-and-sandbox',
+		configFiles: [{ source: '~/.codex', target: '.codex' }],
+		aliases: ['cxrun', 'codexrun', 'codex-run'],
+		domains: ['openai.com', 'chatgpt.com'],
+	},
+	{
+		name: 'kimi',
+		displayName: 'Kimi Code',
+		command: 'kimi',
+		dangerousFlag: '--yolo',
+		installMethod: 'script',
+		installCommand: 'curl -LsSf https://code.kimi.com/install.sh | bash',
+		pathSetup: 'export PATH="$HOME/.local/bin:$PATH"',
+		headlessArgs: '--print --command',
+		configFiles: [{ source: '~/.kimi', target: '.kimi' }],
+		aliases: ['kmrun', 'kimirun', 'kimi-run'],
+		domains: ['moonshot.cn', 'moonshot.ai', 'kimi.com'],
+	},
+	{
+		name: 'qwen',
+		displayName: 'Qwen Code',
+		command: 'qwen',
+		dangerousFlag: '--yolo',
+		installMethod: 'npm',
+		installCommand: 'npm install -g @qwen-code/qwen-code@latest',
+		pathSetup: '', // npm global bin is already in PATH
+		headlessArgs: '--yolo -p',
+		configFiles: [{ source: '~/.qwen', target: '.qwen' }],
+		aliases: ['qwrun', 'qwenrun', 'qwen-run'],
+		domains: ['aliyuncs.com', 'qwen.ai'],
+	},
+];
+
+// Claude Code can also be signed in through the environment, see CredentialManager
+const CLAUDE_CREDENTIAL_ENV = ['ANTHROPIC_API_KEY', 'CLAUDE_CODE_USE_BEDROCK', 'CLAUDE_CODE_USE_VERTEX'];
+
+const registry = new Map<string, CodeRunnerConfig>(BUILTIN_RUNNERS.map(runner => [runner.name, runner]));
+let pluginsLoaded = false;
+
+/**
+ * Fill in the optional fields of a runner definition and check the rest
+ */
+export function normalizeRunner(definition: RunnerDefinition): CodeRunnerConfig {
+	if (!definition || typeof definition !== 'object') {
+		throw new Error('a runner definition must be an object');
+	}
+	if (typeof definition.name !== 'string' || !RUNNER_NAME.test(definition.name) || definition.name === 'bash') {
+		throw new Error(`invalid runner name "${definition.name}"`);
+	}
+	if (typeof definition.command !== 'string' || !definition.command.trim()) {
+		throw new Error(`runner "${definition.name}" has no command`);
+	}
+	if (definition.installMethod && !['script', 'npm', 'pip'].includes(definition.installMethod)) {
+		throw new Error(`runner "${definition.name}" has an unknown install method "${definition.installMethod}"`);
+	}
+
+	return {
+		displayName: definition.name,
+		dangerousFlag: '',
+		installMethod: 'script',
+		installCommand: '',
+		pathSetup: '',
+		headlessArgs: '',
+		...definition,
+		name: definition.name.toLowerCase(),
+	};
+}
+
+/**
+ * Add runner definitions to the registry. A definition with the name of an
+ * existing runner is merged over it. Invalid definitions are skipped with a
+ * warning.
+ */
+export function registerRunners(definitions: Partial<RunnerDefinition>[], source: string): void {
+	for (const definition of definitions) {
+		try {
+			const existing = typeof definition?.name === 'string' ? registry.get(definition.name.toLowerCase()) : undefined;
+			const runner = normalizeRunner({ ...existing, ...definition } as RunnerDefinition);
+			registry.set(runner.name, runner);
+		}
+		catch (error: any) {
+			console.warn(chalk.yellow(`⚠ Ignoring runner from ${source}: ${error.message}`));
+		}
+	}
+}
+
+// Runner plugins from ~/.claude-run/runners are loaded on first use
+function loadRunnerPlugins(): void {
+	if (pluginsLoaded) {
+		return;
+	}
+	pluginsLoaded = true;
+	if (!fs.existsSync(RUNNERS_DIR)) {
+		return;
+	}
+
+	for (const file of fs.readdirSync(RUNNERS_DIR).sort()) {
+		if (!file.endsWith('.json')) {
+			continue;
+		}
+		const filePath = path.join(RUNNERS_DIR, file);
+		try {
+			const content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+			registerRunners(Array.isArray(content) ? content : [content], filePath);
+		}
+		catch (error: any) {
+			console.warn(chalk.yellow(`⚠ Ignoring runner file ${filePath}: ${error.message}`));
+		}
+	}
+}
+
+export function listRunners(): CodeRunnerConfig[] {
+	loadRunnerPlugins();
+	return Array.from(registry.values());
+}
+
+export function isRunner(name: string): boolean {
+	loadRunnerPlugins();
+	return registry.has(name.toLowerCase());
+}
+
+export function getRunner(name: CodeRunner = 'claude'): CodeRunnerConfig {
+	loadRunnerPlugins();
+	const runner = registry.get(name.toLowerCase());
+	if (!runner) {
+		throw new Error(`Unknown code runner: ${name}. Available runners: ${listRunners().map(r => r.name).join(', ')}`);
+	}
+	return runner;
+}
+
+/**
+ * The runner a CLI alias such as `cxrun` starts. The default `claude-run`
+ * names return undefined so the configured runner is used.
+ */
+export function findRunnerByAlias(commandName: string): CodeRunner | undefined {
+	const runner = listRunners().find(r => r.aliases?.includes(commandName));
+	return runner && runner.name !== 'claude' ? runner.name : undefined;
+}
+
+/**
+ * Rules for copying a runner's config files into the container, with the
+ * legacy `*ConfigPath` options applied
+ */
+export function getConfigSyncRules(runner: CodeRunnerConfig, config: SandboxConfig): ConfigSyncRule[] {
+	const legacyOption = LEGACY_CONFIG_PATH_OPTIONS[runner.name];
+	return (runner.configFiles || []).map((rule, index) => {
+		const override = index === 0 && legacyOption ? config[legacyOption] : undefined;
+		if (typeof override !== 'string') {
+			return rule;
+		}
+		// Keep the container path the default source would have had
+		const target = rule.target || path.relative(os.homedir(), expandHome(rule.source)).split(path.sep).join('/');
+		return { ...rule, source: override, target };
+	});
+}
+
+/**
+ * Whether the host has what a runner needs to sign in: one of its config
+ * files, or one of its credential variables
+ */
+export function hasRunnerCredentials(runner: CodeRunnerConfig): boolean {
+	const variables = [...(runner.requiredEnv || []), ...(runner.env || [])];
+	if (runner.name === 'claude') {
+		variables.push(...CLAUDE_CREDENTIAL_ENV);
+	}
+	return variables.some(name => process.env[name])
+		|| getConfigSyncRules(runner, {}).some(syncSourceExists);
+}
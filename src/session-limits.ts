@@ -0,0 +1,177 @@
+import type Docker from 'dockerode';
+import type { SandboxConfig, SessionExpiry, SessionRecord } from './types';
+import path from 'node:path';
+import chalk from 'chalk';
+import { ShadowRepository } from './git/shadow-repository';
+import { SessionStore } from './session-store';
+
+// Clients are warned this long before a session is stopped
+export const DEADLINE_WARNING = 5 * 60 * 1000;
+
+// Limits are also kept on the container, for containers without a session record
+export const EXPIRES_AT_LABEL = 'com.claude.runner.expires-at';
+export const MAX_IDLE_LABEL = 'com.claude.runner.max-idle';
+
+export type ExpiryReason = SessionExpiry['reason'];
+
+export interface SessionDeadline {
+	at: number; // Epoch milliseconds
+	reason: ExpiryReason;
+}
+
+export type SessionLimits = Pick<SessionRecord, 'expiresAt' | 'maxIdleDuration'>;
+
+export interface ExpiredSession {
+	containerId: string;
+	record?: SessionRecord;
+	reason: ExpiryReason;
+}
+
+/**
+ * Limits to store in a new session record
+ */
+export function getSessionLimits(
+	config: SandboxConfig,
+	startedAt: Date = new Date(),
+): SessionLimits {
+	return {
+		expiresAt: config.maxSessionDuration
+			? new Date(startedAt.getTime() + config.maxSessionDuration).toISOString()
+			: undefined,
+		maxIdleDuration: config.maxIdleDuration || undefined,
+	};
+}
+
+export function getLimitLabels(limits: SessionLimits): Record<string, string> {
+	const labels: Record<string, string> = {};
+	if (limits.expiresAt) {
+		labels[EXPIRES_AT_LABEL] = limits.expiresAt;
+	}
+	if (limits.maxIdleDuration) {
+		labels[MAX_IDLE_LABEL] = String(limits.maxIdleDuration);
+	}
+	return labels;
+}
+
+/**
+ * The earliest point at which a session has to be stopped, if it has limits.
+ * Without a time of last activity the idle limit cannot be checked.
+ */
+export function getDeadline(limits: SessionLimits, lastActivityAt?: number): SessionDeadline | undefined {
+	const deadlines: SessionDeadline[] = [];
+	if (limits.expiresAt) {
+		deadlines.push({ at: Date.parse(limits.expiresAt), reason: 'duration' });
+	}
+	if (limits.maxIdleDuration && lastActivityAt !== undefined) {
+		deadlines.push({ at: lastActivityAt + limits.maxIdleDuration, reason: 'idle' });
+	}
+	return deadlines.sort((a, b) => a.at - b.at)[0];
+}
+
+/**
+ * Running containers past a limit from their session record, or from their
+ * labels if they have none. Idle time counts from the last activity a web
+ * UI server recorded, so sessions no server has hosted never go idle.
+ */
+export async function findExpiredSessions(
+	containers: Docker.ContainerInfo[],
+	store: SessionStore = new SessionStore(),
+	now: number = Date.now(),
+): Promise<ExpiredSession[]> {
+	const expired: ExpiredSession[] = [];
+	for (const c of containers) {
+		if (c.State !== 'running') {
+			continue;
+		}
+		const labels = c.Labels || {};
+		const record = await store.get(c.Id) || undefined;
+		const limits: SessionLimits = record || {
+			expiresAt: labels[EXPIRES_AT_LABEL],
+			maxIdleDuration: Number(labels[MAX_IDLE_LABEL]) || undefined,
+		};
+		const lastActivityAt = record?.lastActivityAt ? Date.parse(record.lastActivityAt) : undefined;
+		const deadline = getDeadline(limits, lastActivityAt);
+		if (deadline && deadline.at <= now) {
+			expired.push({ containerId: c.Id, record, reason: deadline.reason });
+		}
+	}
+	return expired;
+}
+
+export function describeExpiry(reason: ExpiryReason): string {
+	return reason === 'duration' ? 'reached its maximum duration' : 'was idle for too long';
+}
+
+/**
+ * Sync a session's changes into its shadow repository one last time before
+ * the container goes away. Used where no web UI server tracks the session.
+ */
+export async function finalSync(
+	record: SessionRecord,
+	containerRuntime?: string,
+): Promise<Pick<SessionExpiry, 'finalSync' | 'error'>> {
+	if (!record.shadowPath) {
+		return { finalSync: 'skipped' };
+	}
+	try {
+		const shadowRepo = new ShadowRepository(
+			{
+				originalRepo: record.repoPath,
+				claudeBranch: record.branch,
+				sessionId: record.containerId.substring(0, 12),
+				containerRuntime,
+			},
+			path.dirname(record.shadowPath),
+		);
+		if (!(await shadowRepo.restore())) {
+			return { finalSync: 'skipped' };
+		}
+		await shadowRepo.syncFromContainer(record.containerId);
+		return { finalSync: 'ok' };
+	}
+	catch (error: any) {
+		return { finalSync: 'failed', error: error.message };
+	}
+}
+
+/**
+ * Sync and stop an expired session that no web UI server is looking after,
+ * and record the outcome. `beforeStop` runs between the two.
+ */
+export async function reapSession(
+	docker: Docker,
+	session: ExpiredSession,
+	options: { containerRuntime?: string; store?: SessionStore; beforeStop?: () => Promise<void> } = {},
+): Promise<SessionExpiry> {
+	const { containerRuntime, store = new SessionStore(), beforeStop } = options;
+	const sync = session.record ? await finalSync(session.record, containerRuntime) : { finalSync: 'skipped' as const };
+	await beforeStop?.();
+	const expiry = await stopExpiredContainer(docker, session.containerId, session.reason, sync);
+	await store.update(session.containerId, { expiry, detached: false });
+	return expiry;
+}
+
+/**
+ * Stop an expired session's container and describe the outcome for its record
+ */
+export async function stopExpiredContainer(
+	docker: Docker,
+	containerId: string,
+	reason: ExpiryReason,
+	sync: Pick<SessionExpiry, 'finalSync' | 'error'>,
+): Promise<SessionExpiry> {
+	if (sync.finalSync === 'failed') {
+		console.warn(chalk.yellow(`⚠ Final sync of ${containerId.substring(0, 12)} failed: ${sync.error}`));
+	}
+	try {
+		await docker.getContainer(containerId).stop();
+	}
+	catch (error: any) {
+		// 304: already stopped
+		if (error.statusCode !== 304) {
+			throw error;
+		}
+	}
+	console.log(chalk.yellow(`⚠ Stopped ${containerId.substring(0, 12)}: the session ${describeExpiry(reason)}`));
+	return { reason, stoppedAt: new Date().toISOString(), ...sync };
+}
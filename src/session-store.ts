@@ -0,0 +1,114 @@
+import type { SessionRecord } from './types';
+import os from 'node:os';
+import path from 'node:path';
+import chalk from 'chalk';
+import * as fs from 'fs-extra';
+
+/**
+ * On-disk registry of sessions, one JSON file per container, so a container
+ * can be linked back to its repository, branch and shadow repository after
+ * the host process that started it has exited.
+ */
+export class SessionStore {
+	constructor(
+		private basePath: string = path.join(os.homedir(), '.claude-run', 'sessions'),
+	) {}
+
+	async save(record: SessionRecord): Promise<void> {
+		await fs.ensureDir(this.basePath);
+		await fs.writeFile(
+			this.recordPath(record.containerId),
+			JSON.stringify(record, null, 2),
+		);
+	}
+
+	/**
+	 * Look up a session by full or abbreviated container ID
+	 */
+	async get(containerId: string): Promise<SessionRecord | null> {
+		const exact = this.recordPath(containerId);
+		if (await fs.pathExists(exact)) {
+			return this.read(exact);
+		}
+
+		for (const record of await this.list()) {
+			if (record.containerId.startsWith(containerId)) {
+				return record;
+			}
+		}
+		return null;
+	}
+
+	async update(containerId: string, changes: Partial<SessionRecord>): Promise<void> {
+		const record = await this.get(containerId);
+		if (!record) {
+			return;
+		}
+		await this.save({ ...record, ...changes, containerId: record.containerId });
+	}
+
+	async list(): Promise<SessionRecord[]> {
+		if (!(await fs.pathExists(this.basePath))) {
+			return [];
+		}
+
+		const records: SessionRecord[] = [];
+		for (const file of await fs.readdir(this.basePath)) {
+			if (!file.endsWith('.json')) {
+				continue;
+			}
+			const record = await this.read(path.join(this.basePath, file));
+			if (record) {
+				records.push(record);
+			}
+		}
+		return records;
+	}
+
+	/**
+	 * Remove a session record, optionally deleting its shadow repository too
+	 */
+	async remove(containerId: string, removeShadow = false): Promise<void> {
+		const record = await this.get(containerId);
+		if (!record) {
+			return;
+		}
+		if (removeShadow && record.shadowPath) {
+			await fs.remove(record.shadowPath);
+		}
+		await fs.remove(this.recordPath(record.containerId));
+	}
+
+	/**
+	 * Remove sessions whose containers no longer exist, along with their
+	 * shadow repositories. Returns the number of sessions removed.
+	 * Shadow repositories of expired sessions are kept, as they hold the
+	 * final sync taken before the container was stopped.
+	 */
+	async prune(existingContainerIds: string[]): Promise<number> {
+		const existing = new Set(existingContainerIds);
+		let removed = 0;
+
+		for (const record of await this.list()) {
+			if (!existing.has(record.containerId)) {
+				await this.remove(record.containerId, !record.expiry);
+				removed++;
+			}
+		}
+		return removed;
+	}
+
+	private recordPath(containerId: string): string {
+		return path.join(this.basePath, `${containerId}.json`);
+	}
+
+	private async read(filePath: string): Promise<SessionRecord | null> {
+		try {
+			return await fs.readJson(filePath);
+		}
+		catch (error) {
+			console.warn(chalk.yellow(`⚠ Ignoring unreadable session record: ${filePath}`));
+			return null;
+		}
+	}
+}
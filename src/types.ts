@@ -1,5 +1,5 @@
-// Supported code runners
-export type CodeRunner = 'claude' | 'opencode' | 'codex' | 'kimi' | 'qwen';
+// Name of a built-in or plugin code runner, e.g. 'claude' or 'codex'
+export type CodeRunner = string;
 
 // Code runner configuration
 export interface CodeRunnerConfig {
@@ -7,65 +7,33 @@ export interface CodeRunnerConfig {
 	displayName: string;
 	command: string;
 	dangerousFlag: string;
-	installMethod: 'script' | 'npm';
-	installCommand: string;
+	installMethod: 'script' | 'npm' | 'pip';
+	installCommand: string; // Run when the command is missing from the image
 	pathSetup: string;
-	configPath?: string;
-}
-
-// Registry of supported code runners
-export const CODE_RUNNERS: Record<CodeRunner, CodeRunnerConfig> = {
-	claude: {
-		name: 'claude',
-		displayName: 'Claude Code',
-		command: 'claude',
-		dangerousFlag: '--dangerously-skip-permissions',
-		installMethod: 'script',
-		installCommand: 'curl -fsSL https://claude.ai/install.sh | bash',
-		pathSetup: 'export PATH="$HOME/.local/bin:$PATH"',
-		configPath: '.claude.json',
-	},
-	opencode: {
-		name: 'opencode',
-		displayName: 'OpenCode',
-		command: 'opencode',
-		dangerousFlag: '', // OpenCode has no dangerous mode flag; auto-approval only in non-interactive mode (-p)
-		installMethod: 'npm',
-		installCommand: 'npm install -g opencode',
-		pathSetup: '', // npm global bin is already in PATH
-		configPath: 'opencode.json',
-	},
-	codex: {
-		name: 'codex',
-		displayName: 'Codex',
-		command: 'codex',
-		dangerousFlag: '--dangerously-bypass-approvals-and-sandbox',
-		installMethod: 'npm',
-		installCommand: 'npm install -g @openai/codex',
-		pathSetup: '', // npm global bin is already in PATH
-		configPath: '.codex',
-	},
-	kimi: {
-		name: 'kimi',
-		displayName: 'Kimi Code',
-		command: 'kimi',
-		dangerousFlag: '--yolo',
-		installMethod: 'script',
-		installCommand: 'curl -LsSf https://code.kimi.com/install.sh | bash',
-		pathSetup: 'export PATH="$HOME/.local/bin:$PATH"',
-		configPath: '.kimi',
-	},
-	qwen: {
-		name: 'qwen',
-		displayName: 'Qwen Code',
-		command: 'qwen',
-		dangerousFlag: '--yolo',
-		installMethod: 'npm',
-		installCommand: 'npm install -g @qwen-code/qwen-code@latest',
-		pathSetup: '', // npm global bin is already in PATH
-		configPath: '.qwen',
-	},
-};
+	headlessArgs: string; // Arguments for a non-interactive run; the prompt is appended last
+	configFiles?: ConfigSyncRule[]; // Copied into the container when they exist on the host
+	env?: string[]; // Host environment variables forwarded to the container when set
+	requiredEnv?: string[]; // At least one must be set unless a config file exists
+	aliases?: string[]; // Command names that start this runner, e.g. 'cxrun'
+	domains?: string[]; // API endpoints the runner needs in allowlist network mode
+}
+
+// Files copied into the container, and optionally back to the host afterwards
+export interface ConfigSyncRule {
+	source: string; // Host file, directory or glob such as '~/.codex/*.toml'; ~ is expanded
+	target?: string; // Relative to the container home; defaults to the source's path under ~
+	mode?: string | number; // File mode such as '600'; defaults to the host file's
+	exclude?: string[]; // Globs of files to leave out; without a slash they match any path segment
+	redact?: string[]; // Keys removed from the copies, e.g. 'api_key' or '*token*'
+	syncBack?: boolean; // Default: true - copy changes back when configSync.syncBack is on
+	syncBackNew?: boolean; // Default: false - also copy back files created in the container
+}
+
+// A runner as written in a config file or ~/.claude-run/runners/*.json
+export type RunnerDefinition = Pick<CodeRunnerConfig, 'name' | 'command'> & Partial<CodeRunnerConfig>;
+
+// An entry in the `runners` option: a new runner, or changes to the one with the same name
+export type RunnerEntry = Pick<CodeRunnerConfig, 'name'> & Partial<CodeRunnerConfig>;
 
 export interface VolumeMount {
 	source: string;
@@ -78,11 +46,16 @@ export interface SandboxConfig {
 	dockerfile?: string;
 	buildImage?: boolean;
 	containerPrefix?: string;
-	autoPush?: boolean;
-	autoCreatePR?: boolean;
+	autoPush?: boolean; // Default: false - push the branch to origin when the runner commits, or when the session ends (see pushOn)
+	autoCreatePR?: boolean; // Default: false - open a pull request for the branch once autoPush has pushed it
+	pushOn?: PublishTrigger; // Default: 'commit' - when autoPush pushes the branch
+	pullRequest?: PullRequestConfig; // How autoCreatePR opens pull requests
+	forge?: ForgeConfig; // Which service hosts origin, when it cannot be told from the remote URL
 	autoStartClaude?: boolean;
-	defaultShell?: 'claude' | 'opencode' | 'codex' | 'kimi' | 'qwen' | 'bash';
+	defaultShell?: CodeRunner | 'bash';
 	codeRunner?: CodeRunner; // Which code runner to use
+	runners?: RunnerEntry[]; // Extra runners, or overrides of built-in ones
+	configSync?: ConfigSyncConfig;
 	claudeConfigPath?: string;
 	opencodeConfigPath?: string; // Path to OpenCode config (e.g., ~/.config/opencode/opencode.json)
 	codexConfigPath?: string; // Path to Codex config directory (e.g., ~/.codex)
@@ -102,6 +75,16 @@ export interface SandboxConfig {
 	prNumber?: string;
 	dockerSocketPath?: string;
 	skipReconnectCheck?: boolean; // Default: false - check for existing containers
+	detached?: boolean; // Default: false - hand the session to the background daemon and return
+	taskId?: string; // Batch task identifier, recorded as a container label
+	profiles?: Record<string, ProfileConfig>; // Named sets of overrides, e.g. 'review' or 'refactor'
+	defaultProfile?: string; // Profile applied when none is selected with --profile
+	profile?: string; // Selected profile, recorded as a container label
+	maxSessionDuration?: number; // Milliseconds; the container is stopped once the session has run this long
+	maxIdleDuration?: number; // Milliseconds without terminal output or input before the container is stopped
+	webUI?: WebUIConfig;
+	network?: NetworkConfig;
+	resources?: ResourceConfig;
 	// SSH/GPG configuration
 	forwardSshKeys?: boolean; // Default: true - forward ~/.ssh to container
 	forwardGpgKeys?: boolean; // Default: true - forward ~/.gnupg to container
@@ -110,6 +93,144 @@ export interface SandboxConfig {
 	enableGpgSigning?: boolean; // Default: false - enable GPG commit signing
 }
 
+// Options a profile overrides; profiles cannot select or define other profiles
+export type ProfileConfig = Omit<SandboxConfig, 'profiles' | 'defaultProfile' | 'profile'>;
+
+export interface WebUIConfig {
+	host?: string; // Default: '127.0.0.1' - interface the web UI binds to, e.g. '0.0.0.0' for LAN access
+	port?: number; // Default: 3456 - the next free port is used when taken
+	socketPath?: string; // Listen on a Unix socket instead of a TCP port
+	auth?: boolean; // Default: true - require the per-session access token
+	tls?: boolean; // Default: on for non-loopback hosts - serve HTTPS, with a self-signed certificate unless one is given
+	tlsCert?: string; // PEM certificate file
+	tlsKey?: string; // PEM private key file
+	record?: boolean; // Default: true - record terminal sessions to ~/.claude-run/recordings
+	password?: string; // Also allow signing in with this password; CLAUDE_RUN_WEB_PASSWORD works too
+}
+
+// Title and body are templates: {{branch}}, {{subject}} (the branch's first
+// commit) and {{commits}} (a list of the branch's commit subjects) are replaced
+export interface PullRequestConfig {
+	title?: string; // Default: '{{subject}}'
+	body?: string; // Default: '{{commits}}'
+	draft?: boolean; // Default: false - open the pull request as a draft
+	reviewers?: string[]; // Users or teams asked to review
+	labels?: string[];
+}
+
+export type ForgeType = 'github' | 'gitlab' | 'gitea';
+
+export interface ForgeConfig {
+	type?: ForgeType; // Detected from the origin URL by default; 'gitea' also covers Forgejo
+	url?: string; // Web address of a self-hosted forge, e.g. 'https://git.example.com'
+}
+
+export type PublishTrigger = 'commit' | 'session-end';
+
+// autoPush and autoCreatePR as recorded for a session, so whichever process
+// ends the session publishes its branch the same way
+export interface PublishPolicy {
+	pushOn: PublishTrigger;
+	createPR: boolean;
+	pullRequest?: PullRequestConfig;
+}
+
+export interface ConfigSyncConfig {
+	syncBack?: boolean; // Default: false - copy changed config files back to the host when the session ends
+	files?: ConfigSyncRule[]; // Extra files to copy into every container
+}
+
+export interface NetworkConfig {
+	mode?: 'full' | 'none' | 'allowlist'; // Default: 'full'
+	allowedDomains?: string[]; // Extra domains reachable in allowlist mode; subdomains are included
+	defaultDomains?: boolean; // Default: true - also allow the runner's API, package registries and GitHub
+}
+
+export interface ResourceConfig {
+	memory?: string | number; // e.g. '4g'; swap is capped at the same amount
+	cpus?: number; // e.g. 2 or 0.5
+	pidsLimit?: number; // Maximum number of processes
+	storage?: string; // Writable layer quota, e.g. '20g'; needs storage driver support
+}
+
+export interface ExecOptions {
+	output?: NodeJS.WritableStream; // Where runner output is streamed (default: stdout)
+	errorOutput?: NodeJS.WritableStream; // Where the runner's stderr goes (default: output if set, otherwise stderr)
+	keepContainer?: boolean; // Default: false - remove the container once the run finishes
+	patchFile?: string; // Write the resulting changes as a git patch
+}
+
+export interface ExecResult {
+	containerId: string;
+	branchName: string;
+	exitCode: number;
+	hasChanges: boolean;
+	summary: string;
+	shadowPath: string;
+	commits: number; // Commits the runner made on the branch inside the container
+	syncError?: string;
+}
+
+export interface SessionRecord {
+	containerId: string;
+	repoPath: string; // Host repository the container was started from
+	branch: string;
+	runner?: CodeRunner; // Unknown for containers started before sessions were recorded
+	shadowPath?: string; // Set once the shadow repository has been created
+	detached?: boolean; // Managed by the background daemon
+	expiresAt?: string; // Set when maxSessionDuration is configured
+	maxIdleDuration?: number;
+	lastActivityAt?: string; // Last terminal output or input a web UI server saw, for the idle limit
+	publish?: PublishPolicy; // Set when autoPush is on
+	forge?: ForgeConfig;
+	expiry?: SessionExpiry; // Set once the session has been stopped for exceeding a limit
+	createdAt: string;
+}
+
+export interface SessionExpiry {
+	reason: 'duration' | 'idle';
+	stoppedAt: string;
+	finalSync: 'ok' | 'failed' | 'skipped'; // Sync into the shadow repository before stopping
+	error?: string;
+}
+
+export interface BatchTask {
+	id?: string;
+	prompt?: string;
+	promptFile?: string; // Relative to the task file
+	branch?: string;
+	runner?: CodeRunner;
+}
+
+export interface BatchFile {
+	concurrency?: number;
+	runner?: CodeRunner; // Default runner for tasks that don't set one
+	tasks: BatchTask[];
+}
+
+export interface BatchTaskResult {
+	id: string;
+	status: 'changes' | 'no-changes' | 'failed';
+	runner: CodeRunner;
+	branchName?: string;
+	containerId?: string;
+	exitCode?: number;
+	summary?: string;
+	commits: number;
+	shadowPath?: string;
+	logFile: string;
+	durationMs: number;
+	error?: string;
+}
+
+export interface BatchReport {
+	taskFile: string;
+	startedAt: string;
+	finishedAt: string;
+	concurrency: number;
+	tasks: BatchTaskResult[];
+}
+
 export interface Credentials {
 	claude?: {
 		type: 'api_key' | 'oauth' | 'bedrock' | 'vertex';
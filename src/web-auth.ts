@@ -0,0 +1,225 @@
+import type express from 'express';
+import type { Socket } from 'socket.io';
+import { Buffer } from 'node:buffer';
+import crypto from 'node:crypto';
+import chalk from 'chalk';
+
+export interface WebAuthOptions {
+	enabled?: boolean; // Default: true
+	password?: string;
+	secure?: boolean; // Served over HTTPS: mark the cookie Secure
+}
+
+// Viewers can watch a session but not type into it or change the repository
+export type WebRole = 'operator' | 'viewer';
+
+// What a token grants. Viewer tokens only reach the container they were issued for.
+export interface WebGrant {
+	role: WebRole;
+	containerId?: string;
+}
+
+// Reachable without a token so the login page can load
+const PUBLIC_PATHS = ['/login.html', '/i18n.js', '/api/login', '/api/auth/mode'];
+
+/**
+ * Token (and optional password) protection for the web UI. The token is
+ * random per server and travels in the URL printed on the terminal; the
+ * first request carrying it is swapped for an HttpOnly cookie. Each
+ * shared container gets its own token granting the read-only viewer role.
+ */
+export class WebAuth {
+	readonly token: string = crypto.randomBytes(24).toString('base64url');
+	// Viewer token -> the container it was issued for
+	private viewerTokens = new Map<string, string>();
+	// Cookies are shared across ports, so each server needs its own name
+	private cookieName: string = `claude_run_${crypto.randomBytes(4).toString('hex')}`;
+	private enabled: boolean;
+
+	constructor(private options: WebAuthOptions) {
+		this.enabled = options.enabled !== false;
+	}
+
+	isEnabled(): boolean {
+		return this.enabled;
+	}
+
+	/**
+	 * Query parameters to add to printed URLs
+	 */
+	urlParams(): Record<string, string> {
+		return this.enabled ? { token: this.token } : {};
+	}
+
+	/**
+	 * Query parameters for a read-only link to one container
+	 */
+	viewerUrlParams(containerId: string): Record<string, string> {
+		if (!this.enabled) {
+			return {};
+		}
+		for (const [token, id] of this.viewerTokens) {
+			if (id === containerId) {
+				return { token };
+			}
+		}
+		const token = crypto.randomBytes(24).toString('base64url');
+		this.viewerTokens.set(token, containerId);
+		return { token };
+	}
+
+	/**
+	 * What a token grants, if anything
+	 */
+	grantForToken(candidate: unknown): WebGrant | undefined {
+		if (typeof candidate !== 'string') {
+			return undefined;
+		}
+		if (safeEqual(candidate, this.token)) {
+			return { role: 'operator' };
+		}
+		for (const [token, containerId] of this.viewerTokens) {
+			if (safeEqual(candidate, token)) {
+				return { role: 'viewer', containerId };
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Express middleware guarding pages and API routes. The granted role is
+	 * left in `res.locals.role` and a viewer's container in
+	 * `res.locals.containerId`; viewers may only make GET requests.
+	 */
+	middleware(): express.RequestHandler {
+		return (req, res, next) => {
+			if (!this.enabled) {
+				res.locals.role = 'operator';
+				next();
+				return;
+			}
+			if (PUBLIC_PATHS.includes(req.path) || req.path.startsWith('/locales/')) {
+				next();
+				return;
+			}
+
+			// Swap a token in the URL for a cookie and drop it from the address bar
+			const queryToken = req.query.token;
+			const queryGrant = this.grantForToken(queryToken);
+			if (queryGrant && req.method === 'GET' && !req.path.startsWith('/api/')) {
+				this.setCookie(res, queryToken as string);
+				const url = new URL(req.originalUrl, 'http://localhost');
+				url.searchParams.delete('token');
+				res.redirect(`${url.pathname}${url.search}`);
+				return;
+			}
+
+			const header = req.headers.authorization || '';
+			const bearer = header.startsWith('Bearer ') ? header.substring(7) : undefined;
+			const grant = queryGrant
+				|| this.grantForToken(bearer)
+				|| this.grantForToken(this.readCookie(req.headers.cookie));
+
+			if (!grant) {
+				if (req.path.startsWith('/api/') || req.method !== 'GET') {
+					res.status(401).json({ error: 'Unauthorized' });
+					return;
+				}
+				res.redirect(`/login.html?next=${encodeURIComponent(req.originalUrl)}`);
+				return;
+			}
+
+			if (grant.role === 'viewer' && req.method !== 'GET' && req.method !== 'HEAD') {
+				res.status(403).json({ error: 'Viewers cannot change sessions' });
+				return;
+			}
+			res.locals.role = grant.role;
+			res.locals.containerId = grant.containerId;
+			next();
+		};
+	}
+
+	/**
+	 * Routes used by the login page
+	 */
+	registerRoutes(app: express.Application, json: express.RequestHandler): void {
+		app.get('/api/auth/mode', (_req, res) => {
+			res.json({ password: this.enabled && !!this.options.password });
+		});
+
+		app.post('/api/login', json, async (req, res) => {
+			const password = req.body?.password;
+			if (
+				!this.enabled
+				|| !this.options.password
+				|| typeof password !== 'string'
+				|| !safeEqual(password, this.options.password)
+			) {
+				// Slow down guessing
+				await new Promise(resolve => setTimeout(resolve, 1000));
+				console.log(chalk.yellow('⚠ Rejected web UI login attempt'));
+				res.status(401).json({ error: 'Invalid password' });
+				return;
+			}
+			this.setCookie(res, this.token);
+			res.json({ ok: true });
+		});
+	}
+
+	/**
+	 * Socket.IO middleware checking the handshake. The granted role is kept
+	 * in `socket.data.role` and a viewer's container in `socket.data.containerId`.
+	 */
+	socketMiddleware(): (socket: Socket, next: (err?: Error) => void) => void {
+		return (socket, next) => {
+			if (!this.enabled) {
+				socket.data.role = 'operator';
+				next();
+				return;
+			}
+			const { auth, query, headers } = socket.handshake;
+			const grant = this.grantForToken(auth?.token)
+				|| this.grantForToken(query.token)
+				|| this.grantForToken(this.readCookie(headers.cookie));
+			if (!grant) {
+				next(new Error('unauthorized'));
+				return;
+			}
+			socket.data.role = grant.role;
+			socket.data.containerId = grant.containerId;
+			next();
+		};
+	}
+
+	private setCookie(res: express.Response, token: string): void {
+		res.cookie(this.cookieName, token, {
+			httpOnly: true,
+			sameSite: 'strict',
+			secure: !!this.options.secure,
+			path: '/',
+		});
+	}
+
+	private readCookie(cookieHeader?: string): string | undefined {
+		for (const part of (cookieHeader || '').split(';')) {
+			const [name, ...value] = part.trim().split('=');
+			if (name === this.cookieName) {
+				try {
+					return decodeURIComponent(value.join('='));
+				}
+				catch {
+					// A malformed cookie counts as no cookie
+					return undefined;
+				}
+			}
+		}
+		return undefined;
+	}
+}
+
+function safeEqual(a: string, b: string): boolean {
+	// Hash first so inputs of different lengths can be compared in constant time
+	const hashA = crypto.createHash('sha256').update(a).digest();
+	const hashB = crypto.createHash('sha256').update(b).digest();
+	return crypto.timingSafeEqual(hashA, hashB) && Buffer.byteLength(a) === Buffer.byteLength(b);
+}
@@ -1,7 +1,15 @@
 import type Docker from 'dockerode';
+import type { PullRequest } from './forge';
+import type { FileDiff } from './git/patch';
+import type { ChangeSelection } from './git/shadow-repository';
+import type { BlockedRequest } from './network';
+import type { ResourceUsage } from './resources';
+import type { ExpiryReason, SessionDeadline } from './session-limits';
+import type { CommitInfo, SessionRecord, WebUIConfig } from './types';
+import type { WebRole } from './web-auth';
 import { Buffer } from 'node:buffer';
-import { exec, execSync } from 'node:child_process';
-import { createServer } from 'node:http';
+import { exec, execFile, execSync } from 'node:child_process';
+import { EventEmitter } from 'node:events';
 import path from 'node:path';
 import process from 'node:process';
 import { promisify } from 'node:util';
@@ -9,10 +17,29 @@ import chalk from 'chalk';
 import express from 'express';
 import * as fs from 'fs-extra';
 import { Server } from 'socket.io';
+import { syncConfigBack } from './config-sync';
 import { getContainerRuntimeCmd } from './docker-config';
+import { detectForge } from './forge';
+import { GitMonitor } from './git-monitor';
+import { publishSession } from './git/publish';
 import { ShadowRepository } from './git/shadow-repository';
+import { ensureInotifyTools, watchInContainer } from './inotify';
+import { followBlockedRequests, getEgressGatewayName, removeEgressGateway } from './network';
+import { isRecordingName, listRecordings, RECORDINGS_DIR, SessionRecorder } from './recording';
+import { getResourceUsage } from './resources';
+import { getRunner, isRunner } from './runners';
+import { DEADLINE_WARNING, getDeadline, stopExpiredContainer } from './session-limits';
+import { SessionStore } from './session-store';
+import { WebAuth } from './web-auth';
+import { canLaunchBrowser, createWebServer, DEFAULT_WEB_HOST, displayHost, isLoopbackHost } from './web-transport';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+/** Full (64) or short (12+) hex container ID, as Docker and Podman print them */
+function isContainerId(value: unknown): value is string {
+	return typeof value === 'string' && /^[0-9a-f]{12,64}$/.test(value);
+}
 
 interface SessionInfo {
 	containerId: string;
@@ -20,28 +47,142 @@ interface SessionInfo {
 	stream?: any;
 	connectedSockets: Set<string>; // Track connected sockets
 	outputHistory?: Buffer[]; // Store output history for replay
+	lastOutputAt?: number; // Used to tell a busy runner from one waiting for input
+	lastInputAt?: number;
+	startedAt: number;
+	warnedDeadline?: number; // Deadline the server has already warned about
+	recorder?: SessionRecorder; // Writes the session to an asciicast file
+	blockedRequests?: BlockedRequest[]; // Requests refused by the egress proxy, newest last
+	stopEgressLog?: () => void;
+	usage?: ResourceUsage; // Latest resource usage sample
+	usageTimer?: NodeJS.Timeout;
+}
+
+interface ChangeStats {
+	files: number;
+	additions: number;
+	deletions: number;
+}
+
+// No terminal output for this long means the runner is waiting for input
+const SESSION_IDLE_THRESHOLD = 3000;
+// Blocked requests kept per session for clients that attach later
+const MAX_BLOCKED_REQUESTS = 100;
+// How often resource usage is sampled for the status bar
+const USAGE_INTERVAL = 5000;
+// How often session time limits are checked
+const LIMIT_CHECK_INTERVAL = 15000;
+
+/**
+ * Open a URL in the default browser, falling back to platform commands
+ */
+export async function openInBrowser(url: string): Promise<void> {
+	// Headless (e.g. over SSH): just leave a copyable URL
+	if (!canLaunchBrowser()) {
+		console.log(chalk.blue('• No local browser available, open this URL on your machine:'));
+		console.log(url);
+		return;
+	}
+
+	try {
+		// Try the open module first
+		const open = (await import('open')).default;
+		await open(url);
+		console.log(chalk.blue('✓ Opened browser'));
+	}
+	catch (error) {
+		// Fallback to platform-specific commands
+		try {
+			const platform = process.platform;
+
+			if (platform === 'darwin') {
+				execSync(`open "${url}"`, { stdio: 'ignore' });
+			}
+			else if (platform === 'win32') {
+				execSync(`start "" "${url}"`, { stdio: 'ignore' });
+			}
+			else {
+				// Linux/Unix
+				execSync(
+					`xdg-open "${url}" || firefox "${url}" || google-chrome "${url}"`,
+					{ stdio: 'ignore' },
+				);
+			}
+			console.log(chalk.blue('✓ Opened browser'));
+		}
+		catch (fallbackError) {
+			console.log(chalk.yellow('Could not open browser automatically'));
+			console.log(chalk.yellow(`Please open ${url} in your browser`));
+		}
+	}
+}
+
+export interface ManagedSession {
+	containerId: string;
+	repoPath?: string;
+	branch?: string;
+	runner?: string;
+	clients: number;
+	monitoring: boolean;
+}
+
+export interface SessionOverview {
+	containerId: string;
+	name: string;
+	state: string;
+	status: string;
+	repo?: string;
+	repoPath?: string;
+	runner?: string;
+	runnerName?: string; // Display name, for runners that are still registered
+	branch?: string;
+	startedAt?: string;
+	activity: 'inactive' | 'working' | 'waiting';
+	clients: number;
+	changes: ChangeStats | null;
 }
 
-export class WebUIServer {
+export class WebUIServer extends EventEmitter {
 	private app: express.Application;
 	private httpServer: any;
+	private secure: boolean;
 	private io: Server;
 	private docker: Docker;
 	private sessions: Map<string, SessionInfo> = new Map(); // container -> session mapping
 	private port: number = 3456;
+	private options: WebUIConfig;
+	private auth: WebAuth;
+	private baseUrl: string = '';
 	private shadowRepos: Map<string, ShadowRepository> = new Map(); // container -> shadow repo
 	private syncInProgress: Set<string> = new Set(); // Track containers currently syncing
 	private originalRepo: string = '';
 	private currentBranch: string = 'main';
 	private fileWatchers: Map<string, any> = new Map(); // container -> monitor (inotify stream or interval)
+	private commitMonitors: Map<string, GitMonitor> = new Map(); // Detached sessions that push on commit
 	private containerCmd: string; // 'docker' or 'podman'
 	private wasNonGitInit: boolean = false;
-
-	constructor(docker: Docker, containerRuntime?: string) {
+	private sessionStore: SessionStore = new SessionStore();
+	private sessionRecords: Map<string, SessionRecord> = new Map(); // container -> recorded session
+	private pendingChanges: Map<string, ChangeStats> = new Map(); // container -> last synced diff stats
+	private limitTimer?: NodeJS.Timeout;
+	private checkingLimits = false;
+
+	constructor(docker: Docker, containerRuntime?: string, options: WebUIConfig = {}) {
+		super();
 		this.docker = docker;
 		this.containerCmd = containerRuntime || getContainerRuntimeCmd();
+		this.options = options;
+		this.port = options.port || this.port;
 		this.app = express();
-		this.httpServer = createServer(this.app);
+		const transport = createWebServer(this.app, options);
+		this.httpServer = transport.server;
+		this.secure = transport.secure;
+		this.auth = new WebAuth({
+			enabled: options.auth,
+			secure: this.secure,
+			// Keeps the password out of a config file that may be committed
+			password: options.password || process.env.CLAUDE_RUN_WEB_PASSWORD,
+		});
 		this.io = new Server(this.httpServer, {
 			cors: {
 				origin: '*',
@@ -49,25 +190,79 @@ export class WebUIServer {
 			},
 		});
 
+		this.io.use(this.auth.socketMiddleware());
+
 		this.setupRoutes();
 		this.setupSocketHandlers();
 	}
 
 	private setupRoutes(): void {
+		// Everything below requires the access token (or a password login)
+		this.auth.registerRoutes(this.app, express.json());
+		this.app.use(this.auth.middleware());
+
 		// Serve static files
 		this.app.use(express.static(path.join(__dirname, '../public')));
 
+		// Multi-session dashboard
+		this.app.get('/dashboard', (_req, res) => {
+			res.sendFile(path.join(__dirname, '../public/dashboard.html'));
+		});
+
+		// Session recordings and their replay viewer
+		this.app.get('/replay', (_req, res) => {
+			res.sendFile(path.join(__dirname, '../public/replay.html'));
+		});
+
+		this.app.get('/api/recordings', async (_req, res) => {
+			try {
+				const recordings = (await listRecordings())
+					.filter(recording => this.canView(res.locals, recording.containerId));
+				res.json(recordings.map(({ path: _path, ...recording }) => recording));
+			}
+			catch (error) {
+				res.status(500).json({ error: 'Failed to list recordings' });
+			}
+		});
+
+		this.app.get('/api/recordings/:name', (req, res) => {
+			if (!isRecordingName(req.params.name)) {
+				res.status(400).json({ error: 'Invalid recording name' });
+				return;
+			}
+			if (!this.canView(res.locals, req.params.name.substring(0, 12))) {
+				res.status(403).json({ error: 'This link does not give access to that recording' });
+				return;
+			}
+			res.sendFile(req.params.name, { root: RECORDINGS_DIR, headers: { 'Content-Type': 'text/plain; charset=utf-8' } }, (error) => {
+				if (error && !res.headersSent) {
+					res.status(404).json({ error: 'Recording not found' });
+				}
+			});
+		});
+
 		// Health check endpoint
 		this.app.get('/api/health', (_req, res) => {
 			res.json({ status: 'ok' });
 		});
 
+		// Read-only link to a session, for sharing with viewers
+		this.app.get('/api/sessions/:id/viewer-link', (req, res) => {
+			if (res.locals.role !== 'operator') {
+				res.status(403).json({ error: 'Only operators can share sessions' });
+				return;
+			}
+			const query = new URLSearchParams({ container: req.params.id, ...this.auth.viewerUrlParams(req.params.id) });
+			res.json({ path: `/?${query}` });
+		});
+
 		// Container info endpoint
 		this.app.get('/api/containers', async (_req, res) => {
 			try {
 				const containers = await this.docker.listContainers();
 				const claudeContainers = containers.filter(c =>
-					c.Names.some(name => name.includes('claude-code-runner')),
+					c.Names.some(name => name.includes('claude-code-runner'))
+					&& this.canView(res.locals, c.Id),
 				);
 				res.json(claudeContainers);
 			}
@@ -76,19 +271,82 @@ export class WebUIServer {
 			}
 		});
 
+		// Session overview endpoint for the dashboard
+		this.app.get('/api/sessions', async (_req, res) => {
+			try {
+				const sessions = await this.describeSessions();
+				res.json(sessions.filter(session => this.canView(res.locals, session.containerId)));
+			}
+			catch (error) {
+				res.status(500).json({ error: 'Failed to list sessions' });
+			}
+		});
+
+		// Stop a session's container
+		this.app.post('/api/sessions/:id/stop', async (req, res) => {
+			const containerId = req.params.id;
+			try {
+				await this.publishSessionEnd(containerId);
+				this.releaseContainer(containerId);
+				await this.docker.getContainer(containerId).stop();
+				res.json({ ok: true });
+			}
+			catch (error: any) {
+				// 304: container already stopped
+				if (error.statusCode === 304) {
+					res.json({ ok: true });
+					return;
+				}
+				res.status(error.statusCode === 404 ? 404 : 500).json({ error: error.message });
+			}
+		});
+
+		// Remove a session's container, its record and its shadow repo
+		this.app.delete('/api/sessions/:id', async (req, res) => {
+			const containerId = req.params.id;
+			try {
+				this.releaseContainer(containerId);
+				this.pendingChanges.delete(containerId);
+				await syncConfigBack(this.docker, containerId).catch((error) => {
+					console.error(chalk.yellow('⚠ Failed to copy config files back to the host:'), error.message);
+				});
+				const gateway = await getEgressGatewayName(this.docker, containerId);
+				await this.docker.getContainer(containerId).remove({ force: true });
+				if (gateway) {
+					await removeEgressGateway(this.docker, gateway);
+				}
+				await this.sessionStore.remove(containerId, true);
+				res.json({ ok: true });
+			}
+			catch (error: any) {
+				res.status(error.statusCode === 404 ? 404 : 500).json({ error: error.message });
+			}
+		});
+
 		// Git info endpoint - get current branch and PRs
 		this.app.get('/api/git/info', async (req, res) => {
 			try {
-				const containerId = req.query.containerId as string;
+				const containerId = req.query.containerId as string | undefined;
+				if (containerId !== undefined && !isContainerId(containerId)) {
+					res.status(400).json({ error: 'Invalid container ID' });
+					return;
+				}
+				if (!this.canView(res.locals, containerId)) {
+					res.status(403).json({ error: 'This link does not give access to that session' });
+					return;
+				}
 				let currentBranch = 'loading...';
-				const workingDir = this.originalRepo || process.cwd();
+				const workingDir = (containerId && this.sessionRecords.get(containerId)?.repoPath)
+					|| this.originalRepo
+					|| process.cwd();
 
 				// If containerId is provided, try to get branch directly from container first
 				if (containerId) {
 					try {
 						// Get branch directly from the container - this is the most accurate source
-						const branchResult = await execAsync(
-							`${this.containerCmd} exec ${containerId} git -C /workspace rev-parse --abbrev-ref HEAD`,
+						const branchResult = await execFileAsync(
+							this.containerCmd,
+							['exec', containerId, 'git', '-C', '/workspace', 'rev-parse', '--abbrev-ref', 'HEAD'],
 						);
 						currentBranch = branchResult.stdout.trim();
 					}
@@ -157,54 +415,26 @@ export class WebUIServer {
 					}
 				}
 
-				// Get repository remote URL for branch links
+				// Branch link and open pull requests from the forge hosting origin
 				let repoUrl = '';
-				let isGitHub = false;
-				try {
-					const remoteResult = await execAsync('git remote get-url origin', {
-						cwd: this.originalRepo || process.cwd(),
-					});
-					const remoteUrl = remoteResult.stdout.trim();
-
-					// Convert SSH URLs to HTTPS for web links and detect GitHub
-					if (remoteUrl.startsWith('git@github.com:')) {
-						repoUrl = remoteUrl
-							.replace('git@github.com:', 'https://github.com/')
-							.replace('.git', '');
-						isGitHub = true;
-					}
-					else if (remoteUrl.includes('github.com')) {
-						repoUrl = remoteUrl.replace('.git', '');
-						isGitHub = true;
-					}
-					else if (remoteUrl.startsWith('https://')) {
-						repoUrl = remoteUrl.replace('.git', '');
-					}
-				}
-				catch (error) {
-					// No origin remote configured; leave repoUrl empty
-				}
-
-				// Get PR info using GitHub CLI (only for GitHub repositories)
-				let prs = [];
-				if (isGitHub) {
+				let branchUrl = '';
+				let prs: PullRequest[] = [];
+				const forge = await detectForge(
+					workingDir,
+					(containerId && this.sessionRecords.get(containerId)?.forge) || undefined,
+				);
+				if (forge) {
+					repoUrl = forge.repoUrl;
+					branchUrl = forge.getBranchUrl(currentBranch);
 					try {
-						const prResult = await execAsync(
-							`gh pr list --head "${currentBranch}" --json number,title,state,url,isDraft,mergeable`,
-							{
-								cwd: this.originalRepo || process.cwd(),
-							},
-						);
-						prs = JSON.parse(prResult.stdout || '[]');
+						prs = await forge.listPullRequests(currentBranch);
 					}
 					catch (error) {
-						// GitHub CLI might not be installed or not authenticated
+						// CLI not installed or not signed in, or no API token
 						// Only log this in debug mode to avoid spam
 					}
 				}
 
-				const branchUrl = repoUrl ? `${repoUrl}/tree/${currentBranch}` : '';
-
 				res.json({
 					currentBranch,
 					branchUrl,
@@ -221,124 +451,43 @@ export class WebUIServer {
 
 	private setupSocketHandlers(): void {
 		this.io.on('connection', (socket) => {
-			console.log(chalk.blue('✓ Client connected to web UI'));
+			const role: WebRole = socket.data.role || 'operator';
+			console.log(chalk.blue(`✓ Client connected to web UI${role === 'viewer' ? ' (viewer)' : ''}`));
+
+			// Viewers only receive output; reject anything that acts on the session
+			const allowed = (event: string): boolean => {
+				if (role === 'operator') {
+					return true;
+				}
+				socket.emit('permission-denied', { event, message: 'This is a read-only session' });
+				return false;
+			};
 
 			socket.on('attach', async (data) => {
 				const { containerId } = data;
+				if (!this.canView(socket.data, containerId)) {
+					socket.emit('error', {
+						message: 'This link does not give access to that session.',
+						code: 'PERMISSION_DENIED',
+					});
+					return;
+				}
 
 				try {
-					const container = this.docker.getContainer(containerId);
-
 					// Check if we already have a session for this container
 					let session = this.sessions.get(containerId);
 
 					if (!session || !session.stream) {
+						// Viewers can only join a session an operator has started
+						if (role === 'viewer') {
+							socket.emit('error', {
+								message: 'This session has not been started yet. Try again once its owner has opened it.',
+								code: 'SESSION_NOT_STARTED',
+							});
+							return;
+						}
 						// No existing session, create a new one
-						console.log(chalk.blue('Creating new Claude session...'));
-						const exec = await container.exec({
-							AttachStdin: true,
-							AttachStdout: true,
-							AttachStderr: true,
-							Tty: true,
-							Cmd: ['/home/claude/start-session.sh'],
-							WorkingDir: '/workspace',
-							User: 'claude',
-							Env: ['TERM=xterm-256color', 'COLORTERM=truecolor'],
-						});
-
-						const stream = await exec.start({
-							hijack: true,
-							stdin: true,
-						});
-
-						session = {
-							containerId,
-							exec,
-							stream,
-							connectedSockets: new Set([socket.id]),
-							outputHistory: [],
-						};
-						this.sessions.set(containerId, session);
-
-						// Set up stream handlers that broadcast to all connected sockets
-						stream.on('data', (chunk: Buffer) => {
-							// Process and broadcast to all connected sockets for this session
-							let dataToSend: Buffer;
-
-							if (chunk.length > 8) {
-								const firstByte = chunk[0];
-								if (firstByte >= 1 && firstByte <= 3) {
-									dataToSend = chunk.slice(8);
-								}
-								else {
-									dataToSend = chunk;
-								}
-							}
-							else {
-								dataToSend = chunk;
-							}
-
-							if (dataToSend.length > 0) {
-								// Store in history (limit to last 100KB)
-								if (session!.outputHistory) {
-									session!.outputHistory.push(Buffer.from(dataToSend));
-									let totalSize = session!.outputHistory.reduce(
-										(sum, buf) => sum + buf.length,
-										0,
-									);
-									while (
-										totalSize > 100000
-										&& session!.outputHistory.length > 1
-									) {
-										const removed = session!.outputHistory.shift();
-										if (removed) {
-											totalSize -= removed.length;
-										}
-									}
-								}
-								// Broadcast to all connected sockets for this container
-								for (const socketId of session!.connectedSockets) {
-									const connectedSocket = this.io.sockets.sockets.get(socketId);
-									if (connectedSocket) {
-										connectedSocket.emit('output', new Uint8Array(dataToSend));
-									}
-								}
-							}
-						});
-
-						stream.on('error', (err: Error) => {
-							console.error(chalk.red('Stream error:'), err);
-							// Notify all connected sockets
-							for (const socketId of session!.connectedSockets) {
-								const connectedSocket = this.io.sockets.sockets.get(socketId);
-								if (connectedSocket) {
-									connectedSocket.emit('error', { message: err.message });
-								}
-							}
-						});
-
-						stream.on('end', () => {
-							// Notify all connected sockets
-							for (const socketId of session!.connectedSockets) {
-								const connectedSocket = this.io.sockets.sockets.get(socketId);
-								if (connectedSocket) {
-									connectedSocket.emit('container-disconnected');
-								}
-							}
-							// Stop continuous monitoring
-							this.stopContinuousMonitoring(containerId);
-							// Clean up session and shadow repo
-							this.sessions.delete(containerId);
-							if (this.shadowRepos.has(containerId)) {
-								this.shadowRepos.get(containerId)?.cleanup();
-								this.shadowRepos.delete(containerId);
-							}
-						});
-
-						console.log(chalk.green('New Claude session started'));
-
-						// Start continuous monitoring for this container
-						this.startContinuousMonitoring(containerId);
+						session = await this.ensureSession(containerId, socket.id);
 					}
 					else {
 						// Add this socket to the existing session
@@ -365,13 +514,24 @@ export class WebUIServer {
 					}
 
 					// Confirm attachment
-					socket.emit('attached', { containerId, wasNonGitInit: this.wasNonGitInit });
+					socket.emit('attached', { containerId, wasNonGitInit: this.wasNonGitInit, role });
+					if (session.blockedRequests?.length) {
+						socket.emit('egress-blocked', session.blockedRequests);
+					}
+					if (session.usage) {
+						socket.emit('resource-usage', session.usage);
+					}
+					const deadline = this.getSessionDeadline(session);
+					if (deadline) {
+						socket.emit('session-limits', { deadline: new Date(deadline.at).toISOString(), reason: deadline.reason });
+					}
 
 					// Send initial resize after a small delay
-					if (session.exec && data.cols && data.rows) {
+					if (role === 'operator' && session.exec && data.cols && data.rows) {
 						setTimeout(async () => {
 							try {
 								await session.exec.resize({ w: data.cols, h: data.rows });
+								session.recorder?.resize(data.cols, data.rows);
 							}
 							catch (e) {
 								// Ignore resize errors
@@ -394,8 +554,10 @@ export class WebUIServer {
 					}
 				}
 			});
-
 			socket.on('resize', async (data) => {
+				if (!allowed('resize')) {
+					return;
+				}
 				const { cols, rows } = data;
 
 				// Find which session this socket belongs to
@@ -403,6 +565,7 @@ export class WebUIServer {
 					if (session.connectedSockets.has(socket.id) && session.exec) {
 						try {
 							await session.exec.resize({ w: cols, h: rows });
+							session.recorder?.resize(cols, rows);
 						}
 						catch (error: any) {
 							// Ignore HTTP 201 from Podman (it's actually a success response)
@@ -417,10 +580,14 @@ export class WebUIServer {
 			});
 
 			socket.on('input', (data) => {
+				if (!allowed('input')) {
+					return;
+				}
 				// Find which session this socket belongs to
 				for (const [, session] of this.sessions) {
 					if (session.connectedSockets.has(socket.id) && session.stream) {
 						session.stream.write(data);
+						session.lastInputAt = Date.now();
 						break;
 					}
 				}
@@ -435,6 +602,9 @@ export class WebUIServer {
 
 			// Handle commit operation
 			socket.on('commit-changes', async (data) => {
+				if (!allowed('commit-changes')) {
+					return;
+				}
 				const { containerId, commitMessage } = data;
 
 				try {
@@ -443,22 +613,16 @@ export class WebUIServer {
 						throw new Error('Shadow repository not found');
 					}
 
-					// Perform final sync before commit to ensure we have latest changes
-					console.log(chalk.blue('🔄 Final sync before commit...'));
-					await shadowRepo.syncFromContainer(containerId);
-
-					const shadowPath = shadowRepo.getPath();
-
-					// Stage all changes
-					await execAsync('git add .', { cwd: shadowPath });
+					await this.withSyncLock(containerId, async () => {
+						// Perform final sync before commit to ensure we have latest changes
+						console.log(chalk.blue('🔄 Final sync before commit...'));
+						await shadowRepo.syncFromContainer(containerId);
 
-					// Create commit
-					await execAsync(
-						`git commit -m "${commitMessage.replace(/"/g, '\\"')}"`,
-						{
-							cwd: shadowPath,
-						},
-					);
+						// Commit in the container, so it is part of the runner's history, then fetch it back
+						await shadowRepo.commitInContainer(containerId, commitMessage);
+						await shadowRepo.fetchContainerCommits(containerId);
+						await this.sendChanges(containerId, shadowRepo);
+					});
 
 					console.log(chalk.green('✓ Changes committed'));
 					socket.emit('commit-success', {
@@ -473,6 +637,9 @@ export class WebUIServer {
 
 			// Handle push operation
 			socket.on('push-changes', async (data) => {
+				if (!allowed('push-changes')) {
+					return;
+				}
 				const { containerId, branchName } = data;
 
 				try {
@@ -531,6 +698,38 @@ export class WebUIServer {
 				}
 			});
 
+			// Stage, unstage or discard a file or a single hunk from the Changes tab
+			const handleSelection = (event: string, action: (shadowRepo: ShadowRepository, containerId: string, selection: ChangeSelection) => Promise<void>) => {
+				socket.on(event, async (data) => {
+					if (!allowed(event)) {
+						return;
+					}
+					const { containerId, path: filePath, hunk } = data;
+					try {
+						const shadowRepo = this.shadowRepos.get(containerId);
+						if (!shadowRepo) {
+							throw new Error('Shadow repository not found');
+						}
+						await this.withSyncLock(containerId, async () => {
+							await action(shadowRepo, containerId, { path: filePath, hunk });
+							await this.sendChanges(containerId, shadowRepo);
+						});
+					}
+					catch (error: any) {
+						console.error(chalk.red(`${event} failed:`), error.message);
+						socket.emit('changes-error', { event, message: error.message });
+					}
+				});
+			};
+			handleSelection('stage-changes', (shadowRepo, _containerId, selection) => shadowRepo.stageChanges(selection));
+			handleSelection('unstage-changes', (shadowRepo, _containerId, selection) => shadowRepo.unstageChanges(selection));
+			handleSelection('discard-changes', async (shadowRepo, containerId, selection) => {
+				// The selection is checked against the container's current state
+				await shadowRepo.syncFromContainer(containerId);
+				await shadowRepo.discardChanges(containerId, selection);
+				console.log(chalk.yellow(`↩ Discarded changes in ${selection.path}`));
+			});
+
 			socket.on('disconnect', () => {
 				console.log(chalk.yellow('Client disconnected from web UI'));
 
@@ -542,9 +741,173 @@ export class WebUIServer {
 		});
 	}
 
-	private async performSync(containerId: string): Promise<void> {
+	/**
+	 * Start the terminal session and change monitoring for a container unless
+	 * they are already running. Sessions outlive the clients attached to them.
+	 */
+	private async ensureSession(containerId: string, firstSocketId?: string): Promise<SessionInfo> {
+		const existing = this.sessions.get(containerId);
+		if (existing && existing.stream) {
+			if (firstSocketId) {
+				existing.connectedSockets.add(firstSocketId);
+			}
+			return existing;
+		}
+
+		// Pick up repo and branch info recorded for this container
+		try {
+			await this.loadSessionRecord(containerId);
+		}
+		catch (error: any) {
+			if (error.statusCode === 404) {
+				throw error;
+			}
+			console.warn(chalk.yellow(`⚠ Could not load session record: ${error.message}`));
+		}
+
+		console.log(chalk.blue('Creating new Claude session...'));
+		const container = this.docker.getContainer(containerId);
+		const exec = await container.exec({
+			AttachStdin: true,
+			AttachStdout: true,
+			AttachStderr: true,
+			Tty: true,
+			Cmd: ['/home/claude/start-session.sh'],
+			WorkingDir: '/workspace',
+			User: 'claude',
+			Env: ['TERM=xterm-256color', 'COLORTERM=truecolor'],
+		});
+
+		const stream = await exec.start({
+			hijack: true,
+			stdin: true,
+		});
+
+		const session: SessionInfo = {
+			containerId,
+			exec,
+			stream,
+			connectedSockets: new Set(firstSocketId ? [firstSocketId] : []),
+			outputHistory: [],
+			startedAt: Date.now(),
+		};
+		this.sessions.set(containerId, session);
+
+		if (this.options.record !== false) {
+			try {
+				const record = this.sessionRecords.get(containerId);
+				const title = record ? `${path.basename(record.repoPath)} (${record.branch})` : containerId.substring(0, 12);
+				session.recorder = await SessionRecorder.create(containerId, { width: 80, height: 24 }, title);
+				console.log(chalk.gray(`  Recording session to ${session.recorder.path}`));
+			}
+			catch (error: any) {
+				console.warn(chalk.yellow(`⚠ Could not start session recording: ${error.message}`));
+			}
+		}
+
+		await this.followEgressLog(session);
+		this.startUsageMonitoring(session);
+
+		// Set up stream handlers that broadcast to all connected sockets
+		stream.on('data', (chunk: Buffer) => {
+			// Process and broadcast to all connected sockets for this session
+			let dataToSend: Buffer;
+
+			if (chunk.length > 8) {
+				const firstByte = chunk[0];
+				if (firstByte >= 1 && firstByte <= 3) {
+					dataToSend = chunk.slice(8);
+				}
+				else {
+					dataToSend = chunk;
+				}
+			}
+			else {
+				dataToSend = chunk;
+			}
+
+			if (dataToSend.length > 0) {
+				session.recorder?.output(dataToSend);
+
+				// Store in history (limit to last 100KB)
+				if (session.outputHistory) {
+					session.outputHistory.push(Buffer.from(dataToSend));
+					let totalSize = session.outputHistory.reduce(
+						(sum, buf) => sum + buf.length,
+						0,
+					);
+					while (
+						totalSize > 100000
+						&& session.outputHistory.length > 1
+					) {
+						const removed = session.outputHistory.shift();
+						if (removed) {
+							totalSize -= removed.length;
+						}
+					}
+				}
+				// Broadcast to all connected sockets for this container
+				for (const socketId of session.connectedSockets) {
+					const connectedSocket = this.io.sockets.sockets.get(socketId);
+					if (connectedSocket) {
+						connectedSocket.emit('output', new Uint8Array(dataToSend));
+					}
+				}
+				session.lastOutputAt = Date.now();
+				this.emit('output', containerId, dataToSend);
+			}
+		});
+
+		stream.on('error', (err: Error) => {
+			console.error(chalk.red('Stream error:'), err);
+			// Notify all connected sockets
+			for (const socketId of session.connectedSockets) {
+				const connectedSocket = this.io.sockets.sockets.get(socketId);
+				if (connectedSocket) {
+					connectedSocket.emit('error', { message: err.message });
+				}
+			}
+		});
+
+		stream.on('end', () => {
+			// Notify all connected sockets
+			for (const socketId of session.connectedSockets) {
+				const connectedSocket = this.io.sockets.sockets.get(socketId);
+				if (connectedSocket) {
+					connectedSocket.emit('container-disconnected');
+				}
+			}
+			// Stop continuous monitoring
+			this.stopContinuousMonitoring(containerId);
+			session.recorder?.close();
+			session.stopEgressLog?.();
+			clearInterval(session.usageTimer);
+			// The runner's shell exited, which ends the session
+			publishSession(this.containerCmd, this.sessionRecords.get(containerId), 'session-end');
+			// Clean up session and shadow repo
+			this.sessions.delete(containerId);
+			if (this.shadowRepos.has(containerId)) {
+				this.shadowRepos.get(containerId)?.cleanup();
+				this.shadowRepos.delete(containerId);
+			}
+		});
+
+		console.log(chalk.green('New Claude session started'));
+
+		// Start continuous monitoring for this container
+		this.startContinuousMonitoring(containerId);
+		this.startCommitPublishing(containerId);
+
+		return session;
+	}
+
+	/**
+	 * Sync the container into its shadow repository and send the changes to
+	 * the clients. Returns false if the sync failed or was skipped.
+	 */
+	private async performSync(containerId: string): Promise<boolean> {
 		if (this.syncInProgress.has(containerId)) {
-			return; // Skip if sync already in progress
+			return false; // Skip if sync already in progress
 		}
 
 		this.syncInProgress.add(containerId);
@@ -553,25 +916,41 @@ export class WebUIServer {
 			// Initialize shadow repo if not exists
 			let isNewShadowRepo = false;
 			if (!this.shadowRepos.has(containerId)) {
-				const shadowRepo = new ShadowRepository({
-					originalRepo: this.originalRepo || process.cwd(),
-					claudeBranch: this.currentBranch || 'claude-changes',
-					sessionId: containerId.substring(0, 12),
-					containerRuntime: this.containerCmd,
-				});
+				const record = this.sessionRecords.get(containerId);
+				const shadowRepo = new ShadowRepository(
+					{
+						originalRepo: record?.repoPath || this.originalRepo || process.cwd(),
+						claudeBranch: record?.branch || this.currentBranch || 'claude-changes',
+						sessionId: containerId.substring(0, 12),
+						containerRuntime: this.containerCmd,
+					},
+					record?.shadowPath ? path.dirname(record.shadowPath) : undefined,
+				);
 				this.shadowRepos.set(containerId, shadowRepo);
-				isNewShadowRepo = true;
 
-				// Reset shadow repo to match container's branch (important for PR/remote branch scenarios)
-				await shadowRepo.resetToContainerBranch(containerId);
+				// A shadow repo left by an earlier process already has its baseline
+				if (!(await shadowRepo.restore())) {
+					isNewShadowRepo = true;
+
+					// Reset shadow repo to match container's branch (important for PR/remote branch scenarios)
+					await shadowRepo.resetToContainerBranch(containerId);
+
+					try {
+						await this.sessionStore.update(containerId, { shadowPath: shadowRepo.getPath() });
+					}
+					catch (error: any) {
+						console.warn(chalk.yellow(`⚠ Could not update session record: ${error.message}`));
+					}
+				}
 			}
 
 			// Sync files from container (inotify already told us there are changes)
 			const shadowRepo = this.shadowRepos.get(containerId)!;
 			await shadowRepo.syncFromContainer(containerId);
 
-			// If this is a new shadow repo, establish a clean baseline after the first sync
-			if (isNewShadowRepo) {
+			// If this is a new shadow repo that could not follow the container's
+			// history, establish a clean baseline after the first sync
+			if (isNewShadowRepo && !(await shadowRepo.tracksContainerHistory())) {
 				console.log(
 					chalk.blue('🔄 Establishing clean baseline for new shadow repo...'),
 				);
@@ -607,110 +986,144 @@ export class WebUIServer {
 						'Shadow repository .git directory missing - skipping sync',
 					),
 				);
-				return;
+				return false;
 			}
 
-			// Get changes summary and diff data
-			const changes = await shadowRepo.getChanges();
-			console.log(
-				chalk.gray(`[MONITOR] Shadow repo changes: ${changes.summary}`),
-			);
-
-			let diffData = null;
-
-			if (changes.hasChanges) {
-				// Get detailed file status and diffs
-				const { stdout: statusOutput } = await execAsync(
-					'git status --porcelain',
-					{
-						cwd: shadowPath,
-					},
-				);
-
-				// Try git diff HEAD first, fallback to git diff if no HEAD
-				let diffOutput = '';
-				try {
-					const { stdout } = await execAsync('git diff HEAD', {
-						cwd: shadowPath,
-						maxBuffer: 10 * 1024 * 1024, // 10MB limit
-					});
-					diffOutput = stdout;
-				}
-				catch (headError) {
-					try {
-						// Fallback to git diff (shows unstaged changes)
-						const { stdout } = await execAsync('git diff', {
-							cwd: shadowPath,
-							maxBuffer: 10 * 1024 * 1024, // 10MB limit
-						});
-						diffOutput = stdout;
-					}
-					catch (diffError) {
-						console.log(chalk.gray('  Could not generate diff, skipping...'));
-						diffOutput = 'Could not generate diff';
-					}
+			await this.sendChanges(containerId, shadowRepo);
+			return true;
+		}
+		catch (error: any) {
+			console.error(chalk.red('[MONITOR] Sync failed:'), error);
+			const session = this.sessions.get(containerId);
+			if (session) {
+				for (const socketId of session.connectedSockets) {
+					const connectedSocket = this.io.sockets.sockets.get(socketId);
+					if (connectedSocket) {
+						connectedSocket.emit('sync-error', { message: error.message });
+					}
 				}
+			}
+			return false;
+		}
+		finally {
+			this.syncInProgress.delete(containerId);
+		}
+	}
 
-				// Get list of untracked files with their content
-				const untrackedFiles: string[] = [];
-				const statusLines = statusOutput
-					.split('\n')
-					.filter(line => line.startsWith('??'));
-				for (const line of statusLines) {
-					const filename = line.substring(3);
-					untrackedFiles.push(filename);
-				}
+	// Keep syncs from running while the shadow repository is changed
+	private async withSyncLock<T>(containerId: string, action: () => Promise<T>): Promise<T> {
+		while (this.syncInProgress.has(containerId)) {
+			await new Promise(resolve => setTimeout(resolve, 200));
+		}
+		this.syncInProgress.add(containerId);
+		try {
+			return await action();
+		}
+		finally {
+			this.syncInProgress.delete(containerId);
+		}
+	}
 
-				// Calculate diff statistics
-				const diffStats = this.calculateDiffStats(diffOutput);
+	/**
+	 * Send the shadow repository's changes to every client of the container
+	 */
+	private async sendChanges(containerId: string, shadowRepo: ShadowRepository): Promise<void> {
+		const shadowPath = shadowRepo.getPath();
+		const changes = await shadowRepo.getChanges();
+		console.log(
+			chalk.gray(`[MONITOR] Shadow repo changes: ${changes.summary}`),
+		);
 
-				diffData = {
-					status: statusOutput,
-					diff: diffOutput,
-					untrackedFiles,
-					stats: diffStats,
-				};
+		let diffData = null;
 
-				console.log(
-					chalk.cyan(`[MONITOR] Changes detected: ${changes.summary}`),
-				);
-				console.log(chalk.cyan(`[MONITOR] Diff stats:`, diffStats));
+		if (changes.hasChanges) {
+			// Get detailed file status and diffs
+			const { stdout: statusOutput } = await execAsync(
+				'git status --porcelain',
+				{
+					cwd: shadowPath,
+				},
+			);
+
+			// Try git diff HEAD first, fallback to git diff if no HEAD
+			let diffOutput = '';
+			try {
+				const { stdout } = await execAsync('git diff HEAD', {
+					cwd: shadowPath,
+					maxBuffer: 10 * 1024 * 1024, // 10MB limit
+				});
+				diffOutput = stdout;
+			}
+			catch (headError) {
+				try {
+					// Fallback to git diff (shows unstaged changes)
+					const { stdout } = await execAsync('git diff', {
+						cwd: shadowPath,
+						maxBuffer: 10 * 1024 * 1024, // 10MB limit
+					});
+					diffOutput = stdout;
+				}
+				catch (diffError) {
+					console.log(chalk.gray('  Could not generate diff, skipping...'));
+					diffOutput = 'Could not generate diff';
+				}
+			}
+
+			// Get list of untracked files with their content
+			const untrackedFiles: string[] = [];
+			const statusLines = statusOutput
+				.split('\n')
+				.filter(line => line.startsWith('??'));
+			for (const line of statusLines) {
+				const filename = line.substring(3);
+				untrackedFiles.push(filename);
 			}
 
-			const syncCompleteData = {
-				hasChanges: changes.hasChanges,
-				summary: changes.summary,
-				shadowPath,
-				diffData,
-				containerId,
+			// Calculate diff statistics
+			const diffStats = this.calculateDiffStats(diffOutput);
+
+			// Files and hunks for the stage, unstage and discard controls
+			const { staged, unstaged } = await shadowRepo.getWorkingChanges();
+			const toClient = (files: FileDiff[]) => files.map(file => ({ path: file.path, status: file.status, binary: file.binary, hunks: file.hunks }));
+
+			diffData = {
+				status: statusOutput,
+				diff: diffOutput,
+				untrackedFiles,
+				stats: diffStats,
+				files: { staged: toClient(staged), unstaged: toClient(unstaged) },
 			};
 
-			// Send to all connected sockets for this container
-			const session = this.sessions.get(containerId);
-			if (session) {
-				for (const socketId of session.connectedSockets) {
-					const connectedSocket = this.io.sockets.sockets.get(socketId);
-					if (connectedSocket) {
-						connectedSocket.emit('sync-complete', syncCompleteData);
-					}
-				}
-			}
+			console.log(
+				chalk.cyan(`[MONITOR] Changes detected: ${changes.summary}`),
+			);
+			console.log(chalk.cyan(`[MONITOR] Diff stats:`, diffStats));
 		}
-		catch (error: any) {
-			console.error(chalk.red('[MONITOR] Sync failed:'), error);
-			const session = this.sessions.get(containerId);
-			if (session) {
-				for (const socketId of session.connectedSockets) {
-					const connectedSocket = this.io.sockets.sockets.get(socketId);
-					if (connectedSocket) {
-						connectedSocket.emit('sync-error', { message: error.message });
-					}
+
+		this.pendingChanges.set(
+			containerId,
+			diffData ? diffData.stats : { files: 0, additions: 0, deletions: 0 },
+		);
+
+		const syncCompleteData = {
+			hasChanges: changes.hasChanges,
+			summary: changes.summary,
+			shadowPath,
+			diffData,
+			commits: await shadowRepo.getCommits(),
+			containerId,
+		};
+
+		// Send to all connected sockets for this container
+		const session = this.sessions.get(containerId);
+		if (session) {
+			for (const socketId of session.connectedSockets) {
+				const connectedSocket = this.io.sockets.sockets.get(socketId);
+				if (connectedSocket) {
+					connectedSocket.emit('sync-complete', syncCompleteData);
 				}
 			}
 		}
-		finally {
-			this.syncInProgress.delete(containerId);
-		}
 	}
 
 	private async startContinuousMonitoring(containerId: string): Promise<void> {
@@ -727,84 +1140,15 @@ export class WebUIServer {
 		await this.performSync(containerId);
 
 		// Install inotify-tools if not present
-		try {
-			await execAsync(`${this.containerCmd} exec ${containerId} which inotifywait`);
-		}
-		catch {
-			console.log(chalk.yellow('  Installing inotify-tools in container...'));
-			try {
-				// Try different package managers
-				const installCommands = [
-					'dnf install -y inotify-tools',
-					'yum install -y inotify-tools',
-					'apt-get update && apt-get install -y inotify-tools',
-					'apk add --no-cache inotify-tools',
-				];
-
-				let installed = false;
-				for (const cmd of installCommands) {
-					try {
-						// Try as root user first, then fallback to regular exec
-						try {
-							await execAsync(
-								`${this.containerCmd} exec --user root ${containerId} sh -c "${cmd}"`,
-							);
-							installed = true;
-							break;
-						}
-						catch (rootError) {
-							// If --user root fails, try without it (container might already be running as root)
-							await execAsync(
-								`${this.containerCmd} exec ${containerId} sh -c "${cmd}"`,
-							);
-							installed = true;
-							break;
-						}
-					}
-					catch {
-						continue;
-					}
-				}
-
-				if (!installed) {
-					console.log(
-						chalk.red(
-							'  Could not install inotify-tools, falling back to polling monitoring',
-						),
-					);
-					this.startPollingMonitoring(containerId);
-					return;
-				}
-			}
-			catch (error) {
-				console.log(chalk.red('  Could not install inotify-tools:', error));
-				this.startPollingMonitoring(containerId);
-				return;
-			}
-		}
-
-		// Start inotifywait process in container
-		const inotifyExec = await this.docker.getContainer(containerId).exec({
-			Cmd: [
-				'sh',
-				'-c',
-				`inotifywait -m -r -e modify,create,delete,move --format '%w%f %e' /workspace --exclude '(\.git|node_modules|\.next|__pycache__|\.venv)'`,
-			],
-			AttachStdout: true,
-			AttachStderr: true,
-			Tty: false,
-		});
-
-		const stream = await inotifyExec.start({ hijack: true, stdin: false });
-
-		let fallbackStarted = false;
-		const startFallback = () => {
-			if (fallbackStarted)
-				return;
-			fallbackStarted = true;
-			this.stopContinuousMonitoring(containerId);
+		if (!(await ensureInotifyTools(this.containerCmd, containerId))) {
+			console.log(
+				chalk.red(
+					'  Could not install inotify-tools, falling back to polling monitoring',
+				),
+			);
 			this.startPollingMonitoring(containerId);
-		};
+			return;
+		}
 
 		// Debounce sync to avoid too many rapid syncs
 		let syncTimeout: NodeJS.Timeout | null = null;
@@ -817,51 +1161,26 @@ export class WebUIServer {
 			}, 500); // Wait 500ms after last change before syncing
 		};
 
-		// Process inotify events
-		stream.on('data', (chunk: Buffer) => {
-			// Handle docker exec stream format (may have header bytes)
-			let data: Buffer;
-			if (chunk.length > 8) {
-				const firstByte = chunk[0];
-				if (firstByte >= 1 && firstByte <= 3) {
-					data = chunk.slice(8);
-				}
-				else {
-					data = chunk;
-				}
-			}
-			else {
-				data = chunk;
-			}
-
-			const output = data.toString();
-			if (output.includes('Couldn\'t initialize inotify') || output.includes('Too many open files')) {
-				console.log(chalk.yellow('[INOTIFY] Initialization failed, falling back to polling'));
-				startFallback();
-				return;
-			}
-
-			const events = output.trim().split('\n');
-			for (const event of events) {
-				if (event.trim()) {
+		// Start inotifywait process in container
+		const watch = await watchInContainer(
+			this.docker,
+			containerId,
+			`inotifywait -m -r -e modify,create,delete,move --format '%w%f %e' /workspace --exclude '(\.git|node_modules|\.next|__pycache__|\.venv)'`,
+			(events) => {
+				for (const event of events) {
 					console.log(chalk.gray(`[INOTIFY] ${event}`));
-					debouncedSync();
 				}
-			}
-		});
-
-		stream.on('error', (err: Error) => {
-			console.error(chalk.red('[INOTIFY] Stream error:'), err);
-			startFallback();
-		});
-
-		stream.on('end', () => {
-			console.log(chalk.yellow('[INOTIFY] Monitoring stopped'));
-			startFallback();
-		});
+				debouncedSync();
+			},
+			(reason) => {
+				console.log(chalk.yellow(`[INOTIFY] Monitoring ${reason}, falling back to polling`));
+				this.stopContinuousMonitoring(containerId);
+				this.startPollingMonitoring(containerId);
+			},
+		);
 
 		// Store the stream for cleanup
-		this.fileWatchers.set(containerId, { stream, exec: inotifyExec } as any);
+		this.fileWatchers.set(containerId, watch as any);
 	}
 
 	private startPollingMonitoring(containerId: string): void {
@@ -884,7 +1203,52 @@ export class WebUIServer {
 		this.fileWatchers.set(containerId, interval as any);
 	}
 
+	/**
+	 * Detached sessions have no terminal watching for commits, so push their
+	 * branch from here when they are set to push on commit
+	 */
+	private async startCommitPublishing(containerId: string): Promise<void> {
+		const record = this.sessionRecords.get(containerId);
+		if (!record?.detached || record.publish?.pushOn !== 'commit' || this.commitMonitors.has(containerId)) {
+			return;
+		}
+
+		const monitor = new GitMonitor(this.docker, this.containerCmd);
+		this.commitMonitors.set(containerId, monitor);
+		let queue = Promise.resolve();
+		monitor.on('commit', (commit: CommitInfo) => {
+			// One at a time, so pushes don't overlap
+			queue = queue
+				.then(async () => {
+					await this.notifyCommit(containerId, commit);
+					await publishSession(this.containerCmd, record, 'commit');
+				})
+				.catch((error) => {
+					console.error(chalk.red(`✗ ${error.message}`));
+				});
+		});
+
+		try {
+			await monitor.start(containerId);
+		}
+		catch (error: any) {
+			this.commitMonitors.delete(containerId);
+			console.warn(chalk.yellow(`⚠ Could not watch commits in ${containerId.substring(0, 12)}: ${error.message}`));
+		}
+	}
+
+	/**
+	 * Push the session's branch before its container is stopped, if it is
+	 * set to push when the session ends
+	 */
+	async publishSessionEnd(containerId: string): Promise<void> {
+		const record = this.sessionRecords.get(containerId) || await this.sessionStore.get(containerId);
+		await publishSession(this.containerCmd, record, 'session-end');
+	}
+
 	private stopContinuousMonitoring(containerId: string): void {
+		this.commitMonitors.get(containerId)?.stop();
+		this.commitMonitors.delete(containerId);
 		const monitor = this.fileWatchers.get(containerId);
 		if (monitor) {
 			// If it's an inotify monitor, close the stream
@@ -937,30 +1301,447 @@ export class WebUIServer {
 	}
 
 	async start(): Promise<string> {
+		const host = this.options.host || DEFAULT_WEB_HOST;
+		if (!isLoopbackHost(host) && !this.options.socketPath) {
+			if (!this.secure) {
+				console.log(chalk.yellow(`⚠ Web UI is served over plain HTTP on ${host}; traffic including the access token is unencrypted`));
+			}
+			if (this.options.auth === false) {
+				console.log(chalk.yellow(`⚠ Web UI authentication is disabled while listening on ${host}`));
+			}
+		}
+
+		this.limitTimer = setInterval(() => this.checkSessionLimits(), LIMIT_CHECK_INTERVAL);
+
 		return new Promise((resolve, reject) => {
-			this.httpServer.listen(this.port, () => {
-				const url = `http://localhost:${this.port}`;
-				console.log(chalk.green(`✓ Web UI server started at ${url}`));
-				resolve(url);
-			});
+			const onListening = () => {
+				if (this.options.socketPath) {
+					this.baseUrl = `http://unix:${this.options.socketPath}:`;
+					console.log(chalk.green(`✓ Web UI server listening on ${this.options.socketPath}`));
+				}
+				else {
+					const protocol = this.secure ? 'https' : 'http';
+					this.baseUrl = `${protocol}://${displayHost(host)}:${this.port}`;
+					console.log(chalk.green(`✓ Web UI server started at ${this.baseUrl}`));
+				}
+				if (!this.auth.isEnabled()) {
+					console.log(chalk.yellow('⚠ Web UI authentication is disabled'));
+				}
+				resolve(this.baseUrl);
+			};
 
 			this.httpServer.on('error', (err: any) => {
-				if (err.code === 'EADDRINUSE') {
+				if (err.code === 'EADDRINUSE' && !this.options.socketPath) {
 					// Try next port
 					this.port++;
-					this.httpServer.listen(this.port, () => {
-						const url = `http://localhost:${this.port}`;
-						console.log(chalk.green(`✓ Web UI server started at ${url}`));
-						resolve(url);
-					});
+					this.httpServer.listen(this.port, host, onListening);
 				}
 				else {
 					reject(err);
 				}
 			});
+
+			if (this.options.socketPath) {
+				this.listenOnSocket(this.options.socketPath, onListening).catch(reject);
+			}
+			else {
+				this.httpServer.listen(this.port, host, onListening);
+			}
 		});
 	}
 
+	/**
+	 * Listen on a Unix socket that only the current user can connect to
+	 */
+	private async listenOnSocket(socketPath: string, onListening: () => void): Promise<void> {
+		// Remove a socket left behind by a server that did not shut down cleanly
+		await fs.remove(socketPath);
+		await fs.ensureDir(path.dirname(socketPath));
+		this.httpServer.listen(socketPath, async () => {
+			await fs.chmod(socketPath, 0o600);
+			onListening();
+		});
+	}
+
+	/**
+	 * URL of a web UI page including the access token for `role`. Only valid
+	 * after start().
+	 */
+	getUrl(pathname: string = '/', params: Record<string, string> = {}): string {
+		return this.formatUrl(pathname, { ...params, ...this.auth.urlParams() });
+	}
+
+	/**
+	 * Read-only link to a session, whose token only reaches that container.
+	 * Without authentication there is no way to tell viewers apart, so there
+	 * is no such link.
+	 */
+	getViewerUrl(containerId: string): string | undefined {
+		if (!this.auth.isEnabled()) {
+			return undefined;
+		}
+		return this.formatUrl('/', { container: containerId, ...this.auth.viewerUrlParams(containerId) });
+	}
+
+	private formatUrl(pathname: string, params: Record<string, string>): string {
+		const query = new URLSearchParams(params).toString();
+		const page = pathname === '/' && !this.options.socketPath ? '' : pathname;
+		return `${this.baseUrl}${page}${query ? `?${query}` : ''}`;
+	}
+
+	/**
+	 * Whether a client may see a container: operators see all of them,
+	 * viewers only the one their link was issued for
+	 */
+	private canView(grant: { role?: WebRole; containerId?: string }, containerId: unknown): boolean {
+		if (grant.role !== 'viewer') {
+			return true;
+		}
+		if (!isContainerId(containerId) || !isContainerId(grant.containerId)) {
+			return false;
+		}
+		// Either side may be the 12-character short form of the other; recordings only carry one
+		return containerId === grant.containerId
+			|| containerId === grant.containerId.substring(0, 12)
+			|| containerId.substring(0, 12) === grant.containerId;
+	}
+
+	isUnixSocket(): boolean {
+		return !!this.options.socketPath;
+	}
+
+	/**
+	 * Find the recorded session for a container. Containers started without a
+	 * record (e.g. by an older version) get one built from their labels.
+	 */
+	private async loadSessionRecord(containerId: string): Promise<SessionRecord> {
+		const cached = this.sessionRecords.get(containerId);
+		if (cached) {
+			return cached;
+		}
+
+		let record = await this.sessionStore.get(containerId);
+		if (!record) {
+			const info = await this.docker.getContainer(containerId).inspect();
+			const labels = info.Config.Labels || {};
+
+			let branch = this.currentBranch;
+			try {
+				const { stdout } = await execFileAsync(
+					this.containerCmd,
+					['exec', info.Id, 'git', '-C', '/workspace', 'rev-parse', '--abbrev-ref', 'HEAD'],
+				);
+				branch = stdout.trim() || branch;
+			}
+			catch {
+				// Container might not be ready, keep the configured branch
+			}
+
+			record = {
+				containerId: info.Id,
+				repoPath: labels['com.claude.runner.workdir'] || this.originalRepo || process.cwd(),
+				branch,
+				createdAt: info.Created,
+			};
+			await this.sessionStore.save(record);
+		}
+
+		this.sessionRecords.set(containerId, record);
+		return record;
+	}
+
+	/**
+	 * Start a session for a container without waiting for a browser to attach
+	 */
+	async adoptContainer(containerId: string): Promise<void> {
+		await this.ensureSession(containerId);
+	}
+
+	/**
+	 * Stop monitoring a container and end its terminal session. The shadow
+	 * repository is kept so the session can be restored later.
+	 */
+	releaseContainer(containerId: string): boolean {
+		const session = this.sessions.get(containerId);
+		this.stopContinuousMonitoring(containerId);
+		this.shadowRepos.delete(containerId);
+		if (!session) {
+			return false;
+		}
+
+		this.sessions.delete(containerId);
+		this.recordActivity(session).catch(() => {});
+		for (const socketId of session.connectedSockets) {
+			this.io.sockets.sockets.get(socketId)?.emit('container-disconnected');
+		}
+		session.stream?.removeAllListeners('end');
+		session.stream?.end();
+		session.recorder?.close();
+		session.stopEgressLog?.();
+		clearInterval(session.usageTimer);
+		return true;
+	}
+
+	/**
+	 * Tell a container's clients about a commit made inside it, and sync so
+	 * the Changes tab lists it
+	 */
+	async notifyCommit(containerId: string, commit: CommitInfo): Promise<void> {
+		const session = this.sessions.get(containerId);
+		if (!session) {
+			return;
+		}
+
+		for (const socketId of session.connectedSockets) {
+			this.io.sockets.sockets.get(socketId)?.emit('commit', commit);
+		}
+		// Commits don't touch the watched files, so nothing else triggers a sync
+		if (this.shadowRepos.has(containerId)) {
+			await this.performSync(containerId);
+		}
+	}
+
+	private getSessionDeadline(session: SessionInfo): SessionDeadline | undefined {
+		const record = this.sessionRecords.get(session.containerId);
+		if (!record) {
+			return undefined;
+		}
+		return getDeadline(record, this.getLastActivity(session));
+	}
+
+	private getLastActivity(session: SessionInfo): number {
+		return Math.max(session.startedAt, session.lastOutputAt || 0, session.lastInputAt || 0);
+	}
+
+	/**
+	 * Keep the last activity in the session record, so the idle limit still
+	 * applies once this server no longer hosts the session
+	 */
+	private async recordActivity(session: SessionInfo): Promise<void> {
+		const record = this.sessionRecords.get(session.containerId);
+		if (!record?.maxIdleDuration) {
+			return;
+		}
+		const lastActivityAt = this.getLastActivity(session);
+		if (record.lastActivityAt && lastActivityAt <= Date.parse(record.lastActivityAt)) {
+			return;
+		}
+		record.lastActivityAt = new Date(lastActivityAt).toISOString();
+		await this.sessionStore.update(session.containerId, { lastActivityAt: record.lastActivityAt });
+	}
+
+	/**
+	 * Stop sessions that have run or idled past their limits, and keep the
+	 * clients' countdowns up to date
+	 */
+	private async checkSessionLimits(): Promise<void> {
+		// A final sync can take longer than the check interval
+		if (this.checkingLimits) {
+			return;
+		}
+		this.checkingLimits = true;
+		try {
+			for (const session of Array.from(this.sessions.values())) {
+				await this.recordActivity(session).catch(() => {});
+				await this.checkSessionLimit(session);
+			}
+		}
+		finally {
+			this.checkingLimits = false;
+		}
+	}
+
+	private async checkSessionLimit(session: SessionInfo): Promise<void> {
+		const deadline = this.getSessionDeadline(session);
+		if (!deadline) {
+			return;
+		}
+
+		const remaining = deadline.at - Date.now();
+		if (remaining <= 0) {
+			await this.expireSession(session, deadline.reason);
+			return;
+		}
+
+		if (remaining <= DEADLINE_WARNING && session.warnedDeadline !== deadline.at) {
+			session.warnedDeadline = deadline.at;
+			console.log(chalk.yellow(`⚠ ${session.containerId.substring(0, 12)} will be stopped in ${Math.ceil(remaining / 60000)} minute(s)`));
+		}
+		for (const socketId of session.connectedSockets) {
+			this.io.sockets.sockets.get(socketId)?.emit('session-limits', {
+				deadline: new Date(deadline.at).toISOString(),
+				reason: deadline.reason,
+			});
+		}
+	}
+
+	/**
+	 * Take a final sync of an expired session, then stop its container and
+	 * record what happened
+	 */
+	private async expireSession(session: SessionInfo, reason: ExpiryReason): Promise<void> {
+		const { containerId } = session;
+		const sockets = Array.from(session.connectedSockets);
+		try {
+			// Let a sync that is already running finish first
+			while (this.syncInProgress.has(containerId)) {
+				await new Promise(resolve => setTimeout(resolve, 500));
+			}
+			const synced = await this.performSync(containerId);
+			await this.publishSessionEnd(containerId);
+
+			// Releasing first keeps the end handler from deleting the shadow repo
+			this.releaseContainer(containerId);
+			const expiry = await stopExpiredContainer(this.docker, containerId, reason, {
+				finalSync: synced ? 'ok' : 'failed',
+			});
+			await this.sessionStore.update(containerId, { expiry, detached: false });
+
+			for (const socketId of sockets) {
+				this.io.sockets.sockets.get(socketId)?.emit('session-expired', expiry);
+			}
+		}
+		catch (error: any) {
+			console.error(chalk.red(`✗ Could not stop expired session ${containerId.substring(0, 12)}:`), error.message);
+		}
+	}
+
+	/**
+	 * Sample the container's resource usage for the status bar of every client
+	 */
+	private startUsageMonitoring(session: SessionInfo): void {
+		let sampling = false;
+		session.usageTimer = setInterval(async () => {
+			// Each sample takes about a second; do not let them pile up
+			if (sampling || session.connectedSockets.size === 0) {
+				return;
+			}
+			sampling = true;
+			try {
+				session.usage = await getResourceUsage(this.docker, session.containerId);
+				for (const socketId of session.connectedSockets) {
+					this.io.sockets.sockets.get(socketId)?.emit('resource-usage', session.usage);
+				}
+			}
+			catch {
+				// The container may be stopping
+			}
+			finally {
+				sampling = false;
+			}
+		}, USAGE_INTERVAL);
+	}
+
+	/**
+	 * Pass requests refused by the container's egress proxy on to the clients
+	 */
+	private async followEgressLog(session: SessionInfo): Promise<void> {
+		const gateway = await getEgressGatewayName(this.docker, session.containerId);
+		if (!gateway) {
+			return;
+		}
+
+		session.blockedRequests = [];
+		try {
+			session.stopEgressLog = await followBlockedRequests(this.docker, gateway, (request) => {
+				session.blockedRequests!.push(request);
+				if (session.blockedRequests!.length > MAX_BLOCKED_REQUESTS) {
+					session.blockedRequests!.shift();
+				}
+				console.log(chalk.yellow(`⚠ Blocked network request to ${request.host}:${request.port}`));
+				for (const socketId of session.connectedSockets) {
+					this.io.sockets.sockets.get(socketId)?.emit('egress-blocked', [request]);
+				}
+			});
+		}
+		catch (error: any) {
+			console.warn(chalk.yellow(`⚠ Could not follow the egress proxy log: ${error.message}`));
+		}
+	}
+
+	/**
+	 * Summarize every sandbox container for the dashboard, including ones
+	 * this server has no session for
+	 */
+	private async describeSessions(): Promise<SessionOverview[]> {
+		const containers = await this.docker.listContainers({ all: true });
+		const records = new Map(
+			(await this.sessionStore.list()).map(record => [record.containerId, record]),
+		);
+
+		const overviews: SessionOverview[] = [];
+		for (const c of containers) {
+			const labels = c.Labels || {};
+			if (
+				!labels['com.claude.runner.workdir']
+				&& !c.Names.some(name => name.includes('claude-code-runner'))
+			) {
+				continue;
+			}
+
+			// Uptime needs the start time, which only inspect reports
+			let startedAt: string | undefined;
+			if (c.State === 'running') {
+				try {
+					startedAt = (await this.docker.getContainer(c.Id).inspect()).State.StartedAt;
+				}
+				catch {
+					// Container went away while listing
+				}
+			}
+
+			const record = records.get(c.Id);
+			const session = this.sessions.get(c.Id);
+			let activity: SessionOverview['activity'] = 'inactive';
+			if (session && session.stream) {
+				activity = session.lastOutputAt && Date.now() - session.lastOutputAt < SESSION_IDLE_THRESHOLD
+					? 'working'
+					: 'waiting';
+			}
+
+			const runner = labels['com.claude.runner.runner'] || record?.runner;
+			overviews.push({
+				containerId: c.Id,
+				name: (c.Names[0] || '').replace(/^\//, ''),
+				state: c.State,
+				status: c.Status,
+				repo: labels['com.claude.runner.repo'],
+				repoPath: record?.repoPath || labels['com.claude.runner.workdir'],
+				runner,
+				runnerName: runner && isRunner(runner) ? getRunner(runner).displayName : undefined,
+				branch: record?.branch || labels['com.claude.runner.branch'],
+				startedAt,
+				activity,
+				clients: session?.connectedSockets.size || 0,
+				changes: this.pendingChanges.get(c.Id) || null,
+			});
+		}
+
+		return overviews;
+	}
+
+	listSessions(): ManagedSession[] {
+		return Array.from(this.sessions.values(), (session) => {
+			const record = this.sessionRecords.get(session.containerId);
+			return {
+				containerId: session.containerId,
+				repoPath: record?.repoPath,
+				branch: record?.branch,
+				runner: record?.runner,
+				clients: session.connectedSockets.size,
+				monitoring: this.fileWatchers.has(session.containerId),
+			};
+		});
+	}
+
+	getOutputHistory(containerId: string): Buffer | null {
+		const session = this.sessions.get(containerId);
+		if (!session) {
+			return null;
+		}
+		return Buffer.concat(session.outputHistory || []);
+	}
+
 	setRepoInfo(originalRepo: string, branch: string): void {
 		this.originalRepo = originalRepo;
 		this.currentBranch = branch;
@@ -970,17 +1751,34 @@ export class WebUIServer {
 		this.wasNonGitInit = wasInit;
 	}
 
-	async stop(): Promise<void> {
+	async stop(options: { keepShadowRepos?: boolean } = {}): Promise<void> {
 		// Clean up shadow repos
-		for (const [, shadowRepo] of this.shadowRepos) {
-			await shadowRepo.cleanup();
+		if (!options.keepShadowRepos) {
+			for (const [, shadowRepo] of this.shadowRepos) {
+				await shadowRepo.cleanup();
+			}
+		}
+
+		clearInterval(this.limitTimer);
+
+		// Stop monitoring
+		for (const containerId of Array.from(this.fileWatchers.keys())) {
+			this.stopContinuousMonitoring(containerId);
 		}
 
 		// Clean up all sessions
 		for (const [, session] of this.sessions) {
+			await this.recordActivity(session).catch(() => {});
 			if (session.stream) {
+				if (options.keepShadowRepos) {
+					// The end handler would remove the shadow repo
+					session.stream.removeAllListeners('end');
+				}
 				session.stream.end();
 			}
+			await session.recorder?.close();
+			session.stopEgressLog?.();
+			clearInterval(session.usageTimer);
 		}
 		this.sessions.clear();
 
@@ -997,36 +1795,10 @@ export class WebUIServer {
 	}
 
 	async openInBrowser(url: string): Promise<void> {
-		try {
-			// Try the open module first
-			const open = (await import('open')).default;
-			await open(url);
-			console.log(chalk.blue('✓ Opened browser'));
-		}
-		catch (error) {
-			// Fallback to platform-specific commands
-			try {
-				const platform = process.platform;
-
-				if (platform === 'darwin') {
-					execSync(`open "${url}"`, { stdio: 'ignore' });
-				}
-				else if (platform === 'win32') {
-					execSync(`start "" "${url}"`, { stdio: 'ignore' });
-				}
-				else {
-					// Linux/Unix
-					execSync(
-						`xdg-open "${url}" || firefox "${url}" || google-chrome "${url}"`,
-						{ stdio: 'ignore' },
-					);
-				}
-				console.log(chalk.blue('✓ Opened browser'));
-			}
-			catch (fallbackError) {
-				console.log(chalk.yellow('Could not open browser automatically'));
-				console.log(chalk.yellow(`Please open ${url} in your browser`));
-			}
+		// Browsers cannot open Unix sockets; a reverse proxy has to front it
+		if (this.isUnixSocket()) {
+			return;
 		}
+		await openInBrowser(url);
 	}
 }
@@ -0,0 +1,144 @@
+import type express from 'express';
+import type { Buffer } from 'node:buffer';
+import type { WebUIConfig } from './types';
+import { execFileSync } from 'node:child_process';
+import crypto from 'node:crypto';
+import http from 'node:http';
+import https from 'node:https';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import chalk from 'chalk';
+import * as fs from 'fs-extra';
+
+const TLS_DIR = path.join(os.homedir(), '.claude-run', 'tls');
+const SELF_SIGNED_CERT = path.join(TLS_DIR, 'cert.pem');
+const SELF_SIGNED_KEY = path.join(TLS_DIR, 'key.pem');
+
+export const DEFAULT_WEB_HOST = '127.0.0.1';
+
+export interface WebTransport {
+	server: http.Server;
+	secure: boolean;
+}
+
+export function isLoopbackHost(host: string): boolean {
+	return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+/**
+ * TLS is used when a certificate is configured, and by default whenever the
+ * server listens on a non-loopback interface
+ */
+export function usesTls(options: WebUIConfig): boolean {
+	if (options.socketPath) {
+		return false;
+	}
+	if (options.tlsCert || options.tlsKey) {
+		return true;
+	}
+	return options.tls ?? !isLoopbackHost(options.host || DEFAULT_WEB_HOST);
+}
+
+/**
+ * Create the HTTP(S) server for a web UI
+ */
+export function createWebServer(app: express.Application, options: WebUIConfig): WebTransport {
+	if (!usesTls(options)) {
+		return { server: http.createServer(app), secure: false };
+	}
+
+	if (!!options.tlsCert !== !!options.tlsKey) {
+		throw new Error('Both tlsCert and tlsKey must be set to use a custom certificate');
+	}
+	const { cert, key } = options.tlsCert && options.tlsKey
+		? { cert: fs.readFileSync(options.tlsCert), key: fs.readFileSync(options.tlsKey) }
+		: ensureSelfSignedCertificate();
+
+	return { server: https.createServer({ cert, key }, app), secure: true };
+}
+
+/**
+ * Generate a self-signed certificate on first use and reuse it afterwards
+ */
+function ensureSelfSignedCertificate(): { cert: Buffer; key: Buffer } {
+	if (!fs.existsSync(SELF_SIGNED_CERT) || !fs.existsSync(SELF_SIGNED_KEY)) {
+		fs.ensureDirSync(TLS_DIR, 0o700);
+
+		const altNames = ['DNS:localhost', `DNS:${os.hostname()}`, 'IP:127.0.0.1', 'IP:::1'];
+		for (const address of externalAddresses()) {
+			altNames.push(`IP:${address}`);
+		}
+
+		try {
+			execFileSync('openssl', [
+				'req',
+				'-x509',
+				'-newkey',
+				'rsa:2048',
+				'-nodes',
+				'-days',
+				'825',
+				'-subj',
+				'/CN=claude-code-runner',
+				'-addext',
+				`subjectAltName=${altNames.join(',')}`,
+				'-keyout',
+				SELF_SIGNED_KEY,
+				'-out',
+				SELF_SIGNED_CERT,
+			], { stdio: 'ignore' });
+		}
+		catch (error: any) {
+			throw new Error(`Could not generate a self-signed certificate (is openssl installed?): ${error.message}`);
+		}
+		fs.chmodSync(SELF_SIGNED_KEY, 0o600);
+		console.log(chalk.green(`✓ Generated self-signed certificate in ${TLS_DIR}`));
+	}
+
+	const cert = fs.readFileSync(SELF_SIGNED_CERT);
+	const fingerprint = new crypto.X509Certificate(cert).fingerprint256;
+	console.log(chalk.gray(`  Self-signed certificate SHA-256 fingerprint: ${fingerprint}`));
+	return { cert, key: fs.readFileSync(SELF_SIGNED_KEY) };
+}
+
+function externalAddresses(): string[] {
+	const addresses: string[] = [];
+	for (const entries of Object.values(os.networkInterfaces())) {
+		for (const entry of entries || []) {
+			if (!entry.internal) {
+				addresses.push(entry.address);
+			}
+		}
+	}
+	return addresses;
+}
+
+/**
+ * Host name to put in printed URLs for a listen address
+ */
+export function displayHost(host: string): string {
+	if (isLoopbackHost(host)) {
+		return 'localhost';
+	}
+	if (host === '0.0.0.0' || host === '::') {
+		// Listening everywhere: show an address other machines can use
+		const ipv4 = externalAddresses().find(address => !address.includes(':'));
+		return ipv4 || os.hostname();
+	}
+	return host.includes(':') ? `[${host}]` : host;
+}
+
+/**
+ * Whether a browser can be launched on this machine. Over SSH or without a
+ * display, the URL has to be copied to a browser elsewhere.
+ */
+export function canLaunchBrowser(): boolean {
+	if (process.env.SSH_CONNECTION || process.env.SSH_TTY) {
+		return false;
+	}
+	if (process.platform === 'linux' && !process.env.DISPLAY && !process.env.WAYLAND_DISPLAY) {
+		return false;
+	}
+	return true;
+}